@@ -1,11 +1,12 @@
 import { useState, useRef, useEffect } from "react";
-import { useRagQuery } from "@/hooks/use-rag";
+import { useRagQueryStream } from "@/hooks/use-rag";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card } from "@/components/ui/card";
 import { Loader2, Send, Bot, User, FileText } from "lucide-react";
 import ReactMarkdown from "react-markdown";
+import type { CitationVerification } from "@shared/routes";
 
 interface ChatInterfaceProps {
   submissionId?: number;
@@ -15,7 +16,22 @@ interface ChatInterfaceProps {
 interface Message {
   role: "user" | "assistant";
   content: string;
-  citations?: Array<{ docName: string; text: string; chunkId: number }>;
+  citations?: Array<{ docName: string; label?: string; text: string; chunkId: number; scores?: CitationScores }>;
+  verification?: CitationVerification | null;
+}
+
+interface CitationScores {
+  bm25: number;
+  bm25Rank: number | null;
+  vector: number;
+  vectorRank: number | null;
+  fused: number;
+}
+
+function formatScores(scores: CitationScores): string {
+  const bm25 = scores.bm25Rank != null ? `BM25 #${scores.bm25Rank} (${scores.bm25.toFixed(2)})` : "BM25 —";
+  const vector = scores.vectorRank != null ? `Vector #${scores.vectorRank} (${scores.vector.toFixed(2)})` : "Vector —";
+  return `${bm25} · ${vector} · RRF ${scores.fused.toFixed(3)}`;
 }
 
 export function ChatInterface({ submissionId, initialPrompt }: ChatInterfaceProps) {
@@ -23,7 +39,7 @@ export function ChatInterface({ submissionId, initialPrompt }: ChatInterfaceProp
   const [input, setInput] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
   
-  const { mutate: sendMessage, isPending } = useRagQuery();
+  const { stream, isStreaming } = useRagQueryStream();
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -43,30 +59,27 @@ export function ChatInterface({ submissionId, initialPrompt }: ChatInterfaceProp
     if (!text.trim()) return;
 
     const userMsg: Message = { role: "user", content: text };
-    setMessages(prev => [...prev, userMsg]);
+    setMessages(prev => [...prev, userMsg, { role: "assistant", content: "" }]);
     setInput("");
 
-    sendMessage(
+    // The assistant placeholder is always the last message while streaming
+    const updateReply = (update: (msg: Message) => Message) =>
+      setMessages(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+
+    stream(
       { question: text, submissionId },
       {
-        onSuccess: (data) => {
-          setMessages(prev => [
-            ...prev,
-            { 
-              role: "assistant", 
-              content: data.answer,
-              citations: data.citations 
-            }
-          ]);
-        },
-        onError: () => {
-          setMessages(prev => [
-            ...prev,
-            { role: "assistant", content: "Sorry, I encountered an error processing your request." }
-          ]);
-        }
+        onCitations: (citations) => updateReply(msg => ({ ...msg, citations })),
+        onToken: (token) => updateReply(msg => ({ ...msg, content: msg.content + token })),
+        onVerification: (verification) => updateReply(msg => ({ ...msg, verification })),
       }
-    );
+    ).catch((err: Error) => {
+      if (err.name === "AbortError") return;
+      updateReply(msg => ({
+        ...msg,
+        content: msg.content || "Sorry, I encountered an error processing your request.",
+      }));
+    });
   };
 
   return (
@@ -78,7 +91,7 @@ export function ChatInterface({ submissionId, initialPrompt }: ChatInterfaceProp
 
       <ScrollArea className="flex-1 p-4">
         <div className="space-y-6">
-          {messages.map((msg, i) => (
+          {messages.filter(msg => msg.content || msg.citations?.length).map((msg, i) => (
             <div
               key={i}
               className={`flex gap-3 ${msg.role === "user" ? "flex-row-reverse" : "flex-row"}`}
@@ -92,15 +105,34 @@ export function ChatInterface({ submissionId, initialPrompt }: ChatInterfaceProp
               </div>
               
               <div className={`flex flex-col gap-2 max-w-[85%]`}>
-                <div
-                  className={`p-3 rounded-2xl text-sm leading-relaxed ${
-                    msg.role === "user"
-                      ? "bg-primary text-primary-foreground rounded-tr-none"
-                      : "bg-muted/50 border rounded-tl-none"
-                  }`}
-                >
-                  <ReactMarkdown>{msg.content}</ReactMarkdown>
-                </div>
+                {msg.content && (
+                  <div
+                    className={`p-3 rounded-2xl text-sm leading-relaxed ${
+                      msg.role === "user"
+                        ? "bg-primary text-primary-foreground rounded-tr-none"
+                        : "bg-muted/50 border rounded-tl-none"
+                    }`}
+                  >
+                    <ReactMarkdown>{msg.content}</ReactMarkdown>
+                  </div>
+                )}
+
+                {msg.verification && msg.verification.unsupportedCount > 0 && (
+                  <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2 space-y-1">
+                    <p className="font-semibold">
+                      {msg.verification.unsupportedCount} of {msg.verification.claims.length} claims not supported by cited guidance
+                    </p>
+                    <ul className="list-disc pl-4 space-y-0.5">
+                      {msg.verification.claims
+                        .filter((claim) => claim.status === "unsupported")
+                        .map((claim, idx) => (
+                          <li key={idx} title={claim.reason ?? undefined} className="line-clamp-1">
+                            {claim.sentence}
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                )}
 
                 {msg.citations && msg.citations.length > 0 && (
                   <div className="mt-2 space-y-2">
@@ -109,9 +141,12 @@ export function ChatInterface({ submissionId, initialPrompt }: ChatInterfaceProp
                       <Card key={idx} className="p-2 bg-background/50 border-dashed text-xs text-muted-foreground">
                         <div className="flex items-center gap-1 mb-1 text-primary font-medium">
                           <FileText className="w-3 h-3" />
-                          {cite.docName}
+                          {cite.label || cite.docName}
                         </div>
                         <p className="line-clamp-2 italic opacity-80">"{cite.text}"</p>
+                        {cite.scores && (
+                          <p className="mt-1 font-mono text-[10px] opacity-70">{formatScores(cite.scores)}</p>
+                        )}
                       </Card>
                     ))}
                   </div>
@@ -120,7 +155,7 @@ export function ChatInterface({ submissionId, initialPrompt }: ChatInterfaceProp
             </div>
           ))}
           
-          {isPending && (
+          {isStreaming && !messages[messages.length - 1]?.content && (
             <div className="flex gap-3">
               <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center shrink-0">
                 <Bot className="w-4 h-4" />
@@ -148,9 +183,9 @@ export function ChatInterface({ submissionId, initialPrompt }: ChatInterfaceProp
             onChange={(e) => setInput(e.target.value)}
             placeholder="Ask a question about this case..."
             className="flex-1"
-            disabled={isPending}
+            disabled={isStreaming}
           />
-          <Button type="submit" size="icon" disabled={isPending || !input.trim()}>
+          <Button type="submit" size="icon" disabled={isStreaming || !input.trim()}>
             <Send className="w-4 h-4" />
           </Button>
         </form>
@@ -0,0 +1,470 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  useRules,
+  useCreateRuleDraft,
+  useDiscardRuleDraft,
+  useSaveRule,
+  useSetRuleDisabled,
+  useTestRuleDraft,
+  usePublishRuleDraft,
+  useBacktestRules,
+  downloadBacktest,
+  type RuleInput,
+} from "@/hooks/use-rules";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Download, FlaskConical, GitBranch, History, Pencil, Plus, Rocket, ShieldCheck, Trash2, XCircle } from "lucide-react";
+
+type RuleForm = {
+  originalCode?: string;
+  code: string;
+  label: string;
+  severity: "RED" | "AMBER";
+  complaints: string;
+  when: string;
+  evidence: string;
+};
+
+const EMPTY_FORM: RuleForm = {
+  code: "",
+  label: "",
+  severity: "RED",
+  complaints: "",
+  when: '{ "fact": "", "op": "eq", "value": true }',
+  evidence: "",
+};
+
+const EXAMPLE_ANSWERS = '{\n  "age": 62,\n  "sex": "Male",\n  "complaint": "Chest pain",\n  "severity": 7\n}';
+
+function toForm(rule: RuleInput): RuleForm {
+  return {
+    originalCode: rule.code,
+    code: rule.code,
+    label: rule.label,
+    severity: rule.severity,
+    complaints: (rule.complaints ?? []).join(", "),
+    when: JSON.stringify(rule.when, null, 2),
+    evidence: rule.evidence,
+  };
+}
+
+// Builds the rule from the form; the `when` JSON is checked here, the rest by the server
+function fromForm(form: RuleForm): RuleInput {
+  const complaints = form.complaints.split(",").map((c) => c.trim()).filter(Boolean);
+  return {
+    code: form.code.trim(),
+    label: form.label.trim(),
+    severity: form.severity,
+    ...(complaints.length > 0 ? { complaints } : {}),
+    when: JSON.parse(form.when),
+    evidence: form.evidence.trim(),
+  };
+}
+
+const SEVERITY_STYLES: Record<string, string> = {
+  RED: "bg-red-50 text-red-700",
+  AMBER: "bg-amber-50 text-amber-700",
+};
+
+export function RuleEditor() {
+  const { data, isLoading } = useRules();
+  const { mutate: createDraft, isPending: creating } = useCreateRuleDraft();
+  const { mutate: discardDraft } = useDiscardRuleDraft();
+  const { mutate: saveRule, isPending: savingRule } = useSaveRule();
+  const { mutate: setDisabled } = useSetRuleDisabled();
+  const { mutate: testDraft, data: testResult, isPending: testing, reset: resetTest } = useTestRuleDraft();
+  const { mutate: publish, isPending: publishing } = usePublishRuleDraft();
+  const { mutate: backtest, data: backtestReport, isPending: backtesting, reset: resetBacktest } = useBacktestRules();
+
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [answers, setAnswers] = useState(EXAMPLE_ANSWERS);
+  const [answersError, setAnswersError] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+
+  if (isLoading || !data) return <p className="text-slate-500">Loading…</p>;
+
+  const { active, draft, history } = data;
+  const rules = draft ? draft.definition.rules : active.definition.rules;
+  const issues = draft?.validation.issues ?? [];
+  const errorCount = issues.filter((i) => i.level === "error").length;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    let rule: RuleInput;
+    try {
+      rule = fromForm(form);
+    } catch {
+      setFormError("Condition is not valid JSON.");
+      return;
+    }
+    setFormError(null);
+    saveRule({ rule, originalCode: form.originalCode }, { onSuccess: () => setForm(null) });
+  };
+
+  const handleTest = () => {
+    try {
+      setAnswersError(null);
+      testDraft(JSON.parse(answers));
+    } catch {
+      setAnswersError("Answers are not valid JSON.");
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!confirm("Discard the draft and all unpublished edits?")) return;
+    discardDraft(undefined, {
+      onSuccess: () => {
+        setForm(null);
+        resetTest();
+        resetBacktest();
+      },
+    });
+  };
+
+  return (
+    <div className="grid gap-8">
+      <Card className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-slate-500" />
+            {draft ? `Draft rule set (v${draft.version})` : `Active rule set (v${active.version})`}
+          </h2>
+          {draft ? (
+            <Button size="sm" onClick={() => setForm({ ...EMPTY_FORM })}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add rule
+            </Button>
+          ) : (
+            <Button size="sm" onClick={() => createDraft()} disabled={creating}>
+              <GitBranch className="w-4 h-4 mr-1" />
+              Start draft
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-slate-600 mb-4">
+          {draft
+            ? "Changes apply to the draft only. Test and publish it to make them live."
+            : "Rules are read-only while live. Start a draft to add, edit or disable rules."}
+        </p>
+
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.code}
+              className={`flex items-center justify-between gap-3 p-3 rounded-lg border border-slate-100 ${
+                rule.disabled ? "bg-white opacity-60" : "bg-slate-50"
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900">
+                  {rule.label}
+                  <span className={`ml-2 text-xs font-medium px-2 py-0.5 rounded ${SEVERITY_STYLES[rule.severity]}`}>
+                    {rule.severity}
+                  </span>
+                </p>
+                <p className="text-xs text-slate-500 font-mono">
+                  {rule.code}
+                  {rule.complaints && ` • ${rule.complaints.join(", ")}`}
+                </p>
+              </div>
+              {draft && (
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={!rule.disabled}
+                    title={rule.disabled ? "Enable rule" : "Disable rule"}
+                    onCheckedChange={(enabled) => setDisabled({ code: rule.code, disabled: !enabled })}
+                  />
+                  <Button size="sm" variant="ghost" title="Edit rule" onClick={() => setForm(toForm(rule))}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {draft && form && (
+        <Card className="p-6">
+          <h2 className="text-lg font-bold mb-4">{form.originalCode ? `Edit ${form.originalCode}` : "New rule"}</h2>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Code</Label>
+                <Input
+                  placeholder="RF_EXAMPLE"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label>Label</Label>
+                <Input value={form.label} onChange={(e) => setForm({ ...form, label: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select
+                  value={form.severity}
+                  onValueChange={(severity) => setForm({ ...form, severity: severity as RuleForm["severity"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="RED">RED</SelectItem>
+                    <SelectItem value="AMBER">AMBER</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label>Complaints (comma-separated, blank for all)</Label>
+                <Input
+                  placeholder="e.g. chest pain, shortness of breath"
+                  value={form.complaints}
+                  onChange={(e) => setForm({ ...form, complaints: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Condition (JSON)</Label>
+              <Textarea
+                className="font-mono text-xs min-h-[140px]"
+                value={form.when}
+                onChange={(e) => setForm({ ...form, when: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Evidence shown to clinicians</Label>
+              <Input value={form.evidence} onChange={(e) => setForm({ ...form, evidence: e.target.value })} />
+            </div>
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <div className="flex gap-2">
+              <Button type="submit" disabled={savingRule}>Save to draft</Button>
+              <Button type="button" variant="ghost" onClick={() => setForm(null)}>Cancel</Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {draft && (
+        <Card className="p-6">
+          <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-slate-500" />
+            Validation
+          </h2>
+          {issues.length === 0 ? (
+            <p className="text-sm text-green-700">No issues found.</p>
+          ) : (
+            <ul className="space-y-2">
+              {issues.map((issue, i) => (
+                <li key={i} className="text-sm flex items-start gap-2">
+                  <span
+                    className={`text-xs font-medium px-2 py-0.5 rounded shrink-0 ${
+                      issue.level === "error" ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-700"
+                    }`}
+                  >
+                    {issue.level}
+                  </span>
+                  <span>
+                    {issue.rule && <span className="font-mono text-slate-700">{issue.rule} </span>}
+                    {issue.message}
+                    <span className="block text-xs font-mono text-slate-400">{issue.path}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      )}
+
+      {draft && (
+        <Card className="p-6">
+          <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+            <FlaskConical className="w-5 h-5 text-slate-500" />
+            Test draft
+          </h2>
+          <p className="text-sm text-slate-600 mb-4">
+            Answers are run through the draft and the live rule set side by side.
+          </p>
+          <Textarea
+            className="font-mono text-xs min-h-[120px] mb-2"
+            value={answers}
+            onChange={(e) => setAnswers(e.target.value)}
+          />
+          {answersError && <p className="text-sm text-red-600 mb-2">{answersError}</p>}
+          <Button size="sm" variant="outline" onClick={handleTest} disabled={testing}>
+            Run test
+          </Button>
+          {testResult && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              {(["active", "draft"] as const).map((key) => (
+                <div key={key} className="p-3 rounded-lg border border-slate-100 bg-slate-50">
+                  <p className="text-xs font-medium uppercase text-slate-500 mb-1">
+                    {key === "active" ? `Live (v${active.version})` : `Draft (v${draft.version})`}
+                  </p>
+                  <p className="font-medium">{testResult[key].riskBand}</p>
+                  <p className="text-xs font-mono text-slate-500">
+                    {testResult[key].firedRules.length > 0 ? testResult[key].firedRules.join(", ") : "No rules fired"}
+                  </p>
+                </div>
+              ))}
+              <p className="text-sm md:col-span-2">
+                {testResult.changed ? "The draft changes the outcome for these answers." : "Same outcome as the live rules."}
+              </p>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {draft && (
+        <Card className="p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="text-lg font-bold flex items-center gap-2">
+              <History className="w-5 h-5 text-slate-500" />
+              Back-test
+            </h2>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => backtest()} disabled={backtesting}>
+                {backtestReport ? "Re-run" : "Run back-test"}
+              </Button>
+              {backtestReport && (
+                <>
+                  <Button size="sm" variant="ghost" onClick={() => downloadBacktest("json", backtestReport)}>
+                    <Download className="w-3 h-3 mr-1" />
+                    JSON
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => downloadBacktest("csv").catch((e) => alert(e.message))}>
+                    <Download className="w-3 h-3 mr-1" />
+                    CSV
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+          <p className="text-sm text-slate-600 mb-4">
+            Replays every stored case through the live rules and the draft, and compares both with clinician overrides.
+          </p>
+          {backtestReport && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+                <div className="p-3 rounded-lg bg-slate-50">
+                  <p className="text-xs text-slate-500">Cases replayed</p>
+                  <p className="font-bold">{backtestReport.summary.cases}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-red-50">
+                  <p className="text-xs text-slate-500">Escalated</p>
+                  <p className="font-bold">{backtestReport.summary.escalated}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-green-50">
+                  <p className="text-xs text-slate-500">De-escalated</p>
+                  <p className="font-bold">{backtestReport.summary.deEscalated}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-slate-50">
+                  <p className="text-xs text-slate-500">Agree with clinician</p>
+                  <p className="font-bold">
+                    {backtestReport.summary.baselineAgreement} → {backtestReport.summary.candidateAgreement}
+                    <span className="font-normal text-slate-500"> / {backtestReport.summary.withClinicianBand}</span>
+                  </p>
+                </div>
+              </div>
+              {backtestReport.changes.length === 0 ? (
+                <p className="text-sm text-slate-500 italic">No stored case changes under the draft.</p>
+              ) : (
+                <div className="space-y-2">
+                  {backtestReport.changes.map((change) => (
+                    <div key={change.caseId} className="p-3 rounded-lg border border-slate-100 bg-slate-50 text-sm">
+                      <p className="font-medium">
+                        <span className="font-mono text-slate-600">{change.caseId}</span>
+                        <span className="ml-2">{change.complaint}</span>
+                        <span className="ml-2">
+                          {change.baselineBand} → {change.candidateBand}
+                        </span>
+                        {change.clinicianBand && (
+                          <span className="ml-2 text-xs text-slate-500">clinician: {change.clinicianBand}</span>
+                        )}
+                      </p>
+                      <p className="text-xs font-mono text-slate-500">
+                        {change.flagsAdded.map((code) => `+${code}`).concat(change.flagsRemoved.map((code) => `-${code}`)).join(" ")}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </Card>
+      )}
+
+      {draft && (
+        <Card className="p-6">
+          <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+            <Rocket className="w-5 h-5 text-slate-500" />
+            Publish
+          </h2>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2 flex-1 min-w-[200px]">
+              <Label>Release notes</Label>
+              <Input
+                placeholder="What changed and why"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+            <Button
+              disabled={publishing || errorCount > 0}
+              title={errorCount > 0 ? "Fix validation errors first" : undefined}
+              onClick={() =>
+                publish(notes || undefined, {
+                  onSuccess: () => {
+                    setNotes("");
+                    resetTest();
+                    resetBacktest();
+                  },
+                })
+              }
+            >
+              Publish v{draft.version}
+            </Button>
+            <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={handleDiscard}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Discard
+            </Button>
+          </div>
+          {errorCount > 0 && (
+            <p className="text-sm text-red-600 mt-3 flex items-center gap-1">
+              <XCircle className="w-4 h-4" />
+              {errorCount} validation error(s) must be fixed before publishing.
+            </p>
+          )}
+        </Card>
+      )}
+
+      <Card className="p-6">
+        <h2 className="text-lg font-bold mb-4">History</h2>
+        <div className="space-y-2">
+          {history.map((set) => (
+            <div key={set.id} className="flex items-center justify-between gap-3 text-sm">
+              <span>
+                <span className="font-mono">v{set.version}</span>
+                <span className="ml-2 text-xs font-mono text-slate-500">{set.hash.slice(0, 12)}</span>
+                {set.notes && <span className="ml-2 text-slate-600">{set.notes}</span>}
+              </span>
+              <span className="text-xs text-slate-500">
+                {set.status}
+                {set.activatedAt && ` • ${format(new Date(set.activatedAt), "PPP")}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import type { CitationVerification } from "@shared/routes";
+import { cn } from "@/lib/utils";
+
+interface VerifiedTextProps {
+  text: string;
+  verification?: CitationVerification | null;
+  className?: string;
+}
+
+// Renders generated text with unsupported claims highlighted; the reason shows on hover
+export function VerifiedText({ text, verification, className }: VerifiedTextProps) {
+  const unsupported = (verification?.claims ?? [])
+    .filter((claim) => claim.status === "unsupported")
+    .sort((a, b) => a.start - b.start);
+
+  const segments: Array<{ text: string; reason?: string | null }> = [];
+  let cursor = 0;
+  for (const claim of unsupported) {
+    if (claim.start < cursor) continue;
+    if (claim.start > cursor) segments.push({ text: text.slice(cursor, claim.start) });
+    segments.push({ text: text.slice(claim.start, claim.end), reason: claim.reason ?? "Unsupported" });
+    cursor = claim.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+
+  return (
+    <div className={cn("whitespace-pre-wrap", className)}>
+      {segments.map((segment, idx) =>
+        segment.reason ? (
+          <mark
+            key={idx}
+            title={segment.reason}
+            className="bg-amber-100 text-inherit underline decoration-amber-500 decoration-dotted rounded-sm"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={idx}>{segment.text}</span>
+        )
+      )}
+      {verification && verification.claims.length > 0 && (
+        <p className="mt-3 text-xs text-slate-500 whitespace-normal">
+          {verification.supportedCount} of {verification.claims.length} claims supported by cited guidance
+          {verification.unsupportedCount > 0 && " — highlighted claims are uncited or not backed by their citation"}
+          {verification.invalidChunkIds.length > 0 &&
+            `; cited passages not retrieved: ${verification.invalidChunkIds.join(", ")}`}
+        </p>
+      )}
+    </div>
+  );
+}
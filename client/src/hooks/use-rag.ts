@@ -1,6 +1,9 @@
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@shared/routes";
+import { api, buildUrl } from "@shared/routes";
+import type { CitationVerification } from "@shared/routes";
 import { useToast } from "@/hooks/use-toast";
+import { postEventStream } from "@/lib/sse";
 import type { z } from "zod";
 
 export function useDocuments() {
@@ -25,20 +28,132 @@ export function useUploadDocument() {
         body: formData,
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to upload document");
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Could not upload the document.");
+      }
       return api.documents.upload.responses[201].parse(await res.json());
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: [api.documents.list.path] });
+      const notes = [...data.warnings];
+      if (data.skipped.length > 0) {
+        notes.push(`${data.skipped.length} duplicate passage(s) were skipped.`);
+      }
       toast({
-        title: "Upload Successful",
-        description: "Document has been added to the knowledge base.",
+        title: notes.length > 0 ? "Uploaded with warnings" : "Upload Successful",
+        description: [
+          `Document has been added to the knowledge base (${data.chunkCount} passages).`,
+          ...notes,
+        ].join(" "),
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Upload Failed",
-        description: "Could not upload the document.",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useReplaceDocument() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, formData }: { id: number; formData: FormData }) => {
+      const res = await fetch(buildUrl(api.documents.replace.path, { id }), {
+        method: api.documents.replace.method,
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Could not replace the document.");
+      }
+      return api.documents.replace.responses[201].parse(await res.json());
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [api.documents.list.path] });
+      toast({
+        title: `Version ${data.version} uploaded`,
+        description: [
+          `The previous version is superseded (${data.chunkCount} passages indexed).`,
+          ...data.warnings,
+          ...(data.skipped.length > 0 ? [`${data.skipped.length} duplicate passage(s) were skipped.`] : []),
+        ].join(" "),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Replace Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useReprocessDocument() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.documents.process.path, { id }), {
+        method: api.documents.process.method,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Could not re-process the document.");
+      }
+      return api.documents.process.responses[200].parse(await res.json());
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [api.documents.list.path] });
+      toast({
+        title: "Document re-processed",
+        description: `${data.chunkCount} passages indexed, ${data.retiredCount} retired`
+          + (data.skipped.length > 0 ? `, ${data.skipped.length} duplicates skipped.` : "."),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Re-process Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteDocument() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.documents.delete.path, { id }), {
+        method: api.documents.delete.method,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Could not delete the document.");
+      }
+      return api.documents.delete.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.documents.list.path] });
+      toast({ title: "Document deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -58,3 +173,48 @@ export function useRagQuery() {
     },
   });
 }
+
+export type RagCitation = z.infer<typeof api.rag.query.responses[200]>["citations"][number];
+
+export interface RagStreamHandlers {
+  onCitations?: (citations: RagCitation[]) => void;
+  onToken?: (text: string) => void;
+  onVerification?: (verification: CitationVerification | null) => void;
+}
+
+// Streams a RAG answer over SSE; citations arrive before the first token
+export function useRagQueryStream() {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const stream = useCallback(
+    async (data: z.infer<typeof api.rag.queryStream.input>, handlers: RagStreamHandlers) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setIsStreaming(true);
+      try {
+        await postEventStream(
+          api.rag.queryStream.path,
+          api.rag.queryStream.input.parse(data),
+          ({ event, data }) => {
+            if (event === "citations") handlers.onCitations?.(data.citations);
+            else if (event === "token") handlers.onToken?.(data.text);
+            else if (event === "verification") handlers.onVerification?.(data.verification);
+            else if (event === "error") throw new Error(data.message);
+          },
+          controller.signal,
+        );
+      } finally {
+        if (controllerRef.current === controller) setIsStreaming(false);
+      }
+    },
+    [],
+  );
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  return { stream, isStreaming, cancel };
+}
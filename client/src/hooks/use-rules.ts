@@ -0,0 +1,191 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { BacktestReport } from "@shared/routes";
+import { useToast } from "@/hooks/use-toast";
+import type { z } from "zod";
+
+export type RuleInput = z.infer<typeof api.rules.createRule.input>;
+
+// JSON request to a rules endpoint; non-2xx responses throw with the server's message
+async function send(method: string, url: string, fallback: string, body?: unknown): Promise<unknown> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return res.json();
+}
+
+export function useRules() {
+  return useQuery({
+    queryKey: [api.rules.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.rules.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch rules");
+      return api.rules.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreateRuleDraft() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () =>
+      api.rules.createDraft.responses[201].parse(
+        await send(api.rules.createDraft.method, api.rules.createDraft.path, "Could not create a draft.")
+      ),
+    onSuccess: (draft) => {
+      queryClient.invalidateQueries({ queryKey: [api.rules.list.path] });
+      toast({ title: "Draft created", description: `Edits will be published as version ${draft.version}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Draft Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDiscardRuleDraft() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () =>
+      api.rules.discardDraft.responses[200].parse(
+        await send(api.rules.discardDraft.method, api.rules.discardDraft.path, "Could not discard the draft.")
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.rules.list.path] });
+      toast({ title: "Draft discarded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Discard Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+// Adds a rule, or replaces `originalCode` when editing an existing one
+export function useSaveRule() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ rule, originalCode }: { rule: RuleInput; originalCode?: string }) => {
+      if (originalCode) {
+        const url = buildUrl(api.rules.updateRule.path, { code: originalCode });
+        return api.rules.updateRule.responses[200].parse(
+          await send(api.rules.updateRule.method, url, "Could not save the rule.", rule)
+        );
+      }
+      return api.rules.createRule.responses[201].parse(
+        await send(api.rules.createRule.method, api.rules.createRule.path, "Could not add the rule.", rule)
+      );
+    },
+    onSuccess: (draft, { rule }) => {
+      queryClient.invalidateQueries({ queryKey: [api.rules.list.path] });
+      const errors = draft.validation.issues.filter((i) => i.level === "error").length;
+      toast({
+        title: `${rule.code} saved to draft`,
+        description: errors > 0 ? `The draft has ${errors} validation error(s).` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useSetRuleDisabled() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ code, disabled }: { code: string; disabled: boolean }) => {
+      const url = buildUrl(api.rules.setRuleDisabled.path, { code });
+      return api.rules.setRuleDisabled.responses[200].parse(
+        await send(api.rules.setRuleDisabled.method, url, "Could not update the rule.", { disabled })
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.rules.list.path] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useTestRuleDraft() {
+  return useMutation({
+    mutationFn: async (answers: Record<string, unknown>) =>
+      api.rules.test.responses[200].parse(
+        await send(api.rules.test.method, api.rules.test.path, "Could not test the draft.", { answers })
+      ),
+  });
+}
+
+export function usePublishRuleDraft() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (notes?: string) =>
+      api.rules.publish.responses[200].parse(
+        await send(api.rules.publish.method, api.rules.publish.path, "Could not publish the draft.", { notes })
+      ),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [api.rules.list.path] });
+      toast({ title: `Rule set v${data.version} is live`, description: `Hash ${data.hash.slice(0, 12)}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Publish Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+// Replays stored cases through the draft; the report is kept so it can be downloaded
+export function useBacktestRules() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () =>
+      api.rules.backtest.responses[200].parse(
+        await send(api.rules.backtest.method, api.rules.backtest.path, "Could not back-test the draft.", {})
+      ),
+    onError: (error: Error) => {
+      toast({ title: "Back-test Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function downloadBacktest(format: "json" | "csv", report?: BacktestReport): Promise<void> {
+  if (format === "json" && report) {
+    const name = `rules-backtest-v${report.candidate.version ?? "adhoc"}.json`;
+    saveFile(new Blob([JSON.stringify(report, null, 2)], { type: "application/json" }), name);
+    return;
+  }
+  const res = await fetch(api.rules.backtest.path, {
+    method: api.rules.backtest.method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ format }),
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error("Could not download the back-test report.");
+  const name = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? `rules-backtest.${format}`;
+  saveFile(await res.blob(), name);
+}
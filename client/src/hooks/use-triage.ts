@@ -1,7 +1,9 @@
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
 import { useToast } from "@/hooks/use-toast";
-import type { TriageInput, SubmissionResponse } from "@shared/routes";
+import { postEventStream } from "@/lib/sse";
+import type { TriageInput, SubmissionResponse, CitationVerification } from "@shared/routes";
 import { insertOverrideSchema } from "@shared/schema";
 import type { z } from "zod";
 
@@ -90,6 +92,14 @@ export function useOverrideTriage() {
   });
 }
 
+type RetrievedChunk = { chunkId: number; sourceTitle: string; citation?: string; content: string };
+
+export interface RAGExplanation {
+  explanation: string;
+  verification: CitationVerification | null;
+  retrievedChunks: RetrievedChunk[];
+}
+
 export function useRAGExplanation(submissionId: number) {
   return useQuery({
     queryKey: ["rag-explanation", submissionId],
@@ -98,8 +108,50 @@ export function useRAGExplanation(submissionId: number) {
         method: "POST",
       });
       if (!res.ok) throw new Error("Failed to fetch RAG explanation");
-      return res.json() as Promise<{ explanation: string; retrievedChunks: Array<{ chunkId: number; sourceTitle: string; content: string }> }>;
+      return res.json() as Promise<RAGExplanation>;
     },
     enabled: !!submissionId,
   });
 }
+
+// Streams the explanation over SSE so text renders as it is generated
+export function useRAGExplanationStream(submissionId: number) {
+  const [data, setData] = useState<RAGExplanation | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!submissionId) return;
+    const controller = new AbortController();
+    setData(null);
+    setError(null);
+    setIsStreaming(true);
+
+    postEventStream(
+      `/api/submissions/${submissionId}/rag-explanation/stream`,
+      {},
+      ({ event, data: payload }) => {
+        if (event === "citations") {
+          setData({ explanation: "", verification: null, retrievedChunks: payload.citations });
+        } else if (event === "token") {
+          setData(prev => prev && { ...prev, explanation: prev.explanation + payload.text });
+        } else if (event === "verification") {
+          setData(prev => prev && { ...prev, verification: payload.verification });
+        } else if (event === "error") {
+          throw new Error(payload.message);
+        }
+      },
+      controller.signal,
+    )
+      .catch((err: Error) => {
+        if (err.name !== "AbortError") setError(err);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsStreaming(false);
+      });
+
+    return () => controller.abort();
+  }, [submissionId]);
+
+  return { data, isStreaming, error };
+}
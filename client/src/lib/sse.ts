@@ -0,0 +1,55 @@
+// Reader for the server's POST Server-Sent Events endpoints.
+// EventSource only supports GET, so the response body is read and parsed by hand.
+
+export interface ServerEvent {
+  event: string;
+  data: any;
+}
+
+export async function postEventStream(
+  url: string,
+  body: unknown,
+  onEvent: (event: ServerEvent) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(body ?? {}),
+    credentials: "include",
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || `Request failed (${res.status})`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (raw: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of raw.split("\n")) {
+      if (line.startsWith(":")) continue; // heartbeat comment
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (data.length === 0) return;
+    onEvent({ event, data: JSON.parse(data.join("\n")) });
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -1,4 +1,10 @@
-import { useDocuments, useUploadDocument } from "@/hooks/use-rag";
+import {
+  useDocuments,
+  useUploadDocument,
+  useReplaceDocument,
+  useReprocessDocument,
+  useDeleteDocument,
+} from "@/hooks/use-rag";
 import { useSubmissions } from "@/hooks/use-triage";
 import { useQueryClient } from "@tanstack/react-query";
 import { api } from "@shared/routes";
@@ -7,7 +13,11 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ArrowLeft, Upload, FileText, CheckCircle, LogOut, User, Pencil, Loader2 } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RuleEditor } from "@/components/RuleEditor";
+import {
+  ArrowLeft, Upload, FileText, CheckCircle, LogOut, User, Pencil, Loader2, RefreshCw, Trash2, History,
+} from "lucide-react";
 import { useState, useEffect } from "react";
 import { format } from "date-fns";
 
@@ -25,6 +35,10 @@ export default function AdminDocs() {
   const { data: docs, isLoading } = useDocuments();
   const { data: submissions, isLoading: subsLoading } = useSubmissions();
   const { mutate: upload, isPending } = useUploadDocument();
+  const { mutate: replaceDoc, isPending: replacing } = useReplaceDocument();
+  const { mutate: reprocessDoc, isPending: reprocessing } = useReprocessDocument();
+  const { mutate: deleteDoc } = useDeleteDocument();
+  const [replaceTargetId, setReplaceTargetId] = useState<number | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [source, setSource] = useState("");
   const [editingId, setEditingId] = useState<number | null>(null);
@@ -61,6 +75,26 @@ export default function AdminDocs() {
     });
   };
 
+  const startReplace = (docId: number) => {
+    setReplaceTargetId(docId);
+    document.getElementById("replace-upload")?.click();
+  };
+
+  const handleReplaceFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!newFile || replaceTargetId == null) return;
+    const formData = new FormData();
+    formData.append("file", newFile);
+    replaceDoc({ id: replaceTargetId, formData }, { onSettled: () => setReplaceTargetId(null) });
+  };
+
+  const handleDelete = (docId: number, name: string) => {
+    if (window.confirm(`Delete "${name}" and all of its passages? Citations to it will no longer resolve.`)) {
+      deleteDoc(docId);
+    }
+  };
+
   const startEdit = (sub: Submission) => {
     setEditingId(sub.id);
     setEditName(String((sub.answers as Record<string, string>)?.patientName ?? ""));
@@ -96,7 +130,7 @@ export default function AdminDocs() {
             </Link>
             <div>
               <h1 className="text-2xl font-bold font-display text-slate-900">Admin</h1>
-              <p className="text-slate-500">Knowledge base & case edits.</p>
+              <p className="text-slate-500">Case edits, knowledge base & triage rules.</p>
             </div>
           </div>
           <Button variant="outline" size="sm" onClick={handleLogout}>
@@ -105,136 +139,206 @@ export default function AdminDocs() {
           </Button>
         </div>
 
-        <div className="grid gap-8">
-          <Card className="p-6">
-            <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
-              <User className="w-5 h-5 text-slate-500" />
-              Cases – change patient name
-            </h2>
-            <p className="text-sm text-slate-600 mb-4">
-              Edits are stored as &quot;Changed by [your name]&quot;.
-            </p>
-            {subsLoading ? (
-              <p className="text-slate-500">Loading…</p>
-            ) : (
-              <div className="space-y-3">
-                {(submissions as Submission[] | undefined)?.map((sub) => (
-                  <div
-                    key={sub.id}
-                    className="flex flex-wrap items-center gap-3 p-3 bg-slate-50 rounded-lg border border-slate-100"
-                  >
-                    <span className="font-mono text-slate-600">#{sub.id}</span>
-                    {editingId === sub.id ? (
-                      <>
-                        <Input
-                          value={editName}
-                          onChange={(e) => setEditName(e.target.value)}
-                          placeholder="Patient name"
-                          className="max-w-[200px]"
-                        />
-                        <Button size="sm" onClick={saveName} disabled={saving}>
-                          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
-                        </Button>
-                        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
-                          Cancel
-                        </Button>
-                      </>
-                    ) : (
-                      <>
-                        <span className="font-medium">
-                          {(sub.answers as Record<string, string>)?.patientName ?? "—"}
-                        </span>
-                        <Button size="sm" variant="ghost" onClick={() => startEdit(sub)}>
-                          <Pencil className="w-3 h-3 mr-1" />
-                          Edit name
-                        </Button>
-                        {(sub as Submission).updatedBy && (
-                          <span className="text-xs text-slate-500">
-                            Changed by {(sub as Submission).updatedBy}
-                            {(sub as Submission).updatedAt &&
-                              ` • ${format(new Date((sub as Submission).updatedAt!), "MMM d, HH:mm")}`}
+        <Tabs defaultValue="cases">
+          <TabsList className="mb-6">
+            <TabsTrigger value="cases">Cases</TabsTrigger>
+            <TabsTrigger value="knowledge">Knowledge base</TabsTrigger>
+            <TabsTrigger value="rules">Rules</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="cases">
+            <Card className="p-6">
+              <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+                <User className="w-5 h-5 text-slate-500" />
+                Cases – change patient name
+              </h2>
+              <p className="text-sm text-slate-600 mb-4">
+                Edits are stored as &quot;Changed by [your name]&quot;.
+              </p>
+              {subsLoading ? (
+                <p className="text-slate-500">Loading…</p>
+              ) : (
+                <div className="space-y-3">
+                  {(submissions as Submission[] | undefined)?.map((sub) => (
+                    <div
+                      key={sub.id}
+                      className="flex flex-wrap items-center gap-3 p-3 bg-slate-50 rounded-lg border border-slate-100"
+                    >
+                      <span className="font-mono text-slate-600">#{sub.id}</span>
+                      {editingId === sub.id ? (
+                        <>
+                          <Input
+                            value={editName}
+                            onChange={(e) => setEditName(e.target.value)}
+                            placeholder="Patient name"
+                            className="max-w-[200px]"
+                          />
+                          <Button size="sm" onClick={saveName} disabled={saving}>
+                            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <span className="font-medium">
+                            {(sub.answers as Record<string, string>)?.patientName ?? "—"}
                           </span>
-                        )}
-                      </>
-                    )}
+                          <Button size="sm" variant="ghost" onClick={() => startEdit(sub)}>
+                            <Pencil className="w-3 h-3 mr-1" />
+                            Edit name
+                          </Button>
+                          {(sub as Submission).updatedBy && (
+                            <span className="text-xs text-slate-500">
+                              Changed by {(sub as Submission).updatedBy}
+                              {(sub as Submission).updatedAt &&
+                                ` • ${format(new Date((sub as Submission).updatedAt!), "MMM d, HH:mm")}`}
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                  {(!submissions || submissions.length === 0) && (
+                    <p className="text-slate-500 italic">No cases yet.</p>
+                  )}
+                </div>
+              )}
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="knowledge" className="grid gap-8">
+            <Card className="p-6">
+              <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+                <Upload className="w-5 h-5 text-primary" />
+                Upload New Document
+              </h2>
+              <form onSubmit={handleUpload} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="file-upload">Document (PDF/DOCX/HTML/Markdown/TXT)</Label>
+                    <Input
+                      id="file-upload"
+                      type="file"
+                      accept=".pdf,.docx,.html,.htm,.md,.txt"
+                      onChange={(e) => setFile(e.target.files?.[0] || null)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Source / Authority</Label>
+                    <Input
+                      placeholder="e.g. NICE Guidelines CG95"
+                      value={source}
+                      onChange={(e) => setSource(e.target.value)}
+                    />
                   </div>
-                ))}
-                {(!submissions || submissions.length === 0) && (
-                  <p className="text-slate-500 italic">No cases yet.</p>
-                )}
-              </div>
-            )}
-          </Card>
-
-          <Card className="p-6">
-            <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
-              <Upload className="w-5 h-5 text-primary" />
-              Upload New Document
-            </h2>
-            <form onSubmit={handleUpload} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="file-upload">Document (PDF/TXT)</Label>
-                  <Input
-                    id="file-upload"
-                    type="file"
-                    accept=".pdf,.txt,.md"
-                    onChange={(e) => setFile(e.target.files?.[0] || null)}
-                  />
                 </div>
+                <Button type="submit" disabled={!file || isPending}>
+                  {isPending ? "Uploading & Processing…" : "Upload Document"}
+                </Button>
+              </form>
+            </Card>
+
+            <Card className="p-6">
+              <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+                <FileText className="w-5 h-5 text-slate-500" />
+                Documents
+              </h2>
+              <input
+                id="replace-upload"
+                type="file"
+                accept=".pdf,.docx,.html,.htm,.md,.txt"
+                className="hidden"
+                onChange={handleReplaceFile}
+              />
+              {isLoading ? (
+                <p>Loading…</p>
+              ) : (
                 <div className="space-y-2">
-                  <Label>Source / Authority</Label>
-                  <Input
-                    placeholder="e.g. NICE Guidelines CG95"
-                    value={source}
-                    onChange={(e) => setSource(e.target.value)}
-                  />
-                </div>
-              </div>
-              <Button type="submit" disabled={!file || isPending}>
-                {isPending ? "Uploading & Processing…" : "Upload Document"}
-              </Button>
-            </form>
-          </Card>
-
-          <Card className="p-6">
-            <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
-              <FileText className="w-5 h-5 text-slate-500" />
-              Active Documents
-            </h2>
-            {isLoading ? (
-              <p>Loading…</p>
-            ) : (
-              <div className="space-y-2">
-                {docs?.map((doc) => (
-                  <div
-                    key={doc.id}
-                    className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-100"
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 bg-white border rounded flex items-center justify-center text-slate-400">
-                        <FileText className="w-4 h-4" />
+                  {docs?.map((doc) => (
+                    <div
+                      key={doc.id}
+                      className={`flex items-center justify-between gap-3 p-3 rounded-lg border border-slate-100 ${
+                        doc.status === "active" ? "bg-slate-50" : "bg-white opacity-70"
+                      }`}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 bg-white border rounded flex items-center justify-center text-slate-400">
+                          <FileText className="w-4 h-4" />
+                        </div>
+                        <div>
+                          <p className="font-medium text-slate-900">
+                            {doc.name}
+                            <span className="ml-2 text-xs font-mono text-slate-500">v{doc.version}</span>
+                          </p>
+                          <p className="text-xs text-slate-500">
+                            {doc.source} • {format(new Date(doc.uploadedAt), "PPP")}
+                            {doc.pageCount != null && ` • ${doc.pageCount} pages`}
+                            {doc.supersededAt && ` • superseded ${format(new Date(doc.supersededAt), "PPP")}`}
+                          </p>
+                        </div>
                       </div>
-                      <div>
-                        <p className="font-medium text-slate-900">{doc.name}</p>
-                        <p className="text-xs text-slate-500">
-                          {doc.source} • {format(new Date(doc.uploadedAt), "PPP")}
-                        </p>
+                      <div className="flex items-center gap-2">
+                        {doc.status === "active" ? (
+                          <>
+                            <div className="flex items-center gap-2 text-green-600 text-xs font-medium bg-green-50 px-2 py-1 rounded">
+                              <CheckCircle className="w-3 h-3" />
+                              Indexed
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Re-chunk and re-embed"
+                              disabled={reprocessing || !doc.hasSourceText}
+                              onClick={() => reprocessDoc(doc.id)}
+                            >
+                              <RefreshCw className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Upload a new version"
+                              disabled={replacing}
+                              onClick={() => startReplace(doc.id)}
+                            >
+                              {replacing && replaceTargetId === doc.id ? (
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                              ) : (
+                                <Upload className="w-3 h-3" />
+                              )}
+                            </Button>
+                          </>
+                        ) : (
+                          <div className="flex items-center gap-2 text-slate-500 text-xs font-medium bg-slate-100 px-2 py-1 rounded">
+                            <History className="w-3 h-3" />
+                            Superseded
+                          </div>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Delete document"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleDelete(doc.id, doc.name)}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
                       </div>
                     </div>
-                    <div className="flex items-center gap-2 text-green-600 text-xs font-medium bg-green-50 px-2 py-1 rounded">
-                      <CheckCircle className="w-3 h-3" />
-                      Indexed
-                    </div>
-                  </div>
-                ))}
-                {docs?.length === 0 && (
-                  <p className="text-slate-500 italic">No documents uploaded yet.</p>
-                )}
-              </div>
-            )}
-          </Card>
-        </div>
+                  ))}
+                  {docs?.length === 0 && (
+                    <p className="text-slate-500 italic">No documents uploaded yet.</p>
+                  )}
+                </div>
+              )}
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="rules">
+            <RuleEditor />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -5,17 +5,19 @@ import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { motion, AnimatePresence } from "framer-motion";
-import { Send, Loader2, AlertTriangle, MessageCircle, Home } from "lucide-react";
+import { Send, Loader2, AlertTriangle, MessageCircle, Home, Undo2 } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 
 interface ChatMessage {
   role: "assistant" | "user";
   content: string;
+  superseded?: boolean; // an answer the patient went back and changed
 }
 
 interface ChatResponse {
   sessionId: number;
+  resumeToken?: string;
   messages: ChatMessage[];
   state: Record<string, any>;
   stage: string;
@@ -34,6 +36,9 @@ interface FinishResponse {
   recommendations?: string[];
 }
 
+// Lets a patient who reloads or closes the tab carry on where they stopped
+const RESUME_TOKEN_KEY = "assessmentResumeToken";
+
 export default function Assessment() {
   const [, setLocation] = useLocation();
   const [sessionId, setSessionId] = useState<number | null>(null);
@@ -47,7 +52,7 @@ export default function Assessment() {
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    startChat();
+    resumeOrStartChat();
   }, []);
 
   useEffect(() => {
@@ -62,6 +67,27 @@ export default function Assessment() {
     }
   }, [isLoading, isComplete]);
 
+  const resumeOrStartChat = async () => {
+    const resumeToken = localStorage.getItem(RESUME_TOKEN_KEY);
+    if (resumeToken) {
+      setIsLoading(true);
+      try {
+        const res = await apiRequest("GET", `/api/chat/resume/${encodeURIComponent(resumeToken)}`);
+        const response: ChatResponse = await res.json();
+        if (response.status === "active") {
+          setSessionId(response.sessionId);
+          setMessages(response.messages);
+          setIsLoading(false);
+          return;
+        }
+      } catch (err) {
+        // Expired or unknown: start again
+      }
+      localStorage.removeItem(RESUME_TOKEN_KEY);
+    }
+    await startChat();
+  };
+
   const startChat = async () => {
     setIsLoading(true);
     setError(null);
@@ -70,6 +96,7 @@ export default function Assessment() {
       const response: ChatResponse = await res.json();
       setSessionId(response.sessionId);
       setMessages(response.messages);
+      if (response.resumeToken) localStorage.setItem(RESUME_TOKEN_KEY, response.resumeToken);
     } catch (err) {
       setError("Failed to start the assessment. Please try again.");
     } finally {
@@ -94,6 +121,10 @@ export default function Assessment() {
 
       setMessages(response.messages);
 
+      if (response.status !== "active") {
+        localStorage.removeItem(RESUME_TOKEN_KEY);
+      }
+
       if (response.isEscalation) {
         setIsEscalated(true);
       }
@@ -102,9 +133,17 @@ export default function Assessment() {
       if (response.isComplete && response.submissionId) {
         setIsComplete(true);
         const band = response.isEscalation ? 'Red' : (response.riskBand || 'Green');
-        setLocation(`/assessment/result?id=${response.submissionId}&band=${band}`);
+        const support = response.status === 'escalated_mental_health' ? '&support=mental-health' : '';
+        setLocation(`/assessment/result?id=${response.submissionId}&band=${band}${support}`);
       }
     } catch (err) {
+      if (err instanceof Error && err.message.startsWith("410")) {
+        localStorage.removeItem(RESUME_TOKEN_KEY);
+        setMessages([]);
+        await startChat();
+        setError("Your previous assessment expired after a period of inactivity, so a new one has been started.");
+        return;
+      }
       setError("Failed to send message. Please try again.");
       setMessages(prev => prev.slice(0, -1));
     } finally {
@@ -112,6 +151,21 @@ export default function Assessment() {
     }
   };
 
+  const goBack = async () => {
+    if (!sessionId || isLoading) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await apiRequest("POST", "/api/chat/undo", { sessionId });
+      const response: ChatResponse = await res.json();
+      setMessages(response.messages);
+    } catch (err) {
+      setError("There is no earlier answer to change.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const finishAndRedirect = async () => {
     try {
       const res = await apiRequest("POST", "/api/chat/finish", { sessionId });
@@ -174,7 +228,7 @@ export default function Assessment() {
                         msg.role === "user"
                           ? "bg-primary text-primary-foreground rounded-br-sm"
                           : "bg-slate-100 dark:bg-slate-700 text-foreground rounded-bl-sm"
-                      }`}
+                      } ${msg.superseded ? "opacity-50 line-through" : ""}`}
                       data-testid={`chat-message-${idx}`}
                     >
                       {msg.content.includes("URGENT") ? (
@@ -230,6 +284,16 @@ export default function Assessment() {
               </div>
             ) : (
               <div className="flex gap-2">
+                <Button
+                  onClick={goBack}
+                  disabled={isLoading || !sessionId || !messages.some(m => m.role === "user" && !m.superseded)}
+                  variant="outline"
+                  size="icon"
+                  title="Go back and change my last answer"
+                  data-testid="button-chat-back"
+                >
+                  <Undo2 className="w-5 h-5" />
+                </Button>
                 <Input
                   ref={inputRef}
                   type="text"
@@ -1,9 +1,11 @@
-import { Link } from "wouter";
+import { Link, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { CheckCircle2, Info } from "lucide-react";
+import { CheckCircle2, HeartHandshake, Info } from "lucide-react";
 
 export default function AssessmentResult() {
+  const mentalHealthCrisis = new URLSearchParams(useSearch()).get("support") === "mental-health";
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center p-4">
       <Card className="w-full max-w-md p-8 text-center space-y-6 shadow-xl border-t-4 border-t-primary">
@@ -16,6 +18,17 @@ export default function AssessmentResult() {
           Thank you. Your responses have been recorded and will be reviewed by a clinician.
         </p>
 
+        {mentalHealthCrisis && (
+          <div className="bg-purple-50 p-4 rounded-xl border border-purple-200 text-left flex gap-3">
+            <HeartHandshake className="w-5 h-5 text-purple-700 shrink-0 mt-0.5" />
+            <div className="text-sm text-purple-900 space-y-1">
+              <p className="font-semibold">You don't have to wait to get support</p>
+              <p>Call NHS 111 and choose option 2 for the mental health crisis line, or call Samaritans free on 116 123, any time of day or night.</p>
+              <p>If you have harmed yourself or feel you might act on these thoughts, call 999 or go to A&E now.</p>
+            </div>
+          </div>
+        )}
+
         <div className="bg-blue-50 p-4 rounded-xl border border-blue-100 text-left flex gap-3">
           <Info className="w-5 h-5 text-blue-600 shrink-0 mt-0.5" />
           <p className="text-sm text-blue-800">
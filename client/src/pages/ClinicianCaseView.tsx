@@ -1,8 +1,9 @@
 import { useState } from "react";
 import { useRoute, useLocation } from "wouter";
-import { useSubmission, useOverrideTriage, useRAGExplanation } from "@/hooks/use-triage";
+import { useSubmission, useOverrideTriage, useRAGExplanationStream } from "@/hooks/use-triage";
 import { ChatInterface } from "@/components/ChatInterface";
 import { StatusBadge } from "@/components/StatusBadge";
+import { VerifiedText } from "@/components/VerifiedText";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
@@ -21,7 +22,7 @@ export default function ClinicianCaseView() {
   
   const { data: submission, isLoading } = useSubmission(id);
   const { mutate: override, isPending: isOverriding } = useOverrideTriage();
-  const { data: ragData, isLoading: isLoadingRAG } = useRAGExplanation(id);
+  const { data: ragData, isStreaming: isStreamingRAG, error: ragError } = useRAGExplanationStream(id);
   
   const [overrideOpen, setOverrideOpen] = useState(false);
   const [overrideData, setOverrideData] = useState({ band: "", note: "" });
@@ -207,7 +208,11 @@ export default function ClinicianCaseView() {
             
             <div className="mt-6 pt-6 border-t">
               <div className="text-xs text-slate-400 font-mono">
-                System Rules: v{submission.rulesVersion} | Model: v{submission.modelVersion} <br/>
+                System Rules: v{submission.rulesVersion}
+                {submission.rulesHash && ` (${submission.rulesHash.slice(0, 12)})`} | Model: v{submission.modelVersion} <br/>
+                {Array.isArray(submission.firedRules) && submission.firedRules.length > 0 && (
+                  <>Rules fired: {(submission.firedRules as string[]).join(", ")} <br/></>
+                )}
                 Submitted: {format(new Date(submission.createdAt), "PPP p")}
               </div>
             </div>
@@ -236,15 +241,23 @@ export default function ClinicianCaseView() {
               <p className="text-sm text-slate-500">AI-generated guidance based on clinical guidelines. Not a diagnosis.</p>
             </div>
             <ScrollArea className="flex-1 pr-4">
-              {isLoadingRAG ? (
+              {isStreamingRAG && !ragData?.explanation ? (
                 <div className="flex items-center justify-center py-8">
                   <Loader2 className="w-6 h-6 animate-spin text-primary" />
                 </div>
               ) : ragData?.explanation ? (
                 <div className="prose prose-sm max-w-none">
-                  <div className="whitespace-pre-wrap text-slate-700 leading-relaxed">
-                    {ragData.explanation}
-                  </div>
+                  <VerifiedText
+                    text={ragData.explanation}
+                    verification={ragData.verification}
+                    className="text-slate-700 leading-relaxed"
+                  />
+                  {isStreamingRAG && (
+                    <p className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Generating…
+                    </p>
+                  )}
                   {ragData.retrievedChunks && ragData.retrievedChunks.length > 0 && (
                     <div className="mt-6 pt-6 border-t">
                       <h3 className="text-sm font-bold text-slate-700 mb-3">Referenced Guidelines:</h3>
@@ -252,13 +265,15 @@ export default function ClinicianCaseView() {
                         {ragData.retrievedChunks.map((chunk, idx) => (
                           <li key={idx} className="flex items-start gap-2">
                             <span className="font-mono text-primary">[{chunk.chunkId}]</span>
-                            <span className="font-medium">{chunk.sourceTitle}</span>
+                            <span className="font-medium">{chunk.citation || chunk.sourceTitle}</span>
                           </li>
                         ))}
                       </ul>
                     </div>
                   )}
                 </div>
+              ) : ragError ? (
+                <div className="text-slate-500 text-sm">Decision support could not be generated: {ragError.message}</div>
               ) : (
                 <div className="text-slate-500 text-sm">No decision support available.</div>
               )}
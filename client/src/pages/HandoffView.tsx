@@ -14,7 +14,12 @@ import {
   FileText,
   Stethoscope,
   Info,
-  AlertCircle
+  AlertCircle,
+  Gauge,
+  Baby,
+  ListChecks,
+  HeartHandshake,
+  Undo2
 } from "lucide-react";
 
 interface HandoffResponse {
@@ -51,6 +56,43 @@ interface HandoffResponse {
     safety_net: string;
   };
   summary_for_reception: string;
+  scores?: Array<{
+    name: string;
+    score: number;
+    max: number;
+    risk: string;
+    interpretation: string;
+    complete: boolean;
+    components: Array<{ name: string; value: string | number | boolean | null; points: number }>;
+    missing: string[];
+  }>;
+  presenting_complaints?: Array<{
+    complaint: string;
+    primary: boolean;
+    positives: string[];
+    negatives: string[];
+  }>;
+  mental_health?: {
+    risk: "high" | "moderate" | "low";
+    crisis_escalation: boolean;
+    positives: string[];
+    negatives: string[];
+  } | null;
+  pregnancy?: {
+    status: "pregnant" | "possibly pregnant" | "not pregnant";
+    gestation_weeks: number | null;
+    trimester: 1 | 2 | 3 | null;
+    positives: string[];
+    negatives: string[];
+  } | null;
+  answer_corrections?: Array<{ question: string; previous_answer: string }>;
+  provenance?: {
+    rules_version: number;
+    rules_hash: string;
+    fired_rules: string[];
+    model: string | null;
+    generated_at: string;
+  };
 }
 
 export default function HandoffView() {
@@ -191,6 +233,21 @@ export default function HandoffView() {
         </div>
       )}
 
+      {/* Mental health crisis banner: routed to crisis services, not the emergency pathway */}
+      {handoff.mental_health?.crisis_escalation && (
+        <div className="bg-purple-50 border-b border-purple-200 px-6 py-4">
+          <div className="max-w-7xl mx-auto flex items-center gap-3">
+            <HeartHandshake className="w-6 h-6 text-purple-700" />
+            <div>
+              <h2 className="text-lg font-bold text-purple-900">Mental Health Crisis - Contact Patient Now</h2>
+              <p className="text-sm text-purple-800">
+                High suicide or self-harm risk. Patient was given NHS 111 option 2 and Samaritans (116 123).
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-6 py-6">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -249,6 +306,60 @@ export default function HandoffView() {
               </div>
             </Card>
 
+            {/* Red flag answers per presenting complaint */}
+            {handoff.presenting_complaints && handoff.presenting_complaints.length > 0 && (
+              <Card className="p-6">
+                <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+                  <ListChecks className="w-5 h-5 text-primary" />
+                  Presenting Complaints
+                </h2>
+                <div className="space-y-4">
+                  {handoff.presenting_complaints.map((pc) => (
+                    <div key={pc.complaint}>
+                      <div className="flex items-center gap-2 mb-2">
+                        <p className="font-semibold text-slate-900 capitalize">{pc.complaint}</p>
+                        {pc.primary && handoff.presenting_complaints!.length > 1 && (
+                          <Badge variant="secondary">Primary</Badge>
+                        )}
+                      </div>
+                      <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                          <p className="text-sm font-semibold text-slate-600 mb-1">Reported</p>
+                          {pc.positives.length > 0 ? (
+                            <ul className="space-y-1">
+                              {pc.positives.map((item, idx) => (
+                                <li key={idx} className="text-sm text-red-700 flex items-start gap-2">
+                                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                                  {item}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-sm text-slate-500">None</p>
+                          )}
+                        </div>
+                        <div>
+                          <p className="text-sm font-semibold text-slate-600 mb-1">Denied</p>
+                          {pc.negatives.length > 0 ? (
+                            <ul className="space-y-1">
+                              {pc.negatives.map((item, idx) => (
+                                <li key={idx} className="text-sm text-slate-700 flex items-start gap-2">
+                                  <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                                  {item}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-sm text-slate-500">None asked</p>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
             {/* Key Positives */}
             {handoff.key_positives.length > 0 && (
               <Card className="p-6 border-green-200 bg-green-50/50">
@@ -371,6 +482,168 @@ export default function HandoffView() {
               </div>
             </Card>
 
+            {/* Clinical Scores */}
+            {handoff.scores && handoff.scores.length > 0 && (
+              <Card className="p-6">
+                <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+                  <Gauge className="w-5 h-5 text-primary" />
+                  Clinical Scores
+                </h2>
+                <div className="space-y-4">
+                  {handoff.scores.map((score) => (
+                    <div key={score.name}>
+                      <div className="flex items-center gap-2 mb-1">
+                        <p className="font-semibold text-slate-900">{score.name}</p>
+                        <Badge variant="outline">
+                          {score.complete ? "" : "≥ "}{score.score}/{score.max}
+                        </Badge>
+                        <Badge variant="secondary">{score.risk}</Badge>
+                      </div>
+                      <p className="text-sm text-slate-600">{score.interpretation}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {score.components
+                          .filter((c) => c.value !== null)
+                          .map((c) => `${c.name}: ${String(c.value)} (+${c.points})`)
+                          .join(" • ")}
+                      </p>
+                      {score.missing.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          Not reported (scored 0): {score.missing.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
+            {/* Mental health risk assessment */}
+            {handoff.mental_health && (
+              <Card className="p-6 border-purple-200">
+                <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+                  <HeartHandshake className="w-5 h-5 text-purple-700" />
+                  Mental Health Risk
+                </h2>
+                <div className="flex items-center gap-2 mb-4">
+                  <Badge
+                    variant="outline"
+                    className={`capitalize ${
+                      handoff.mental_health.risk === "high"
+                        ? "border-purple-400 bg-purple-100 text-purple-900"
+                        : handoff.mental_health.risk === "moderate"
+                          ? "border-amber-300 bg-amber-50 text-amber-800"
+                          : ""
+                    }`}
+                  >
+                    {handoff.mental_health.risk} risk
+                  </Badge>
+                </div>
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-600 mb-1">Reported</p>
+                    {handoff.mental_health.positives.length > 0 ? (
+                      <ul className="space-y-1">
+                        {handoff.mental_health.positives.map((item, idx) => (
+                          <li key={idx} className="text-sm text-slate-900 flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-purple-700" />
+                            {item}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-slate-500">None</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-sm font-semibold text-slate-600 mb-1">Denied</p>
+                    {handoff.mental_health.negatives.length > 0 ? (
+                      <ul className="space-y-1">
+                        {handoff.mental_health.negatives.map((item, idx) => (
+                          <li key={idx} className="text-sm text-slate-700 flex items-start gap-2">
+                            <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-slate-500" />
+                            {item}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-slate-500">None asked</p>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {/* Pregnancy */}
+            {handoff.pregnancy && handoff.pregnancy.status !== "not pregnant" && (
+              <Card className="p-6">
+                <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+                  <Baby className="w-5 h-5 text-primary" />
+                  Pregnancy
+                </h2>
+                <div className="flex items-center gap-2 mb-4">
+                  <Badge variant="outline" className="capitalize">{handoff.pregnancy.status}</Badge>
+                  <Badge variant="secondary">
+                    {handoff.pregnancy.gestation_weeks !== null
+                      ? `${handoff.pregnancy.gestation_weeks} weeks (trimester ${handoff.pregnancy.trimester})`
+                      : "Gestation not known"}
+                  </Badge>
+                </div>
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-600 mb-1">Reported</p>
+                    {handoff.pregnancy.positives.length > 0 ? (
+                      <ul className="space-y-1">
+                        {handoff.pregnancy.positives.map((item, idx) => (
+                          <li key={idx} className="text-sm text-red-700 flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                            {item}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-slate-500">None</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-sm font-semibold text-slate-600 mb-1">Denied</p>
+                    {handoff.pregnancy.negatives.length > 0 ? (
+                      <ul className="space-y-1">
+                        {handoff.pregnancy.negatives.map((item, idx) => (
+                          <li key={idx} className="text-sm text-slate-700 flex items-start gap-2">
+                            <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                            {item}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-slate-500">None asked</p>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {/* Corrected Answers */}
+            {handoff.answer_corrections && handoff.answer_corrections.length > 0 && (
+              <Card className="p-6">
+                <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+                  <Undo2 className="w-5 h-5 text-primary" />
+                  Corrected Answers
+                </h2>
+                <p className="text-sm text-slate-500 mb-3">
+                  The patient went back and changed these answers. The first answer given is shown.
+                </p>
+                <ul className="space-y-2">
+                  {handoff.answer_corrections.map((item, idx) => (
+                    <li key={idx} className="text-sm">
+                      <p className="text-slate-700">{item.question}</p>
+                      <p className="text-slate-500">First answered: <span className="line-through">{item.previous_answer}</span></p>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
+
             {/* Differentials */}
             {handoff.differentials.length > 0 && (
               <Card className="p-6">
@@ -469,6 +742,15 @@ export default function HandoffView() {
             {handoff.summary_for_reception}
           </p>
         </Card>
+
+        {/* Provenance: handoffs generated before rule sets were versioned have none */}
+        {handoff.provenance && (
+          <p className="mt-4 text-xs text-slate-400 font-mono break-all">
+            Rules v{handoff.provenance.rules_version} ({handoff.provenance.rules_hash.slice(0, 12)}) | Fired:{" "}
+            {handoff.provenance.fired_rules.length > 0 ? handoff.provenance.fired_rules.join(", ") : "none"} | Model:{" "}
+            {handoff.provenance.model ?? "none (fallback)"}
+          </p>
+        )}
       </main>
     </div>
   );
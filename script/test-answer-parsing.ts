@@ -0,0 +1,69 @@
+/**
+ * Test script: checks how patients' free-text answers are read by server/lib/answerParsing.ts.
+ * Needs no running app or database.
+ *
+ * Usage: npx tsx script/test-answer-parsing.ts   OR   npm run test:parsing
+ */
+
+import assert from "node:assert/strict";
+import { interpretDuration, interpretNumber, interpretYesNo, type Interpretation } from "../server/lib/answerParsing";
+
+let failures = 0;
+
+function check<T>(name: string, actual: Interpretation<T>, expected: T | "unsure" | "ambiguous" | "unclear") {
+  const got = actual.kind === "answer" ? actual.value : actual.kind;
+  try {
+    assert.equal(got, expected);
+  } catch {
+    failures++;
+    console.warn(`FAIL ${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(got)}`);
+  }
+}
+
+const YES_NO: Array<[string, boolean | "unsure" | "ambiguous" | "unclear"]> = [
+  ["Yes", true],
+  ["yeah I do", true],
+  ["I am", true],
+  ["of course", true],
+  ["right now, yes", true],
+  ["No", false],
+  ["nope", false],
+  ["I'm not", false],
+  ["not really", false],
+  ["absolutely not", false],
+  ["Definitely not!", false],
+  ["of course not", false],
+  ["certainly not", false],
+  ["right now no", false],
+  ["I have no trouble", false],
+  ["there is no pain", false],
+  ["yeah, I have no trouble", "ambiguous"],
+  ["yes, I can't breathe properly", "ambiguous"],
+  ["not sure", "unsure"],
+  ["not really sure", "unsure"],
+  ["not at all sure", "unsure"],
+  ["I'm not at all certain", "unsure"],
+  ["sometimes", "unsure"],
+  ["Yes, sometimes", true],
+  ["not at all", false],
+  ["I don't know", "unsure"],
+  ["maybe", "unsure"],
+  ["yes and no", "ambiguous"],
+  ["", "unclear"],
+  ["blue", "unclear"],
+];
+
+for (const [input, expected] of YES_NO) check(`yes/no ${JSON.stringify(input)}`, interpretYesNo(input), expected);
+
+check("number \"seven out of ten\"", interpretNumber("seven out of ten", { min: 0, max: 10 }), 7);
+check("number \"about 2 days, pain 7\"", interpretNumber("about 2 days, pain 7", { min: 0, max: 10 }), 7);
+check("number \"6 or 8\"", interpretNumber("6 or 8", { min: 0, max: 10 }), "ambiguous");
+check("number \"no idea\"", interpretNumber("no idea"), "unsure");
+
+const friday = new Date(2026, 9, 16);
+check("duration \"since Tuesday\"", interpretDuration("since Tuesday", friday), "P3D");
+check("duration \"a couple of weeks\"", interpretDuration("a couple of weeks", friday), "P2W");
+check("duration \"2 or 3 hours\"", interpretDuration("2 or 3 hours", friday), "PT3H");
+
+console.log(failures === 0 ? "All answer parsing checks passed." : `${failures} answer parsing check(s) failed.`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,129 @@
+/**
+ * Test script: checks the band boundaries of the clinical scores in
+ * server/lib/clinicalScores.ts against the published charts. Needs no running app or database.
+ *
+ * Usage: npx tsx script/test-clinical-scores.ts   OR   npm run test:scores
+ */
+
+import assert from "node:assert/strict";
+import {
+  centor, computeClinicalScores, crb65, curb65, feverPain, heart, news2, type ClinicalScore,
+} from "../server/lib/clinicalScores";
+import { evaluateRules } from "../server/lib/rules";
+
+let failures = 0;
+
+function check(name: string, run: () => void) {
+  try {
+    run();
+  } catch (e) {
+    failures++;
+    console.warn(`FAIL ${name}: ${(e as Error).message}`);
+  }
+}
+
+const points = (score: ClinicalScore, component: string) => score.components.find((c) => c.name === component)!.points;
+
+// [value, points] pairs either side of each boundary in the NEWS2 chart (RCP 2017)
+function bands(name: string, component: string, score: (value: number) => ClinicalScore, expected: Array<[number, number]>) {
+  check(`${name} boundaries`, () => {
+    for (const [value, want] of expected) {
+      assert.equal(points(score(value), component), want, `${value} should score ${want}`);
+    }
+  });
+}
+
+bands("NEWS2 respiration rate", "Respiration rate", (rr) => news2({ respiratoryRate: rr }), [
+  [8, 3], [9, 1], [11, 1], [12, 0], [20, 0], [21, 2], [24, 2], [25, 3],
+]);
+bands("NEWS2 SpO2 scale 1", "SpO2", (spo2) => news2({ spo2 }), [
+  [91, 3], [92, 2], [93, 2], [94, 1], [95, 1], [96, 0],
+]);
+bands("NEWS2 SpO2 scale 2 on air", "SpO2", (spo2) => news2({ spo2, spo2Scale: 2, onOxygen: false }), [
+  [83, 3], [84, 2], [85, 2], [86, 1], [87, 1], [88, 0], [92, 0], [97, 0],
+]);
+bands("NEWS2 SpO2 scale 2 on oxygen", "SpO2", (spo2) => news2({ spo2, spo2Scale: 2, onOxygen: true }), [
+  [87, 1], [88, 0], [92, 0], [93, 1], [94, 1], [95, 2], [96, 2], [97, 3],
+]);
+bands("NEWS2 systolic BP", "Systolic BP", (sbp) => news2({ systolicBp: sbp }), [
+  [90, 3], [91, 2], [100, 2], [101, 1], [110, 1], [111, 0], [219, 0], [220, 3],
+]);
+bands("NEWS2 pulse", "Pulse", (pulse) => news2({ pulse }), [
+  [40, 3], [41, 1], [50, 1], [51, 0], [90, 0], [91, 1], [110, 1], [111, 2], [130, 2], [131, 3],
+]);
+bands("NEWS2 temperature", "Temperature", (temperature) => news2({ temperature }), [
+  [35.0, 3], [35.1, 1], [36.0, 1], [36.1, 0], [38.0, 0], [38.1, 1], [39.0, 1], [39.1, 2],
+]);
+
+check("NEWS2 oxygen scores 2 and new confusion scores 3", () => {
+  assert.equal(points(news2({ onOxygen: true }), "Air or oxygen"), 2);
+  assert.equal(points(news2({ consciousness: "new_confusion" }), "Consciousness"), 3);
+  assert.equal(points(news2({ consciousness: "alert" }), "Consciousness"), 0);
+});
+
+check("NEWS2 risk thresholds", () => {
+  assert.equal(news2({ respiratoryRate: 22, pulse: 95, temperature: 38.5 }).risk, "low"); // 4
+  assert.equal(news2({ respiratoryRate: 25 }).risk, "low-medium"); // single 3
+  assert.equal(news2({ respiratoryRate: 22, pulse: 115, temperature: 38.5 }).risk, "medium"); // 5
+  assert.equal(news2({ respiratoryRate: 25, pulse: 115, temperature: 39.5 }).risk, "high"); // 7
+});
+
+check("CRB-65 boundaries", () => {
+  assert.equal(crb65({ age: 64 }).score, 0);
+  assert.equal(crb65({ respiratoryRate: 29, systolicBp: 90, diastolicBp: 61 }).score, 0);
+  assert.equal(crb65({ respiratoryRate: 30 }).score, 1);
+  assert.equal(crb65({ systolicBp: 89 }).score, 1);
+  assert.equal(crb65({ diastolicBp: 60 }).score, 1);
+  assert.equal(crb65({ confusion: true, respiratoryRate: 30, age: 65 }).risk, "high");
+});
+
+// NICE NG138: a CRB-65 of 1 or 2 is intermediate risk ("consider hospital assessment"), and
+// age 65 or over scores 1 on its own, so every feverish patient aged 65+ is at least Amber
+check("CRB-65 of 1 for age 65 alone is intermediate and Amber", () => {
+  const score = crb65({ age: 65 });
+  assert.equal(score.score, 1);
+  assert.equal(score.risk, "intermediate");
+  const result = evaluateRules({ complaint: "fever", age: 70, sex: "female", confusion: false });
+  assert.ok(result.fired.some((r) => r.code === "AM_CRB65_INTERMEDIATE"));
+  assert.equal(result.riskBand, "Amber");
+});
+
+check("CURB-65 urea boundary", () => {
+  assert.equal(curb65({ urea: 7 }).score, 0);
+  assert.equal(curb65({ urea: 7.1 }).score, 1);
+  assert.equal(curb65({ urea: 8, age: 70 }).risk, "moderate");
+});
+
+check("FeverPAIN and Centor", () => {
+  assert.equal(feverPain({ fever: true, purulence: true, attendedRapidly: true, inflamedTonsils: true, cough: false, coryza: false }).score, 5);
+  assert.equal(feverPain({ fever: true, cough: true }).risk, "low");
+  assert.equal(feverPain({ fever: true, purulence: true }).risk, "moderate");
+  assert.equal(feverPain({ fever: true, purulence: true, attendedRapidly: true, inflamedTonsils: true }).risk, "high");
+  assert.equal(centor({ purulence: true, tenderCervicalNodes: true, fever: true, cough: false }).score, 4);
+  assert.equal(centor({ purulence: true, tenderCervicalNodes: true }).risk, "low");
+  assert.equal(centor({ purulence: true, tenderCervicalNodes: true, fever: true }).risk, "high");
+});
+
+check("HEART age and risk factor boundaries", () => {
+  assert.equal(points(heart({ age: 44 }), "Age"), 0);
+  assert.equal(points(heart({ age: 45 }), "Age"), 1);
+  assert.equal(points(heart({ age: 64 }), "Age"), 1);
+  assert.equal(points(heart({ age: 65 }), "Age"), 2);
+  assert.equal(points(heart({ riskFactorCount: 2 }), "Risk factors"), 1);
+  assert.equal(points(heart({ riskFactorCount: 3 }), "Risk factors"), 2);
+  assert.equal(points(heart({ atheroscleroticDisease: true }), "Risk factors"), 2);
+  assert.equal(heart({ age: 70, riskFactorCount: 3 }).complete, false);
+});
+
+check("computeClinicalScores picks scores by complaint and age", () => {
+  const names = (facts: Record<string, any>) => computeClinicalScores(facts).map((s) => s.name).sort();
+  assert.deepEqual(names({ complaint: "chest pain", age_years: 50 }), ["HEART"]);
+  assert.deepEqual(names({ complaint: "sore throat", age_years: 10 }), ["FeverPAIN"]);
+  assert.deepEqual(names({ complaint: "sore throat", age_years: 20 }), ["Centor", "FeverPAIN"]);
+  assert.deepEqual(names({ complaint: "cough", age_years: 40, urea: 5 }), ["CURB-65"]);
+  assert.deepEqual(names({ complaint: "headache", age_years: 40, temperature: 38.5 }), ["NEWS2"]);
+  assert.deepEqual(names({ complaint: "headache", age_years: 10, temperature: 38.5 }), []);
+});
+
+console.log(failures === 0 ? "All clinical score checks passed." : `${failures} clinical score check(s) failed.`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,96 @@
+/**
+ * Test script: records LLM calls to a temporary cassette directory with the mock provider,
+ * then replays them with a provider that fails if called, as golden chat runs do
+ * (server/lib/llmCassette.ts). Needs no running app, database or network.
+ *
+ * Usage: npx tsx script/test-llm-cassette.ts   OR   npm run test:cassette
+ */
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MockLlmProvider, type LlmMessage, type LlmProvider } from "../server/lib/llm";
+import { CassetteLlmProvider, CassetteMissError } from "../server/lib/llmCassette";
+import { LlmEmbeddingProvider } from "../server/lib/embeddings";
+
+// Stands in for the real provider during replay: any call that reaches it is a miss
+class OfflineProvider implements LlmProvider {
+  readonly id = "offline-mock";
+  readonly providerName = "mock";
+  readonly model = "mock";
+
+  constructor(readonly embeddingModel: string) {}
+
+  private fail(): never {
+    throw new Error("Replay reached the provider");
+  }
+  async chat(): Promise<string> { return this.fail(); }
+  async chatJson<T>(): Promise<T> { return this.fail(); }
+  async *streamChat(): AsyncGenerator<string> { this.fail(); }
+  async embed(): Promise<number[][]> { return this.fail(); }
+}
+
+const messages: LlmMessage[] = [{ role: "user", content: "I have had a headache since Tuesday" }];
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-cassettes-"));
+let failures = 0;
+
+async function check(name: string, run: () => Promise<void>) {
+  try {
+    await run();
+  } catch (e) {
+    failures++;
+    console.warn(`FAIL ${name}: ${(e as Error).message}`);
+  }
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const tokens: string[] = [];
+  for await (const token of stream) tokens.push(token);
+  return tokens;
+}
+
+async function main() {
+  const mock = new MockLlmProvider([{ purpose: "extraction", response: { severity: 6 } }]);
+  const recorder = new CassetteLlmProvider(mock, "record", dir);
+  const recorded = {
+    chat: await recorder.chat(messages, { purpose: "patient_reply" }),
+    json: await recorder.chatJson(messages, { purpose: "extraction" }),
+    stream: await collect(recorder.streamChat(messages, { purpose: "rag_answer" })),
+    embed: await recorder.embed(["chest pain", "shortness of breath"]),
+  };
+
+  const player = new CassetteLlmProvider(new OfflineProvider(mock.embeddingModel), "replay", dir);
+
+  await check("replays chat, JSON, stream and embed calls as recorded", async () => {
+    assert.equal(await player.chat(messages, { purpose: "patient_reply" }), recorded.chat);
+    assert.deepEqual(await player.chatJson(messages, { purpose: "extraction" }), recorded.json);
+    assert.deepEqual(await collect(player.streamChat(messages, { purpose: "rag_answer" })), recorded.stream);
+    assert.deepEqual(await player.embed(["chest pain", "shortness of breath"]), recorded.embed);
+  });
+
+  await check("an unrecorded call fails with CassetteMissError", async () => {
+    await assert.rejects(player.chat([{ role: "user", content: "Something else" }]), CassetteMissError);
+  });
+
+  await check("embed calls miss after the embedding model changes", async () => {
+    const otherModel = new CassetteLlmProvider(new OfflineProvider("another-embedding-model"), "replay", dir);
+    await assert.rejects(otherModel.embed(["chest pain", "shortness of breath"]), CassetteMissError);
+    assert.equal(await otherModel.chat(messages, { purpose: "patient_reply" }), recorded.chat);
+  });
+
+  await check("chunks embedded while recording are current when replaying", async () => {
+    const ids = [mock, recorder, player].map((llm) => new LlmEmbeddingProvider(llm).id);
+    assert.deepEqual(ids, Array(3).fill(ids[0]));
+  });
+
+  fs.rmSync(dir, { recursive: true, force: true });
+  console.log(failures === 0 ? "All cassette checks passed." : `${failures} cassette check(s) failed.`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  fs.rmSync(dir, { recursive: true, force: true });
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+/**
+ * Test script: checks how server/lib/rules.ts bands answers the patient did not know
+ * ("unknown"), and what server/lib/ruleValidator.ts reports. Needs no running app or database.
+ *
+ * Usage: npx tsx script/test-rules.ts   OR   npm run test:rules
+ */
+
+import assert from "node:assert/strict";
+import { UNKNOWN_ANSWER, type Rule, type RuleCondition, type RuleSet } from "../shared/schema";
+import { evaluateCondition, evaluateRules } from "../server/lib/rules";
+import { validateRuleSet } from "../server/lib/ruleValidator";
+
+const ruleSet: RuleSet = {
+  rules: [
+    {
+      code: "RF_TEST_RISK_FACTORS",
+      label: "Three or more risk factors",
+      severity: "RED",
+      when: { fact: "risk_factors", op: "gte", value: 3 },
+      evidence: "Three or more risk factors.",
+    },
+    {
+      code: "RF_TEST_NOT_SAFE",
+      label: "Cannot keep safe",
+      severity: "RED",
+      when: { not: { fact: "can_keep_safe", op: "eq", value: true } },
+      evidence: "Patient cannot keep themselves safe.",
+    },
+    {
+      code: "RF_TEST_FEVER_AND_RASH",
+      label: "Fever with rash",
+      severity: "AMBER",
+      when: { all: [{ fact: "fever", op: "eq", value: true }, { fact: "rash", op: "eq", value: true }] },
+      evidence: "Fever with a rash.",
+    },
+  ],
+  severity_policy: { default: "GREEN", escalate_if_any_red_flag: true },
+};
+
+let failures = 0;
+
+function check(name: string, run: () => void) {
+  try {
+    run();
+  } catch (e) {
+    failures++;
+    console.warn(`FAIL ${name}: ${(e as Error).message}`);
+  }
+}
+
+const codes = (matches: Array<{ code: string }>) => matches.map((m) => m.code).sort();
+
+check("unknown count red flag is not assessed and raises Green to Amber", () => {
+  const result = evaluateRules({ risk_factors: UNKNOWN_ANSWER, can_keep_safe: true }, ruleSet);
+  assert.deepEqual(codes(result.fired), []);
+  assert.deepEqual(codes(result.unknown), ["RF_TEST_RISK_FACTORS"]);
+  assert.equal(result.riskBand, "Amber");
+});
+
+check("known count below the threshold is not triggered", () => {
+  const result = evaluateRules({ risk_factors: 1, can_keep_safe: true }, ruleSet);
+  assert.deepEqual(codes(result.notTriggered), ["RF_TEST_NOT_SAFE", "RF_TEST_RISK_FACTORS"]);
+  assert.equal(result.riskBand, "Green");
+});
+
+check("rule negated over an unknown fact does not fire", () => {
+  const result = evaluateRules({ can_keep_safe: UNKNOWN_ANSWER, risk_factors: 0 }, ruleSet);
+  assert.deepEqual(codes(result.fired), []);
+  assert.deepEqual(codes(result.unknown), ["RF_TEST_NOT_SAFE"]);
+  assert.equal(result.riskBand, "Amber");
+});
+
+check("rule negated over a known no fires", () => {
+  const result = evaluateRules({ can_keep_safe: false, risk_factors: 0 }, ruleSet);
+  assert.deepEqual(codes(result.fired), ["RF_TEST_NOT_SAFE"]);
+  assert.equal(result.riskBand, "Red");
+});
+
+check("all with a known false part is not triggered despite an unknown part", () => {
+  const result = evaluateRules({ fever: false, rash: UNKNOWN_ANSWER, can_keep_safe: true }, ruleSet);
+  assert.deepEqual(codes(result.unknown), []);
+  assert.ok(codes(result.notTriggered).includes("RF_TEST_FEVER_AND_RASH"));
+});
+
+check("conditions over an unknown fact hold for neither the test nor its negation", () => {
+  const facts = { can_keep_safe: UNKNOWN_ANSWER };
+  assert.equal(evaluateCondition({ fact: "can_keep_safe", op: "eq", value: true }, facts), false);
+  assert.equal(evaluateCondition({ not: { fact: "can_keep_safe", op: "eq", value: true } }, facts), false);
+  assert.equal(evaluateCondition({ any: [{ fact: "can_keep_safe", op: "exists" }, { sex: "female" }] }, { ...facts, sex: "female" }), true);
+});
+
+// --- Rule validator (ruleValidator.ts) ---
+
+function issueKinds(when: RuleCondition, complaints?: string[]): string[] {
+  const rule: Rule = { code: "RF_TEST", label: "Test", severity: "RED", when, evidence: "Test.", ...(complaints && { complaints }) };
+  return validateRuleSet({ rules: [rule], severity_policy: ruleSet.severity_policy }).issues.map((i) => i.kind).sort();
+}
+
+check("validator accepts reachable rules", () => {
+  assert.deepEqual(issueKinds({ fact: "severity_score", op: "between", value: [5, 7] }), []);
+  assert.deepEqual(issueKinds({ all: [{ fact: "severity_score", op: "gte", value: 8 }, { fact: "severity_score", op: "lte", value: 8 }] }), []);
+  assert.deepEqual(issueKinds({ not: { fact: "fever", op: "eq", value: true } }, ["headache"]), []);
+  assert.deepEqual(issueKinds({ all: [{ complaint: "headache" }, { complaint: "chest pain" }] }), []);
+  assert.deepEqual(issueKinds({ any: [{ sex: "male" }, { not: { sex: "male" } }] }), []);
+});
+
+check("validator reports contradictory criteria within an all group", () => {
+  const kinds = issueKinds({ all: [{ fact: "severity_score", op: "gt", value: 8 }, { fact: "severity_score", op: "lt", value: 6 }] });
+  assert.deepEqual(kinds, ["contradiction", "unreachable"]);
+  assert.deepEqual(issueKinds({ all: [{ fact: "fever", op: "eq", value: true }, { fact: "fever", op: "exists", value: false }] }), ["contradiction", "unreachable"]);
+  assert.deepEqual(issueKinds({ all: [{ sex: "female" }, { not: { sex: "female" } }] }), ["contradiction", "unreachable"]);
+});
+
+check("validator reports rules that can never fire", () => {
+  assert.deepEqual(issueKinds({ not: { complaint: "headache" } }, ["headache"]), ["unreachable"]);
+  assert.deepEqual(issueKinds({ fact: "severity_score", op: "gt", value: 10 }), ["unreachable"]);
+  assert.deepEqual(issueKinds({ age: { op: "lt", value: 0 } }), ["unreachable"]);
+  assert.deepEqual(issueKinds({ any: [] }), ["unreachable"]);
+});
+
+check("validator reports unknown facts and invalid values", () => {
+  assert.deepEqual(issueKinds({ fact: "not_a_fact", op: "eq", value: true }), ["unknown_fact"]);
+  assert.deepEqual(issueKinds({ fact: "severity_score", op: "gt", value: "8" }), ["invalid_value"]);
+  assert.deepEqual(issueKinds({ fact: "severity_score", op: "between", value: [7, 5] }), ["invalid_value", "unreachable"]);
+});
+
+// The validator may miss an unreachable rule but must never flag a reachable one: random
+// conditions are evaluated over every combination of these values, and any that holds for
+// some combination must not be reported unreachable
+check("validator never flags a rule that fires for some answers", () => {
+  let seed = 42;
+  const random = (n: number) => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed % n;
+  };
+  const pick = <T>(items: T[]): T => items[random(items.length)];
+  const severityOps = ["eq", "ne", "gt", "gte", "lt", "lte", "between", "exists"] as const;
+
+  const atom = (): RuleCondition => {
+    switch (random(5)) {
+      case 0: {
+        const op = pick([...severityOps]);
+        const value = op === "between" ? pick([[3, 6], [6, 8], [8, 8]]) : op === "exists" ? pick([true, false]) : pick([3, 6, 8]);
+        return { fact: "severity_score", op, value };
+      }
+      case 1:
+        return { fact: "fever", op: pick(["eq", "ne", "exists"] as const), value: pick([true, false]) };
+      case 2:
+        return { sex: pick(["female", "male"]) };
+      case 3:
+        return { complaint: pick(["headache", "chest pain"]) };
+      default:
+        return { age: { op: pick(["lt", "gte"] as const), value: pick([16, 65]) } };
+    }
+  };
+  const condition = (depth: number): RuleCondition => {
+    if (depth === 0 || random(3) === 0) return atom();
+    const children = Array.from({ length: 1 + random(3) }, () => condition(depth - 1));
+    switch (random(3)) {
+      case 0: return { all: children };
+      case 1: return { any: children };
+      default: return { not: children[0] };
+    }
+  };
+
+  const worlds: Record<string, any>[] = [];
+  for (const severity of [undefined, 0, 3, 4.5, 6, 7, 8, 9, 10])
+    for (const fever of [undefined, true, false])
+      for (const sex of [undefined, "female", "male"])
+        for (const complaints of [[], ["headache"], ["chest pain"], ["headache", "chest pain"]])
+          for (const age of [undefined, 10, 16, 30, 65, 80])
+            worlds.push({ severity_score: severity, fever, sex, complaints, age_years: age });
+
+  for (let i = 0; i < 1000; i++) {
+    const when = condition(3);
+    if (!issueKinds(when).includes("unreachable")) continue;
+    const world = worlds.find((facts) => evaluateCondition(when, facts));
+    assert.equal(world, undefined, `flagged unreachable but fires for ${JSON.stringify(world)}: ${JSON.stringify(when)}`);
+  }
+});
+
+console.log(failures === 0 ? "All rules checks passed." : `${failures} rules check(s) failed.`);
+process.exit(failures === 0 ? 0 : 1);
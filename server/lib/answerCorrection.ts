@@ -0,0 +1,97 @@
+// Going back to change an answer
+// Before each patient message the chat route records where the interview was (a ChatTurn in
+// chat_sessions.history). Going back restores the stage and state from before the answer
+// being changed, so everything captured after it is dropped and asked again. The transcript
+// stays append-only: the changed answer and any given after it are marked superseded (and
+// left out of fact extraction), and a note recording the question and the old answer is
+// added so clinicians can see the patient changed it.
+//
+// Patients go back with the Back button (/api/chat/undo) or by saying so in the chat:
+// "change my age to 35", "my pain score is actually 7", "sorry, I meant 7" or "go back".
+// Named answers come from the interview flow's answer_names.
+
+import type { ChatMessage, ChatState, ChatTurn } from "@shared/schema";
+import { flowStage, stageNamed } from "./interviewFlow";
+import { getNextQuestion } from "./chatStateMachine";
+
+export interface AnswerChange {
+  stage?: string; // the answer named; the most recent answer if not given
+  answer?: string; // the new answer, when the patient gave it
+}
+
+// "change my age to 35", "my pain score is actually 7", "actually, his age is 4"
+const NAMED_CHANGES = [
+  /\b(?:change|correct|update|fix)\s+(?:my|the|his|her|their)\s+(.+?)\s+(?:to|as)\s+(.+)$/i,
+  /\b(?:my|his|her|their)\s+(.+?)\s+(?:is|was|should be)\s+actually\s+(.+)$/i,
+  /\bactually,?\s+(?:my|his|her|their)\s+(.+?)\s+(?:is|should be)\s+(.+)$/i,
+];
+
+// "change my answer to no", "sorry, I meant 7", "go back"
+const LAST_ANSWER_CHANGES = [
+  /\b(?:change|correct)\s+my\s+(?:last\s+|previous\s+)?answer(?:\s+(?:to|as)\s+(.+))?$/i,
+  /^(?:sorry,?\s+)?i\s+meant\s+(.+)$/i,
+  /^(?:go back|undo)[.!]?$/i,
+];
+
+function cleanAnswer(answer: string | undefined): string | undefined {
+  const cleaned = answer?.trim().replace(/^["']|["'.!]+$/g, "").trim();
+  return cleaned || undefined;
+}
+
+export function detectAnswerChange(input: string): AnswerChange | null {
+  const text = input.trim();
+  for (const pattern of NAMED_CHANGES) {
+    const match = text.match(pattern);
+    const stage = match ? stageNamed(match[1]) : undefined;
+    if (match && stage) return { stage: stage.id, answer: cleanAnswer(match[2]) };
+  }
+  for (const pattern of LAST_ANSWER_CHANGES) {
+    const match = text.match(pattern);
+    if (match) return { answer: cleanAnswer(match[1]) };
+  }
+  return null;
+}
+
+const sameState = (a: ChatState, b: ChatState) => JSON.stringify(a) === JSON.stringify(b);
+
+// The answer to change (the last one at `stage`, or the last one that changed anything) and
+// the turn to go back to: unclear answers just before it, which changed nothing, go with it
+function turnToRewind(chat: RewoundChat, stage?: string): { answered: number; rewind: number } | null {
+  const { history } = chat;
+  const after = (i: number) => history[i + 1] ?? chat;
+  const changedNothing = (i: number) => history[i].stage === after(i).stage && sameState(history[i].state, after(i).state);
+  let answered = history.length - 1;
+  while (answered >= 0 && (stage ? history[answered].stage !== stage : changedNothing(answered))) answered--;
+  if (answered < 0 || !flowStage(history[answered].stage)) return null;
+  let rewind = answered;
+  while (rewind > 0 && changedNothing(rewind - 1)) rewind--;
+  return { answered, rewind };
+}
+
+export interface RewoundChat {
+  messages: ChatMessage[];
+  history: ChatTurn[];
+  state: ChatState;
+  stage: string;
+}
+
+// The chat as it was before the answer being changed, with the question asked again;
+// null when there is no earlier answer to go back to
+export function rewindChat(chat: RewoundChat, stage?: string): RewoundChat | null {
+  const turns = turnToRewind(chat, stage);
+  if (!turns) return null;
+
+  const index = turns.rewind;
+  const turn = chat.history[index];
+  const previousAnswer = chat.messages[chat.history[turns.answered].messageIndex]?.content ?? "";
+  const asked = chat.messages[turn.messageIndex - 1];
+  // Generated questions (follow-up questions) are repeated as they were asked
+  const question = getNextQuestion(turn.state, turn.stage).question || (asked?.role === "assistant" ? asked.content : "");
+  const messages = chat.messages.map((m, i) => i >= turn.messageIndex && m.role === "user" ? { ...m, superseded: true } : m);
+  messages.push({
+    role: "assistant",
+    content: `No problem, let's go back. ${question}`,
+    correction: { stage: turn.stage, question, previousAnswer },
+  });
+  return { messages, history: chat.history.slice(0, index), state: turn.state, stage: turn.stage };
+}
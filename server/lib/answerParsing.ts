@@ -0,0 +1,191 @@
+// Answer parsing
+// Reads patients' free-text answers to the interview questions. Yes/no answers have an
+// explicit "unsure" outcome ("not sure" and "I don't know" are not a no), and a negation only
+// applies to the verb or word it follows ("I am not" is a no, "not really" is a no). Numbers can be
+// written as words ("seven out of ten"), and numbers belonging to something else ("about 2
+// days, pain 7") are left out. Durations are normalised to ISO-8601 ("since Tuesday" -> P3D on
+// a Friday, "a couple of weeks" -> P2W).
+//
+// An answer that could mean more than one thing ("yes and no", "6 or 8") is ambiguous, and
+// comes with a question asking the patient which they meant.
+
+export type Interpretation<T> =
+  | { kind: "answer"; value: T }
+  | { kind: "unsure" }
+  | { kind: "ambiguous"; clarification: string }
+  | { kind: "unclear" };
+
+const answer = <T>(value: T): Interpretation<T> => ({ kind: "answer", value });
+const UNSURE: Interpretation<never> = { kind: "unsure" };
+const UNCLEAR: Interpretation<never> = { kind: "unclear" };
+const ambiguous = (clarification: string): Interpretation<never> => ({ kind: "ambiguous", clarification });
+
+// The value of an answer, or null for any other interpretation
+export function answerValue<T>(interpretation: Interpretation<T>): T | null {
+  return interpretation.kind === "answer" ? interpretation.value : null;
+}
+
+// Lower case, "n't" spelled out ("don't" -> "do not", "can't" -> "can not") and curly quotes
+// straightened, so negations can be matched as words
+function normalise(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\bcan'?t\b/g, "can not")
+    .replace(/\bwon'?t\b/g, "will not")
+    .replace(/\bain'?t\b/g, "am not")
+    .replace(/\b(\w+)n't\b/g, "$1 not")
+    .replace(/\b(do|does|did|is|are|was|were|have|has|had|could|would|should)nt\b/g, "$1 not")
+    .replace(/\bi'm\b/g, "i am")
+    .replace(/\bit's\b/g, "it is")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// --- Yes / no ---
+
+// Checked before anything else: "I'm not sure" and "I don't know" contain a "not"
+const UNSURE_ANSWER = /\b(?:not (?:really |quite |too |so |that |at all |entirely |totally |100% )?(?:sure|certain)|unsure|do not know|dunno|no idea|can not remember|do not remember|can not say|hard to say|maybe|perhaps|possibly|probably|might|could be|not that i (?:can|could) tell)\b/;
+const BOTH_ANSWERS = /\b(?:yes and no|no and yes|yes or no)\b|^(?:yes\W+no|no\W+yes)$/;
+// "Sometimes" on its own is unsure; after a yes ("yes, sometimes") the symptom is there
+const SOMETIMES = /\b(?:sometimes|on and off|now and then)\b/;
+// "Right now, no": when the answer applies is not part of it
+const WHEN_PREFIX = /^(?:right now|just now|at the moment|at present|currently|today)\b\W*/;
+
+// How the answer starts: patients usually lead with the yes or no. A yes word followed by a
+// "not" or "no" is the no ("absolutely not", "of course not").
+const YES_WORDS = "yes|yeah|yep|yup|yea|ya|y|aye|sure|ok|okay|correct|right|true|definitely|absolutely|certainly|of course|i think so|i believe so|affirmative";
+const LEADING_YES = new RegExp(`^(?:${YES_WORDS})\\b`);
+const NEGATED_LEADING_YES = new RegExp(`^(?:${YES_WORDS})\\s+(?:not|no)\\b`);
+const LEADING_NO = /^(?:no|nope|nah|n|never|none|nothing|not at all|not really|not that i know of|i do not think so|negative|false)\b/;
+
+// "I am", "it is not", "there was", "I have no": the answer given by repeating the verb
+const VERB_ANSWER = /\b(?:i|it|there|he|she|they|we|that|this)\s+(?:am|is|are|was|were|do|does|did|can|could|have|has|had|will|would)\b(\s+not\b|\s+never\b|\s+no\b)?/g;
+const NEGATED_YES = /\bnot\s+(?:really|at all|much|any|true|correct|right)\b|\b(?:no|never|none|nothing)\b/;
+
+export function interpretYesNo(input: string): Interpretation<boolean> {
+  const text = normalise(input).replace(/[.!?]+$/, "").replace(WHEN_PREFIX, "");
+  if (!text) return UNCLEAR;
+  if (BOTH_ANSWERS.test(text)) return ambiguous("Sorry, I couldn't tell whether that was a yes or a no. Which is closer?");
+  if (UNSURE_ANSWER.test(text)) return UNSURE;
+  if (NEGATED_LEADING_YES.test(text) || LEADING_NO.test(text)) return answer(false);
+  if (SOMETIMES.test(text) && !LEADING_YES.test(text)) return UNSURE;
+
+  // A leading yes stands unless the rest of the answer says no ("yeah, I have no trouble")
+  const polarities = new Set<boolean>();
+  if (LEADING_YES.test(text)) polarities.add(true);
+  for (const match of Array.from(text.matchAll(VERB_ANSWER))) polarities.add(!match[1]);
+  if (NEGATED_YES.test(text)) polarities.add(false);
+  if (polarities.size > 1) return ambiguous("Sorry, I couldn't tell whether that was a yes or a no. Which is closer?");
+  if (polarities.size === 1) return answer(polarities.has(true));
+  return UNCLEAR;
+}
+
+// --- Numbers ---
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, nought: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const ONES = Object.keys(SMALL_NUMBERS).slice(1, 10).join("|");
+const NUMBER_WORDS = new RegExp(
+  `\\b(?:(${Object.keys(TENS).join("|")})(?:[\\s-]+(${ONES}))?|(${Object.keys(SMALL_NUMBERS).join("|")}))\\b`,
+  "g",
+);
+
+// "seven out of ten" -> "7 out of 10", "twenty-one" -> "21"
+export function wordsToDigits(text: string): string {
+  return text.replace(NUMBER_WORDS, (_, tens?: string, ones?: string, small?: string) =>
+    String(small !== undefined ? SMALL_NUMBERS[small] : TENS[tens!] + (ones ? SMALL_NUMBERS[ones] : 0)),
+  );
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+// Numbers that measure something other than the answer: durations, times, percentages
+const OTHER_QUANTITY = new RegExp(
+  String.raw`\b\d+(?:\.\d+)?(?:\s*(?:-|to|or)\s*\d+(?:\.\d+)?)?\s*(?:(?:seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|nights?|weeks?|wks?|months?|years?|yrs?|am|pm|o'?clock|percent|times?)\b|%)`,
+  "g",
+);
+const RANGE = new RegExp(String.raw`(?:between\s+)?${NUMBER}\s*(?:-|to|or|and)\s*${NUMBER}`);
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+}
+
+function rangeText({ min, max }: NumberOptions): string {
+  if (min !== undefined && max !== undefined) return `a number from ${min} to ${max}`;
+  return "a single number";
+}
+
+// A number in the answer, ignoring durations, times and percentages. "7/10" and "7 out of 10"
+// are read as 7; a range ("6-8", "between 6 and 8") or two different numbers are ambiguous.
+export function interpretNumber(input: string, options: NumberOptions = {}): Interpretation<number> {
+  const text = wordsToDigits(normalise(input));
+
+  const scored = Array.from(text.matchAll(new RegExp(String.raw`${NUMBER}\s*(?:/|out of)\s*\d+`, "g")), (m) => parseFloat(m[1]));
+  const candidates = scored.length > 0 ? scored : (() => {
+    const rest = text.replace(OTHER_QUANTITY, " ");
+    const range = rest.match(RANGE);
+    if (range && range[1] !== range[2]) return [parseFloat(range[1]), parseFloat(range[2])];
+    return Array.from(rest.matchAll(new RegExp(NUMBER, "g")), (m) => parseFloat(m[1]));
+  })();
+
+  const distinct = Array.from(new Set(candidates));
+  if (distinct.length === 0) return UNSURE_ANSWER.test(text) ? UNSURE : UNCLEAR;
+  if (distinct.length === 2) return ambiguous(`Would you say it's closer to ${distinct[0]} or ${distinct[1]}? Please give ${rangeText(options)}.`);
+  if (distinct.length > 2) return ambiguous(`Sorry, I wasn't sure which number you meant. Please give ${rangeText(options)}.`);
+
+  const value = distinct[0];
+  const inRange = (options.min === undefined || value >= options.min) && (options.max === undefined || value <= options.max);
+  return inRange ? answer(value) : UNCLEAR;
+}
+
+// --- Durations ---
+
+const DURATION_UNITS: Array<[unit: RegExp, designator: string]> = [
+  [/^(?:seconds?|secs?)$/, "TS"],
+  [/^(?:minutes?|mins?)$/, "TM"],
+  [/^(?:hours?|hrs?)$/, "TH"],
+  [/^(?:days?|nights?)$/, "D"],
+  [/^(?:weeks?|wks?)$/, "W"],
+  [/^(?:months?)$/, "M"],
+  [/^(?:years?|yrs?)$/, "Y"],
+];
+const DURATION = /(\d+(?:\.\d+)?)(?:\s*(?:-|to|or)\s*(\d+(?:\.\d+)?))?\s*(seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|nights?|weeks?|wks?|months?|years?|yrs?)\b/;
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// "P3D", "PT2H", "P1.5W"
+function isoDuration(amount: number, designator: string): string {
+  return designator.startsWith("T") ? `PT${amount}${designator.slice(1)}` : `P${amount}${designator}`;
+}
+
+// How long ago something started, as an ISO-8601 duration: "3 days ago", "for a couple of
+// weeks", "since Tuesday", "yesterday". A range ("2 or 3 days") is read as the longer time.
+export function interpretDuration(input: string, now: Date = new Date()): Interpretation<string> {
+  const text = wordsToDigits(normalise(input))
+    .replace(/\b(?:a\s+)?couple(?:\s+of)?\b/g, "2")
+    .replace(/\b(?:a\s+)?few\b/g, "3")
+    .replace(/\bhalf an hour\b/g, "30 minutes")
+    .replace(/\b(?:a\s+)?fortnight\b/g, "2 weeks")
+    .replace(/\b(?:a|an|one)\s+(?=(?:second|minute|hour|day|night|week|month|year)\b)/g, "1 ");
+
+  const amount = text.match(DURATION);
+  if (amount) {
+    const value = Math.max(parseFloat(amount[1]), amount[2] ? parseFloat(amount[2]) : 0);
+    const [, designator] = DURATION_UNITS.find(([unit]) => unit.test(amount[3]))!;
+    return answer(isoDuration(value, designator));
+  }
+
+  const weekday = WEEKDAYS.findIndex((day) => new RegExp(`\\b${day}\\b`).test(text));
+  if (weekday >= 0) return answer(isoDuration((now.getDay() - weekday + 7) % 7 || 7, "D"));
+  if (/\b(?:today|this morning|this afternoon|this evening|tonight|earlier|just now)\b/.test(text)) return answer("P0D");
+  if (/\b(?:yesterday|last night|overnight)\b/.test(text)) return answer("P1D");
+  const last = text.match(/\blast (week|month|year)\b/);
+  if (last) return answer(isoDuration(1, last[1] === "week" ? "W" : last[1] === "month" ? "M" : "Y"));
+  return UNSURE_ANSWER.test(text) ? UNSURE : UNCLEAR;
+}
@@ -0,0 +1,162 @@
+// Rule back-testing
+// Replays every stored case through the active rule set and a candidate, so the effect of a
+// rule change is known before it is published. Chat cases are replayed from the session
+// state exactly as the chat flow triages them (buildTriageFromChat); form submissions from
+// their stored answers. Both sides are replayed rather than compared with the recorded band,
+// so the report shows only what the rule change itself does.
+
+import { storage } from "../storage";
+import type { BacktestReport } from "@shared/routes";
+import type { ChatState } from "@shared/schema";
+import { evaluateTriage, type VersionedRuleSet } from "./rules";
+import { buildTriageFromChat } from "./chatStateMachine";
+
+type Band = "Green" | "Amber" | "Red";
+type BacktestChange = BacktestReport["changes"][number];
+
+const BAND_ORDER: Record<Band, number> = { Green: 0, Amber: 1, Red: 2 };
+
+export interface BacktestCase {
+  caseId: string;
+  submissionId: number | null;
+  sessionId: number | null;
+  complaint: string;
+  recordedBand: string | null;
+  clinicianBand: string | null;
+  replay: (ruleSet: VersionedRuleSet) => { riskBand: Band; firedRules: string[] };
+}
+
+// Completed chats are keyed by their submission; sessions that stopped before one was
+// created are included once they have a complaint to triage
+export async function loadBacktestCases(): Promise<BacktestCase[]> {
+  const [submissions, sessions, overrides] = await Promise.all([
+    storage.getSubmissions(),
+    storage.getChatSessionStates(),
+    storage.getAllOverrides(),
+  ]);
+
+  // Overrides are ordered oldest first, so the last one written wins
+  const clinicianBands = new Map<number, string>();
+  for (const o of overrides) clinicianBands.set(o.submissionId, o.overrideBand);
+
+  const sessionBySubmission = new Map<number, (typeof sessions)[number]>();
+  for (const s of sessions) if (s.submissionId != null) sessionBySubmission.set(s.submissionId, s);
+
+  const fromChat = (state: ChatState) => (ruleSet: VersionedRuleSet) => buildTriageFromChat(state, ruleSet);
+
+  const cases: BacktestCase[] = submissions.map((sub) => {
+    const session = sessionBySubmission.get(sub.id);
+    return {
+      caseId: `submission:${sub.id}`,
+      submissionId: sub.id,
+      sessionId: session?.id ?? null,
+      complaint: sub.complaint,
+      recordedBand: sub.riskBand,
+      clinicianBand: clinicianBands.get(sub.id) ?? null,
+      replay: session
+        ? fromChat(session.state)
+        : (ruleSet) => evaluateTriage(sub.answers as Record<string, any>, ruleSet),
+    };
+  });
+
+  for (const s of sessions) {
+    if (s.submissionId != null) continue;
+    const complaint = s.state.complaint || s.state.openingDescription;
+    if (!complaint) continue;
+    cases.push({
+      caseId: `session:${s.id}`,
+      submissionId: null,
+      sessionId: s.id,
+      complaint,
+      recordedBand: null,
+      clinicianBand: null,
+      replay: fromChat(s.state),
+    });
+  }
+
+  return cases;
+}
+
+export function runBacktest(
+  cases: BacktestCase[],
+  baseline: VersionedRuleSet,
+  candidate: VersionedRuleSet,
+  candidateVersion: number | null = candidate.version
+): BacktestReport {
+  const summary: BacktestReport["summary"] = {
+    cases: cases.length,
+    escalated: 0,
+    deEscalated: 0,
+    flagChanges: 0,
+    withClinicianBand: 0,
+    baselineAgreement: 0,
+    candidateAgreement: 0,
+  };
+  const ruleCounts = new Map<string, { newlyFiring: number; stoppedFiring: number }>();
+  const countFor = (code: string) => {
+    if (!ruleCounts.has(code)) ruleCounts.set(code, { newlyFiring: 0, stoppedFiring: 0 });
+    return ruleCounts.get(code)!;
+  };
+  const changes: BacktestChange[] = [];
+
+  for (const c of cases) {
+    const before = c.replay(baseline);
+    const after = c.replay(candidate);
+    const flagsAdded = after.firedRules.filter((code) => !before.firedRules.includes(code));
+    const flagsRemoved = before.firedRules.filter((code) => !after.firedRules.includes(code));
+    const delta = BAND_ORDER[after.riskBand] - BAND_ORDER[before.riskBand];
+
+    if (delta > 0) summary.escalated++;
+    if (delta < 0) summary.deEscalated++;
+    if (flagsAdded.length > 0 || flagsRemoved.length > 0) summary.flagChanges++;
+    for (const code of flagsAdded) countFor(code).newlyFiring++;
+    for (const code of flagsRemoved) countFor(code).stoppedFiring++;
+
+    if (c.clinicianBand) {
+      summary.withClinicianBand++;
+      if (c.clinicianBand === before.riskBand) summary.baselineAgreement++;
+      if (c.clinicianBand === after.riskBand) summary.candidateAgreement++;
+    }
+
+    if (delta === 0 && flagsAdded.length === 0 && flagsRemoved.length === 0) continue;
+    changes.push({
+      caseId: c.caseId,
+      submissionId: c.submissionId,
+      sessionId: c.sessionId,
+      complaint: c.complaint,
+      recordedBand: c.recordedBand,
+      baselineBand: before.riskBand,
+      candidateBand: after.riskBand,
+      bandChange: delta > 0 ? "escalated" : delta < 0 ? "de-escalated" : "unchanged",
+      flagsAdded,
+      flagsRemoved,
+      clinicianBand: c.clinicianBand,
+    });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    baseline: { version: baseline.version, hash: baseline.hash },
+    candidate: { version: candidateVersion, hash: candidate.hash },
+    summary,
+    ruleChanges: Array.from(ruleCounts, ([code, counts]) => ({ code, ...counts })).sort((a, b) =>
+      a.code.localeCompare(b.code)
+    ),
+    changes,
+  };
+}
+
+function csvCell(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(";") : value == null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per changed case; summary counts stay in the JSON report
+export function backtestToCsv(report: BacktestReport): string {
+  const columns: Array<keyof BacktestChange> = [
+    "caseId", "submissionId", "sessionId", "complaint", "recordedBand", "baselineBand",
+    "candidateBand", "bandChange", "flagsAdded", "flagsRemoved", "clinicianBand",
+  ];
+  const rows = report.changes.map((change) => columns.map((col) => csvCell(change[col])).join(","));
+  return [columns.join(","), ...rows].join("\n") + "\n";
+}
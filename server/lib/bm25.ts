@@ -0,0 +1,85 @@
+// BM25 lexical index over chunk text
+// Okapi BM25 with document-length normalisation and IDF weighting. Tokens come from
+// the same tokenizer as the local embedding provider, so query text is never
+// interpreted as a regex and lay synonyms map to the same term.
+
+import { tokenize } from "./embeddings";
+
+// Standard Okapi parameters: k1 controls TF saturation, b length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+export interface Bm25Index {
+  docIds: number[];
+  termFreqs: Array<Map<string, number>>;
+  docLengths: number[];
+  avgDocLength: number;
+  docFreq: Map<string, number>;
+}
+
+export function buildBm25Index(docs: Array<{ id: number; text: string }>): Bm25Index {
+  const termFreqs: Array<Map<string, number>> = [];
+  const docLengths: number[] = [];
+  const docFreq = new Map<string, number>();
+
+  for (const doc of docs) {
+    const tokens = tokenize(doc.text);
+    const tf = new Map<string, number>();
+    for (const token of tokens) {
+      tf.set(token, (tf.get(token) || 0) + 1);
+    }
+    tf.forEach((_count, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1));
+    termFreqs.push(tf);
+    docLengths.push(tokens.length);
+  }
+
+  const totalLength = docLengths.reduce((sum, len) => sum + len, 0);
+  return {
+    docIds: docs.map(d => d.id),
+    termFreqs,
+    docLengths,
+    avgDocLength: docs.length > 0 ? totalLength / docs.length : 0,
+    docFreq,
+  };
+}
+
+function idf(index: Bm25Index, term: string): number {
+  const n = index.docIds.length;
+  const df = index.docFreq.get(term) || 0;
+  // BM25+ style floor keeps very common terms from going negative
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+// Returns a score per document id; documents sharing no query term are omitted
+export function scoreBm25(index: Bm25Index, query: string): Map<number, number> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const scores = new Map<number, number>();
+  if (queryTerms.length === 0 || index.docIds.length === 0) return scores;
+
+  for (let i = 0; i < index.docIds.length; i++) {
+    const tf = index.termFreqs[i];
+    const lengthNorm = index.avgDocLength > 0 ? index.docLengths[i] / index.avgDocLength : 1;
+    let score = 0;
+    for (const term of queryTerms) {
+      const f = tf.get(term);
+      if (!f) continue;
+      score += idf(index, term) * (f * (K1 + 1)) / (f + K1 * (1 - B + B * lengthNorm));
+    }
+    if (score > 0) scores.set(index.docIds[i], score);
+  }
+  return scores;
+}
+
+// Reciprocal rank fusion: each ranked list contributes 1 / (k + rank).
+// k = 60 is the constant from Cormack et al. and damps the influence of top ranks.
+export const RRF_K = 60;
+
+export function reciprocalRankFusion(rankings: Array<number[]>, k: number = RRF_K): Map<number, number> {
+  const fused = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, idx) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (k + idx + 1));
+    });
+  }
+  return fused;
+}
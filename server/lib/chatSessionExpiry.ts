@@ -0,0 +1,32 @@
+// Chat session expiry
+// A patient who closes the tab leaves their session active. Sessions with no activity for
+// CHAT_SESSION_IDLE_MINUTES (default 60) are marked abandoned, keeping the stage the patient
+// stopped at for the drop-off funnel in /api/admin/metrics. Nothing runs in the background:
+// a session is checked whenever it is next used, and all sessions are swept before the
+// metrics are counted.
+
+import type { ChatSession } from "@shared/schema";
+import { storage } from "../storage";
+
+const DEFAULT_IDLE_MINUTES = 60;
+
+export function chatSessionIdleMinutes(): number {
+  const minutes = Number(process.env.CHAT_SESSION_IDLE_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_IDLE_MINUTES;
+}
+
+function idleSince(now: Date): Date {
+  return new Date(now.getTime() - chatSessionIdleMinutes() * 60_000);
+}
+
+// Marks every idle active session abandoned; returns how many were marked
+export async function abandonIdleChatSessions(now = new Date()): Promise<number> {
+  return storage.abandonIdleChatSessions(idleSince(now));
+}
+
+// The session as it should be treated now: abandoned if it has been idle too long
+export async function expireIfIdle(session: ChatSession, now = new Date()): Promise<ChatSession> {
+  if (session.status !== "active" || session.updatedAt >= idleSince(now)) return session;
+  await abandonIdleChatSessions(now);
+  return { ...session, status: "abandoned" };
+}
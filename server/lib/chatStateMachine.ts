@@ -1,176 +1,223 @@
 // Chat State Machine for Clinical Assistant
 // Implements NHS 111-style intake following the provided prompt structure
 
-import type { ChatState, ChatMessage } from "@shared/schema";
-import { evaluateTriage } from "./rules";
-import { openai } from "../replit_integrations/image/client";
-
-export type Stage = 
-  | "opening"
-  | "collect_name"
-  | "collect_age"
-  | "collect_sex"
-  | "localisation"
-  | "time_start"
-  | "time_trend"
-  | "severity"
-  | "danger_breathing"
-  | "danger_collapse"
-  | "danger_severe_pain"
-  | "danger_bleeding"
-  | "danger_confusion"
-  | "red_flags"
-  | "rag_followup"
-  | "context_conditions"
-  | "context_medications"
-  | "context_surgery"
-  | "functional_eat"
-  | "functional_move"
-  | "functional_activities"
-  | "check_appointment"
-  | "summary"
-  | "complete"
-  | "escalated";
-
-interface StageConfig {
-  question: string;
-  extract: (input: string, state: ChatState) => Partial<ChatState> | null;
-  validate?: (state: ChatState) => boolean;
-  nextStage: (state: ChatState) => Stage;
-  isRedFlag?: (state: ChatState) => boolean;
+import { UNKNOWN_ANSWER, type ChatState, type ChatMessage } from "@shared/schema";
+import { evaluateTriage, getActiveRuleSet, type VersionedRuleSet } from "./rules";
+import {
+  catalogueFields,
+  findComplaintByLocation,
+  findComplaints,
+  getComplaint,
+  presentingComplaints,
+  type CatalogueQuestion,
+} from "./complaintCatalogue";
+import {
+  branchStart,
+  fallbackPrompt,
+  firstStage,
+  flowCondition,
+  flowFields,
+  flowStage,
+  resolve,
+  transitionFrom,
+  FLOW_END,
+  type FlowNavigation,
+  type FlowParser,
+  type FlowStage,
+} from "./interviewFlow";
+import { MENTAL_HEALTH_COMPLAINT, mentionsSelfHarm } from "./mentalHealth";
+import { getLlmProvider, type LlmMessage } from "./llm";
+import { rethrowCassetteMiss } from "./llmCassette";
+import { answerValue, interpretDuration, interpretNumber, interpretYesNo, wordsToDigits, type Interpretation } from "./answerParsing";
+
+// A stage of interviewFlow.json, or the status a finished chat is left at: "complete",
+// "escalated" (999) or "escalated_mental_health" (crisis lines)
+export type Stage = string;
+
+interface RedFlagQuestion extends CatalogueQuestion {
+  appliesTo?: (state: ChatState) => boolean; // asked only when this holds
 }
 
-const COMPLAINTS = ["chest pain", "shortness of breath", "abdominal pain", "headache", "fever"];
-
-// Condition-specific red flag questions
-const RED_FLAG_QUESTIONS: Record<string, { question: string; field: string }[]> = {
-  "chest pain": [
-    { question: "Is the pain spreading to your arm, jaw, neck, or back?", field: "radiatingPain" },
-    { question: "Are you sweating or feeling clammy?", field: "sweating" },
-    { question: "Do you have any nausea or vomiting?", field: "nausea" },
-  ],
-  "shortness of breath": [
-    { question: "Are you wheezing or making unusual sounds when breathing?", field: "wheezing" },
-    { question: "Have you coughed up any blood?", field: "coughingBlood" },
-    { question: "Do you have any chest pain or tightness?", field: "chestPain" },
-  ],
-  "abdominal pain": [
-    { question: "Are you vomiting blood or something that looks like coffee grounds?", field: "vomitingBlood" },
-    { question: "Have you noticed any blood in your stool or urine?", field: "bloodyStools" },
-    { question: "Is the pain worse when you move or press on the area?", field: "worseWithMovement" },
-    { question: "Do you have a fever or feel shivery?", field: "feverWithPain" },
-    { question: "Are you pregnant or could you be pregnant?", field: "pregnancy" },
-  ],
-  "headache": [
-    { question: "Did this headache come on suddenly like a thunderclap?", field: "thunderclap" },
-    { question: "Do you have a stiff neck or does it hurt to bend your head forward?", field: "neckStiffness" },
-    { question: "Are you experiencing any vision problems or seeing double?", field: "visualDisturbance" },
-    { question: "Do you have any weakness, numbness, or difficulty speaking?", field: "neurologicalSymptoms" },
-    { question: "Are you sensitive to light?", field: "photophobia" },
-  ],
-  "fever": [
-    { question: "Do you have a rash that doesn't fade when you press a glass against it?", field: "nonBlanchingRash" },
-    { question: "Do you have a stiff neck?", field: "neckStiffness" },
-    { question: "Are you able to keep fluids down?", field: "canKeepFluids" },
-  ],
-};
+// Paediatric pathway: under 16s are triaged with questions addressed to the parent or
+// carer. Every child is asked the NICE traffic-light features (NG143) before any
+// complaint-specific questions; the age-banded thresholds live in the rule set.
+const PAEDIATRIC_AGE = 16;
 
-// Fallback prompts for unclear responses
-const FALLBACK_PROMPTS = {
-  opening: {
-    first: "I understand. Could you describe your main symptom in a bit more detail?",
-    second: "What is the single thing that's bothering you most right now?",
-    final: "Please tell me: are you experiencing chest pain, breathing problems, stomach pain, headache, or fever?"
-  },
-  localisation: {
-    first: "Which part of your body is bothering you the most right now?",
-    second: "Can you point to where the problem is? Upper body, lower body, head, chest, or stomach?",
-    final: "Please tell me the area: head, chest, stomach, back, arms, or legs?"
-  },
-  time_start: {
-    first: "Can you estimate: was it today, yesterday, or longer ago?",
-    second: "Did this start hours ago, days ago, or weeks ago?",
-    final: "Roughly how long have you had this problem?"
-  },
-  time_trend: {
-    first: "Would you say it's better, worse, or about the same as when it started?",
-    second: "Is the problem getting worse, getting better, or staying the same?",
-    final: "Please tell me: worse, better, or the same?"
+function ageInMonths(state: ChatState): number {
+  return state.ageMonths ?? (state.age ?? 0) * 12;
+}
+
+const TRAFFIC_LIGHT_QUESTIONS: RedFlagQuestion[] = [
+  { question: "Does your child's skin, lips or tongue look blue, grey, very pale or blotchy?", field: "mottledOrBlue", critical: true },
+  { question: "Is your child grunting when they breathe, or can you see the skin sucking in under or between their ribs?", field: "gruntingOrRecession", critical: true },
+  {
+    question: "Is your child crying in a weak, high-pitched or non-stop way that isn't like their normal cry?",
+    field: "abnormalCry",
+    appliesTo: (state) => ageInMonths(state) < 60,
   },
-  severity: {
-    first: "If 0 is no problem and 10 is the worst possible, what number would you give it?",
-    second: "Is it mild (1-3), moderate (4-6), or severe (7-10)?",
-    final: "Just give me a number from 0 to 10 for how bad it is."
+  {
+    question: "Is the soft spot on the top of your baby's head bulging?",
+    field: "bulgingFontanelle",
+    critical: true,
+    appliesTo: (state) => ageInMonths(state) < 24,
   },
-  danger: {
-    first: "Just to confirm, is that a yes or a no?",
-    second: "I need a clear answer for safety. Yes or no?",
-    final: "Please answer yes or no."
+  { question: "Has your child had a fit (seizure) during this illness?", field: "seizure", critical: true },
+  { question: "Does your child have a rash that doesn't fade when you press a glass against it?", field: "nonBlanchingRash", critical: true },
+  { question: "Is your child much less active than usual, or not smiling or responding to you as they normally would?", field: "reducedActivity" },
+  { question: "Is your child eating or drinking less than half their usual amount, or having far fewer wet nappies or wees?", field: "poorFeeding" },
+  { question: "Has your child had a high temperature for 5 days or more?", field: "feverFiveDays" },
+  { question: "Has your child stopped using an arm or leg, stopped putting weight on a leg, or got a swollen joint?", field: "limbProblem" },
+];
+
+// Ranked presenting complaints; `complaint` is always the first of them
+function complaintsOf(state: ChatState): string[] {
+  return presentingComplaints(state);
+}
+
+function describeComplaints(state: ChatState): string {
+  return complaintsOf(state).join(" and ");
+}
+
+// Red flag questions come from the complaint catalogue, complaint by complaint in ranked
+// order; a question another complaint already asked is not repeated. Children get the
+// catalogue's paediatric wording where it has one. Sex-specific questions are skipped for
+// the other sex.
+function redFlagQuestionsFor(state: ChatState): RedFlagQuestion[] {
+  const complaintQuestions: RedFlagQuestion[] = complaintsOf(state).flatMap((name) => {
+    const complaint = getComplaint(name);
+    return state.paediatric
+      ? complaint?.paediatric_red_flag_questions ?? complaint?.red_flag_questions ?? []
+      : complaint?.red_flag_questions ?? [];
+  });
+  const questions = [
+    ...(state.paediatric ? TRAFFIC_LIGHT_QUESTIONS : []),
+    ...complaintQuestions,
+    ...(state.pregnancy === true ? PREGNANCY_QUESTIONS : []),
+  ];
+  const sex = state.sex?.toLowerCase();
+  return questions.filter((q, i) =>
+    questions.findIndex(other => other.field === q.field) === i &&
+    (!q.sex || !sex || q.sex === sex) &&
+    (!q.appliesTo || q.appliesTo(state))
+  );
+}
+
+function describeAge(state: ChatState): string {
+  if (state.paediatric && state.ageMonths !== undefined && state.ageMonths < 24) {
+    return `${state.ageMonths} month${state.ageMonths === 1 ? '' : 's'} old`;
+  }
+  return `${state.age} years old`;
+}
+
+// Pregnancy branch: female patients of reproductive age are screened after the observations
+// (pregnancy_screen in interviewFlow.json), and anyone pregnant (or possibly pregnant) gets
+// these questions after the complaint's own. Wording is neutral so it reads the same to the
+// patient or a parent. Questions that only matter at some gestations are still asked when
+// the gestation is unknown.
+const gestationFrom = (weeks: number) => (state: ChatState) =>
+  state.gestationWeeks === undefined || state.gestationWeeks >= weeks;
+const gestationBefore = (weeks: number) => (state: ChatState) =>
+  state.gestationWeeks === undefined || state.gestationWeeks < weeks;
+
+const PREGNANCY_QUESTIONS: RedFlagQuestion[] = [
+  { question: "Has there been any bleeding from the vagina during this pregnancy?", field: "vaginalBleeding" },
+  {
+    question: "Is there any pain low down in the tummy, especially on one side, or pain in the tip of the shoulder?",
+    field: "pelvicPain",
+    appliesTo: gestationBefore(24),
   },
-  red_flags: {
-    first: "Is that a yes or no?",
-    second: "I need to know for safety. Yes or no?",
-    final: "Please answer with yes or no."
+  {
+    question: "Is there a severe headache, blurred vision or flashing lights, pain just below the ribs, or sudden swelling of the face, hands or feet?",
+    field: "preEclampsiaSymptoms",
+    appliesTo: gestationFrom(20),
   },
-  context: {
-    first: "Could you tell me a bit more about that?",
-    second: "Any details you can share would help.",
-    final: "You can say 'none' if nothing applies."
+  {
+    question: "Has the baby been moving less than usual, or has the pattern of movements changed?",
+    field: "reducedFetalMovements",
+    appliesTo: gestationFrom(16),
   },
-  functional: {
-    first: "Are you able to do that? Yes or no.",
-    second: "Can you manage that normally? Yes or no.",
-    final: "Please answer yes or no."
-  }
-};
+];
+
+// "12 weeks", "about 3 months", "20": completed weeks of pregnancy
+export function parseGestation(input: string): number | null {
+  const lower = wordsToDigits(input.toLowerCase());
+  const months = lower.match(/(\d+(?:\.\d+)?)\s*(?:months?|mths?)\b/);
+  const weeksGiven = lower.match(/(\d+)\s*(?:weeks?|wks?)\b/);
+  const weeks = months ? Math.round(parseFloat(months[1]) * 4.35)
+    : weeksGiven ? parseInt(weeksGiven[1])
+    : answerValue(interpretNumber(lower));
+  return weeks !== null && weeks >= 0 && weeks <= 45 ? weeks : null;
+}
 
-function parseYesNo(input: string): boolean | null {
-  const lower = input.toLowerCase().trim();
-  const yesWords = ["yes", "y", "yeah", "yep", "true", "correct", "yea", "sure", "ok", "okay", "definitely", "absolutely", "i can", "i am", "i do"];
-  const noWords = ["no", "n", "nope", "nah", "false", "negative", "none", "not", "can't", "cannot", "don't", "i can't", "i cannot", "i don't"];
-  
-  if (yesWords.some(w => lower === w || lower.startsWith(w + " ") || lower.includes(" " + w))) {
-    return true;
-  }
-  if (noWords.some(w => lower === w || lower.startsWith(w + " ") || lower.includes(" " + w))) {
-    return false;
+// "34", "18 months", "6 weeks", "2 years 3 months": whole years plus completed months
+export function parseAge(input: string): { years: number; months: number } | null {
+  const lower = wordsToDigits(input.toLowerCase());
+  const amount = (units: string) => {
+    const match = lower.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(?:${units})\\b`));
+    return match ? parseFloat(match[1]) : null;
+  };
+  const years = amount("years?|yrs?");
+  const months = amount("months?|mths?");
+  const weeks = amount("weeks?|wks?");
+  const days = amount("days?");
+
+  if (years === null && months === null && weeks === null && days === null) {
+    const plain = answerValue(interpretNumber(lower));
+    return plain === null ? null : { years: plain, months: plain * 12 };
   }
-  return null;
+  const total = (years ?? 0) * 12 + (months ?? 0) + ((weeks ?? 0) * 7 + (days ?? 0)) / 30.44;
+  return { years: Math.floor(total / 12), months: Math.floor(total) };
 }
 
-function parseNumber(input: string): number | null {
-  const match = input.match(/\d+/);
-  return match ? parseInt(match[0]) : null;
+// "none" and other negatives count as 0
+function parseCount(input: string): Interpretation<number> {
+  const count = interpretNumber(input, { min: 0 });
+  if (count.kind !== "unclear") return count;
+  return answerValue(interpretYesNo(input)) === false ? { kind: "answer", value: 0 } : count;
 }
 
-function parseComplaint(input: string): string | null {
-  const lower = input.toLowerCase();
-  for (const complaint of COMPLAINTS) {
-    if (lower.includes(complaint)) {
-      return complaint;
-    }
+// Home readings in free text, e.g. "temp 38.4, sats 94%, pulse 104, bp 100/65"
+export function parseObservations(input: string): Partial<ChatState> {
+  let text = input.toLowerCase();
+  const readings: Partial<ChatState> = {};
+  const within = (v: number, min: number, max: number) => v >= min && v <= max;
+
+  // Checked first: "on home oxygen, sats 89" must not lose "oxygen" to the SpO2 match
+  if (/\b(?:on|using|home) oxygen\b|oxygen (?:tank|cylinder|concentrator)/.test(text)) readings.onOxygen = true;
+
+  const bp = text.match(/(\d{2,3})\s*(?:\/|over)\s*(\d{2,3})/);
+  if (bp && within(+bp[1], 50, 260) && within(+bp[2], 20, 160)) {
+    readings.systolicBp = +bp[1];
+    readings.diastolicBp = +bp[2];
+    text = text.replace(bp[0], " ");
   }
-  // Extended matching
-  if (lower.includes("chest") || lower.includes("heart")) return "chest pain";
-  if (lower.includes("breath") || lower.includes("breathing") || lower.includes("breathless") || lower.includes("can't breathe")) return "shortness of breath";
-  if (lower.includes("stomach") || lower.includes("abdomen") || lower.includes("belly") || lower.includes("tummy") || lower.includes("gut")) return "abdominal pain";
-  if (lower.includes("head") || lower.includes("migraine")) return "headache";
-  if (lower.includes("fever") || lower.includes("temperature") || lower.includes("hot") || lower.includes("chills") || lower.includes("shiver")) return "fever";
-  return null;
-}
 
-function getFallbackPrompt(stage: string, retryCount: number): string {
-  let category = stage;
-  if (stage.startsWith("danger_")) category = "danger";
-  if (stage.startsWith("context_")) category = "context";
-  if (stage.startsWith("functional_")) category = "functional";
-  
-  const prompts = FALLBACK_PROMPTS[category as keyof typeof FALLBACK_PROMPTS];
-  if (!prompts) return "I didn't quite catch that. Could you try again?";
-  
-  if (retryCount === 0) return prompts.first;
-  if (retryCount === 1) return prompts.second;
-  return prompts.final;
+  const spo2 =
+    text.match(/\b(?:sats?|spo2|saturation|oxygen(?: level)?|o2)\D{0,12}?(\d{2,3})/) || text.match(/(\d{2,3})\s*%/);
+  if (spo2 && within(+spo2[1], 50, 100)) {
+    readings.oxygenSaturation = +spo2[1];
+    text = text.replace(spo2[0], " ");
+  }
+
+  const temp =
+    text.match(/\btemp(?:erature)?\D{0,12}?(\d{2,3}(?:\.\d+)?)/) || text.match(/(\d{2,3}(?:\.\d+)?)\s*(?:°|degrees|c\b|f\b)/);
+  if (temp) {
+    let value = parseFloat(temp[1]);
+    if (within(value, 86, 113)) value = Math.round(((value - 32) * 5) / 9 * 10) / 10; // Fahrenheit
+    if (within(value, 30, 45)) readings.temperature = value;
+    text = text.replace(temp[0], " ");
+  }
+
+  const pulse = text.match(/\b(?:pulse|heart ?rate|hr)\b\D{0,12}?(\d{2,3})/) || text.match(/(\d{2,3})\s*bpm/);
+  if (pulse && within(+pulse[1], 20, 250)) {
+    readings.heartRate = +pulse[1];
+    text = text.replace(pulse[0], " ");
+  }
+
+  const rr = text.match(/\b(?:breathing rate|resp(?:iratory)? rate|rr)\b\D{0,12}?(\d{1,2})/) || text.match(/(\d{1,2})\s*breaths/);
+  if (rr && within(+rr[1], 4, 60)) readings.respiratoryRate = +rr[1];
+
+  return readings;
 }
 
 // Patient-facing system prompt (111 call handler style)
@@ -192,6 +239,7 @@ You MAY:
 
 Safety override:
 If the user reports emergency warning signs (severe chest pain/pressure, severe breathing trouble, blue lips, collapse/fainting, confusion, seizure, sudden "worst headache", stiff neck with fever, purple rash that doesn't fade, heavy bleeding), immediately tell them to call 999 or go to A&E now. Keep it short.
+If the user mentions suicide or self-harm, respond with warmth and give the crisis lines: NHS 111 option 2, or Samaritans on 116 123.
 
 Conversation style:
 - Start vague/open-ended.
@@ -204,177 +252,77 @@ Collect the key details needed for clinical assessment: what symptoms, when it s
 
 Output must end with clear questions for the patient to answer.`;
 
-export function getNextQuestion(state: ChatState, stage: Stage): { question: string; nextStage: Stage } {
-  switch (stage) {
-    case "opening":
-      return {
-        question: "Hello, I'm here to help assess your symptoms today. Before we begin, can I take your name please?",
-        nextStage: "collect_name"
-      };
-    
-    case "collect_name":
-      return {
-        question: "Thank you. And may I ask your age?",
-        nextStage: "collect_age"
-      };
-    
-    case "collect_age":
-      return {
-        question: "And what is your birth sex? (Male or Female)",
-        nextStage: "collect_sex"
-      };
-    
-    case "collect_sex":
-      return {
-        question: `Thanks ${state.patientName || ''}. Now, can you tell me what's happening right now and what made you seek help today?`,
-        nextStage: "localisation"
-      };
-    
-    case "localisation":
-      return {
-        question: "Where in your body is the main problem?",
-        nextStage: "time_start"
-      };
-    
-    case "time_start":
-      return {
-        question: "When did this start?",
-        nextStage: "time_trend"
-      };
-    
-    case "time_trend":
-      return {
-        question: "Is it getting better, worse, or staying the same?",
-        nextStage: "severity"
-      };
-    
-    case "severity":
-      return {
-        question: "On a scale from 0 to 10, how severe is it right now?",
-        nextStage: "danger_breathing"
-      };
-    
-    // Immediate danger checks - one at a time
-    case "danger_breathing":
-      return {
-        question: "Are you having trouble breathing right now?",
-        nextStage: "danger_collapse"
-      };
-    
-    case "danger_collapse":
-      return {
-        question: "Have you collapsed, fainted, or felt close to passing out?",
-        nextStage: "danger_severe_pain"
-      };
-    
-    case "danger_severe_pain":
-      return {
-        question: "Is the pain severe or unbearable?",
-        nextStage: "danger_bleeding"
-      };
-    
-    case "danger_bleeding":
-      return {
-        question: "Are you bleeding heavily right now?",
-        nextStage: "danger_confusion"
-      };
-    
-    case "danger_confusion":
-      return {
-        question: "Are you confused, drowsy, or hard to wake?",
-        nextStage: "red_flags"
-      };
-    
+// The red flag question waiting for an answer, if any
+function currentRedFlagQuestion(state: ChatState): RedFlagQuestion | undefined {
+  const answeredFields = Object.keys(state);
+  return redFlagQuestionsFor(state).find(q => !answeredFields.includes(q.field));
+}
+
+// The red flag stage is skipped when nothing in it applies to this patient; mental health
+// questions resume the stage they interrupted
+function navigation(state: ChatState): FlowNavigation {
+  return {
+    returnTo: state.mhReturnStage,
+    available: (stage) => stage.parser !== "red_flags" || currentRedFlagQuestion(state) !== undefined,
+  };
+}
+
+// {patientName}, {crisisLines} and {question} in flow text
+function fillTemplate(text: string, state: ChatState, question = ""): string {
+  const values: Record<string, string> = { patientName: state.patientName || "", crisisLines: crisisLines(state), question };
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+function questionText(state: ChatState, stage: FlowStage): string {
+  switch (stage.parser) {
     case "red_flags":
-      const complaint = state.complaint?.toLowerCase() || "";
-      const questions = RED_FLAG_QUESTIONS[complaint] || [];
-      const answeredFields = Object.keys(state);
-      const nextQuestion = questions.find(q => !answeredFields.includes(q.field));
-      
-      if (nextQuestion) {
-        return {
-          question: nextQuestion.question,
-          nextStage: "red_flags"
-        };
-      }
-      return {
-        question: "",
-        nextStage: "rag_followup"
-      };
-    
-    case "rag_followup":
-      // This stage is handled dynamically with RAG-generated questions
-      // The question will be set by the async handler
-      return {
-        question: "",
-        nextStage: "context_conditions"
-      };
-    
-    case "context_conditions":
-      return {
-        question: "Do you have any long-term medical conditions?",
-        nextStage: "context_medications"
-      };
-    
-    case "context_medications":
-      return {
-        question: "Are you taking any regular medications?",
-        nextStage: "context_surgery"
-      };
-    
-    case "context_surgery":
-      return {
-        question: "Have you had any surgery in this area before?",
-        nextStage: "functional_eat"
-      };
-    
-    case "functional_eat":
-      return {
-        question: "Are you able to eat or drink?",
-        nextStage: "functional_move"
-      };
-    
-    case "functional_move":
-      return {
-        question: "Can you move around normally?",
-        nextStage: "functional_activities"
-      };
-    
-    case "functional_activities":
-      return {
-        question: "Is this stopping you from doing normal daily activities?",
-        nextStage: "check_appointment"
-      };
-    
-    case "check_appointment":
-      return {
-        question: "Do you already have an appointment booked with a doctor or hospital for this issue?",
-        nextStage: "summary"
-      };
-    
-    case "summary":
-      return {
-        question: generateSummaryConfirmation(state),
-        nextStage: "complete"
-      };
-    
+      return currentRedFlagQuestion(state)?.question ?? "";
+    case "rag":
+      // Generated from the knowledge base by the chat route
+      return "";
+    case "confirm":
+      return generateSummaryConfirmation(state);
     default:
-      return {
-        question: "Thank you for completing the assessment.",
-        nextStage: "complete"
-      };
+      return fillTemplate((state.paediatric && stage.paediatric_question) || stage.question || "", state);
   }
 }
 
+export function getNextQuestion(state: ChatState, stage: Stage): { question: string; nextStage: Stage } {
+  const flow = flowStage(stage);
+  if (!flow) {
+    return { question: "Thank you for completing the assessment.", nextStage: FLOW_END };
+  }
+  return { question: questionText(state, flow), nextStage: transitionFrom(state, stage, navigation(state)).stage };
+}
+
+function retryPrompt(stage: FlowStage, state: ChatState, retryCount: number): string {
+  const question = questionText(state, stage);
+  if (stage.retry_prompt) return fillTemplate(stage.retry_prompt, state, question);
+  return fallbackPrompt(stage, retryCount) ?? question;
+}
+
 function generateSummaryConfirmation(state: ChatState): string {
   let summary = `Thank you ${state.patientName || 'for that information'}. Let me confirm what you've told me:\n\n`;
   summary += `- Name: ${state.patientName || 'Not provided'}\n`;
-  summary += `- Age: ${state.age ? state.age + ' years old' : 'Not provided'}\n`;
-  summary += `- Main concern: ${state.complaint || 'Not specified'}\n`;
+  summary += `- Age: ${state.age !== undefined ? describeAge(state) : 'Not provided'}\n`;
+  summary += `- Main concern: ${describeComplaints(state) || 'Not specified'}\n`;
   summary += `- Location: ${state.location || 'Not specified'}\n`;
   summary += `- Started: ${state.onset || 'Not specified'}\n`;
   summary += `- Trend: ${state.timeTrend || 'Not specified'}\n`;
   summary += `- Severity: ${state.severity !== undefined ? state.severity + '/10' : 'Not rated'}\n`;
+  const readings = [
+    state.temperature !== undefined && `temperature ${state.temperature}°C`,
+    state.oxygenSaturation !== undefined && `oxygen ${state.oxygenSaturation}%`,
+    state.heartRate !== undefined && `pulse ${state.heartRate}`,
+    state.systolicBp !== undefined && `blood pressure ${state.systolicBp}/${state.diastolicBp ?? '?'}`,
+    state.respiratoryRate !== undefined && `breathing rate ${state.respiratoryRate}`,
+  ].filter(Boolean);
+  if (readings.length > 0) {
+    summary += `- Readings: ${readings.join(', ')}\n`;
+  }
+  if (state.pregnancy === true) {
+    summary += `- Pregnancy: ${state.gestationWeeks !== undefined ? state.gestationWeeks + ' weeks' : state.pregnancyUncertain ? 'possible' : 'yes, gestation not known'}\n`;
+  }
   if (state.medicalHistory && state.medicalHistory !== "None reported") {
     summary += `- Medical conditions: ${state.medicalHistory}\n`;
   }
@@ -394,7 +342,7 @@ export async function generateRAGQuestion(state: ChatState, ragContext: string):
   
   const symptomDescription = `
 Patient symptoms:
-- Complaint: ${state.complaint || 'Unknown'}
+- Complaint: ${describeComplaints(state) || 'Unknown'}
 - Location: ${state.location || 'Not specified'}
 - Onset: ${state.onset || 'Not specified'}
 - Trend: ${state.timeTrend || 'Unknown'}
@@ -404,25 +352,21 @@ Patient symptoms:
 
   try {
     // Use LLM to generate a natural follow-up question based on RAG context
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: PATIENT_FACING_SYSTEM_PROMPT + "\n\nYou are generating a single follow-up question to help narrow down the possible condition. Ask 1-2 natural questions that would help differentiate between possibilities mentioned in the clinical guidance."
-        },
-        {
-          role: "user",
-          content: `Based on the following patient symptoms and clinical guidance, generate ONE natural follow-up question (2-4 short questions) that would help narrow down what this could be.\n\nPatient symptoms:\n${symptomDescription}\n\nRelevant clinical guidance:\n${ragContext}\n\nGenerate a question that would help differentiate between possible conditions mentioned in the guidance.`
-        }
-      ],
-      max_tokens: 150,
-      temperature: 0.7
-    });
-
-    const question = response.choices[0]?.message?.content?.trim();
+    const response = await getLlmProvider().chat([
+      {
+        role: "system",
+        content: PATIENT_FACING_SYSTEM_PROMPT + "\n\nYou are generating a single follow-up question to help narrow down the possible condition. Ask 1-2 natural questions that would help differentiate between possibilities mentioned in the clinical guidance."
+      },
+      {
+        role: "user",
+        content: `Based on the following patient symptoms and clinical guidance, generate ONE natural follow-up question (2-4 short questions) that would help narrow down what this could be.\n\nPatient symptoms:\n${symptomDescription}\n\nRelevant clinical guidance:\n${ragContext}\n\nGenerate a question that would help differentiate between possible conditions mentioned in the guidance.`
+      }
+    ], { maxTokens: 150, temperature: 0.7, purpose: "rag_question" });
+
+    const question = response.trim();
     return question || null;
   } catch (error) {
+    rethrowCassetteMiss(error);
     console.error("Error generating RAG question:", error);
     // Fallback to simple questions
     const questions = [
@@ -442,6 +386,42 @@ Patient symptoms:
 
 // Emergency response message
 const EMERGENCY_RESPONSE = "Based on what you've told me, this could be urgent. You need emergency medical help now. Please call 999 or go to A&E immediately.";
+const PAEDIATRIC_EMERGENCY_RESPONSE = "Based on what you've told me, your child could need urgent help. Please call 999 or take them to A&E immediately.";
+
+function emergencyResponse(state: ChatState): string {
+  return state.paediatric ? PAEDIATRIC_EMERGENCY_RESPONSE : EMERGENCY_RESPONSE;
+}
+
+// Mental health crisis: shown instead of the 999 message when the risk questions find high
+// risk (see mentalHealth.ts), and the session is marked escalated_mental_health
+const MENTAL_HEALTH_CRISIS_RESPONSE = "Thank you for telling me. I'm worried about your safety right now, and you don't have to face this alone. Please get help now: call NHS 111 and choose option 2 for the mental health crisis line, or call Samaritans free on 116 123, any time of day or night. If you have harmed yourself, or feel you might act on these thoughts, call 999 or go to A&E now.";
+const PAEDIATRIC_MENTAL_HEALTH_CRISIS_RESPONSE = "Thank you for telling me. I'm worried about your child's safety right now. Please stay with them and get help now: call NHS 111 and choose option 2 for the mental health crisis line. If they have harmed themselves, or you think they might act on these thoughts, call 999 or take them to A&E now. Young people can also call Childline free on 0800 1111.";
+
+// Crisis lines for anyone who talked about self-harm but is not at high risk
+const CRISIS_LINES = "If you ever feel you can't keep yourself safe, call NHS 111 and choose option 2, or call Samaritans free on 116 123, any time of day or night.";
+const PAEDIATRIC_CRISIS_LINES = "If you're ever worried about your child's safety, call NHS 111 and choose option 2. Young people can also call Childline free on 0800 1111.";
+
+function mentalHealthCrisisResponse(state: ChatState): string {
+  return state.paediatric ? PAEDIATRIC_MENTAL_HEALTH_CRISIS_RESPONSE : MENTAL_HEALTH_CRISIS_RESPONSE;
+}
+
+function crisisLines(state: ChatState): string {
+  return state.paediatric ? PAEDIATRIC_CRISIS_LINES : CRISIS_LINES;
+}
+
+// Switches to the mental health risk questions (the flow's mental_health branch), coming
+// back to `returnStage` afterwards. Mental health joins the presenting complaints so its
+// rules apply.
+function startMentalHealthCheck(state: ChatState, returnStage: Stage): { newStage: Stage; response: string } {
+  state.mhReturnStage = returnStage;
+  state.complaints = Array.from(new Set([...complaintsOf(state), MENTAL_HEALTH_COMPLAINT]));
+  state.complaint = state.complaints[0];
+  const intro = state.paediatric
+    ? "I'm sorry you're dealing with this. I'd like to ask a few questions about your child's safety right now, so we can get them the right help."
+    : "I'm sorry you're going through this. I'd like to ask a few questions about your safety right now, so we can get you the right help.";
+  const newStage = resolve(state, branchStart("mental_health")!.id, navigation(state));
+  return { newStage, response: `${intro} ${getNextQuestion(state, newStage).question}` };
+}
 
 // Safety net message - always included at the end
 const SAFETY_NET = "\n\nIf your symptoms suddenly get worse, or you develop new symptoms like severe pain, breathlessness, collapse, or bleeding, seek urgent medical help immediately.";
@@ -455,7 +435,7 @@ async function generatePatientResponse(
 ): Promise<string> {
   try {
     // Build conversation context
-    const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
+    const messages: LlmMessage[] = [
       { role: "system", content: PATIENT_FACING_SYSTEM_PROMPT }
     ];
 
@@ -473,7 +453,8 @@ async function generatePatientResponse(
     const stateContext = `
 Current assessment stage: ${currentStage}
 Information collected so far:
-${currentState.complaint ? `- Main concern: ${currentState.complaint}` : ''}
+${currentState.paediatric ? `- Speaking to the parent or carer of a child ${describeAge(currentState)}` : ''}
+${currentState.complaint ? `- Main concern: ${describeComplaints(currentState)}` : ''}
 ${currentState.location ? `- Location: ${currentState.location}` : ''}
 ${currentState.onset ? `- When it started: ${currentState.onset}` : ''}
 ${currentState.severity !== undefined ? `- Severity: ${currentState.severity}/10` : ''}
@@ -487,500 +468,277 @@ ${currentState.timeTrend ? `- Trend: ${currentState.timeTrend}` : ''}
       });
     }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: messages as any,
-      max_tokens: 300,
-      temperature: 0.7
-    });
+    const response = await getLlmProvider().chat(messages, { maxTokens: 300, temperature: 0.7, purpose: "patient_reply" });
 
-    return response.choices[0]?.message?.content || "I understand. Could you tell me more about that?";
+    return response || "I understand. Could you tell me more about that?";
   } catch (error) {
+    rethrowCassetteMiss(error);
     console.error("Error generating patient response:", error);
     // Fallback to deterministic response
     return getNextQuestion(currentState, currentStage).question;
   }
 }
 
-// Check for emergency warning signs in user input
+// Check for emergency warning signs in user input. A fever alone is left to the rules
+// engine (the paediatric traffic-light rules grade it), and a sign the patient denies ("no
+// seizure", "not confused") does not count.
 function checkEmergencySigns(input: string): boolean {
   const lower = input.toLowerCase();
   const emergencyKeywords = [
     "severe chest pain", "severe breathing", "can't breathe", "blue lips",
     "collapsed", "fainted", "fainting", "confusion", "confused", "seizure",
-    "worst headache", "stiff neck", "fever", "purple rash", "heavy bleeding",
+    "worst headache", "stiff neck", "purple rash", "heavy bleeding",
     "bleeding heavily", "unconscious", "not responding", "falling over",
-    "keep falling", "hurting myself", "hurt myself", "injuring myself"
+    "keep falling", "overdose"
   ];
-  return emergencyKeywords.some(keyword => lower.includes(keyword));
+  const denied = (at: number) => /\b(?:no|not|never|without|nor)\s+(?:\w+\s+)?$/.test(lower.slice(0, at));
+  return emergencyKeywords.some(keyword => {
+    for (let at = lower.indexOf(keyword); at >= 0; at = lower.indexOf(keyword, at + 1)) {
+      if (!denied(at)) return true;
+    }
+    return false;
+  });
 }
 
-export async function processUserMessage(
-  input: string,
-  conversationHistory: ChatMessage[],
-  currentState: ChatState, 
-  currentStage: Stage,
-  retryCount: number = 0
-): Promise<{ newState: ChatState; newStage: Stage; response: string; isEscalation: boolean; isComplete: boolean; newRetryCount: number }> {
-  
-  let newState = { ...currentState };
-  let newStage: Stage = currentStage;
-  let response = "";
-  let isEscalation = false;
-  let isComplete = false;
-  let newRetryCount = 0;
+// Stages whose answers are read as yes or no: a red-flag question names the sign it asks
+// about, so an answer repeating it ("no seizure") is not a report of it
+const YES_NO_PARSERS = new Set(["yes_no", "red_flags"]);
 
-  // Check for emergency signs first
-  if (checkEmergencySigns(input)) {
-    return {
-      newState,
-      newStage: "escalated",
-      response: "Based on what you've told me, this could be urgent. You need emergency medical help now. Please call 999 or go to A&E immediately.",
-      isEscalation: true,
-      isComplete: true,
-      newRetryCount: 0
-    };
-  }
+function parseSex(input: string): string | null {
+  const lower = input.toLowerCase().trim();
+  // Female first: "female" and "woman" contain "male" and "man"
+  if (lower.includes("female") || lower.includes("woman") || lower.includes("girl") || lower === "f") return "Female";
+  if (lower.includes("male") || lower.includes("man") || lower.includes("boy") || lower === "m") return "Male";
+  return null;
+}
 
-  // After 3 failed attempts, try to continue with partial info
-  const maxRetries = 3;
-  if (retryCount >= maxRetries) {
-    // Move to next stage with whatever we have
-    const stages: Stage[] = ["opening", "collect_name", "collect_age", "collect_sex", "localisation", "time_start", "time_trend", "severity", 
-      "danger_breathing", "danger_collapse", "danger_severe_pain", "danger_bleeding", "danger_confusion",
-      "red_flags", "context_conditions", "context_medications", "context_surgery", 
-      "functional_eat", "functional_move", "functional_activities", "check_appointment", "summary"];
-    const currentIndex = stages.indexOf(currentStage);
-    if (currentIndex < stages.length - 1) {
-      newStage = stages[currentIndex + 1];
-      response = getNextQuestion(newState, newStage).question;
-      return { newState, newStage, response, isEscalation, isComplete, newRetryCount: 0 };
-    }
+// An answer that could mean more than one thing: the patient is asked `prompt` instead of the
+// stage's retry prompt
+class Clarification {
+  constructor(readonly prompt: string) {}
+}
+
+type ParsedAnswer = Partial<ChatState> | Clarification | null;
+type AnswerParser = (input: string, stage: FlowStage, state: ChatState) => ParsedAnswer;
+
+// The fields an interpreted answer sets; "not sure" is read as `unsure` when given
+function readAnswer<T, U = T>(interpretation: Interpretation<T>, fields: (value: T | U) => Partial<ChatState>, unsure?: U): ParsedAnswer {
+  switch (interpretation.kind) {
+    case "answer": return fields(interpretation.value);
+    case "unsure": return unsure === undefined ? null : fields(unsure);
+    case "ambiguous": return new Clarification(interpretation.clarification);
+    case "unclear": return null;
   }
+}
 
-  switch (currentStage) {
-    case "opening": {
-      // Opening now collects name first
-      const name = input.trim();
-      if (name.length > 0) {
-        newState.patientName = name;
-        newStage = "collect_name";
-        response = getNextQuestion(newState, newStage).question;
-      } else {
-        response = "Could you please tell me your name?";
-        newRetryCount = retryCount + 1;
-      }
-      break;
-    }
-    
-    case "collect_name": {
-      // Collect age
-      const ageNum = parseNumber(input);
-      if (ageNum !== null && ageNum >= 0 && ageNum <= 120) {
-        newState.age = ageNum;
-        newStage = "collect_age";
-        response = getNextQuestion(newState, newStage).question;
-      } else {
-        response = "Could you please tell me your age in years?";
-        newRetryCount = retryCount + 1;
-      }
-      break;
-    }
-    
-    case "collect_age": {
-      // After age, ask about birth sex
-      const lower = input.toLowerCase().trim();
-      if (lower.includes("male") || lower.includes("man") || lower.includes("boy") || lower === "m") {
-        newState.sex = "Male";
-        newStage = "collect_sex";
-        response = getNextQuestion(newState, newStage).question;
-      } else if (lower.includes("female") || lower.includes("woman") || lower.includes("girl") || lower === "f") {
-        newState.sex = "Female";
-        newStage = "collect_sex";
-        response = getNextQuestion(newState, newStage).question;
-      } else {
-        response = "Please specify your birth sex - Male or Female?";
-        newRetryCount = retryCount + 1;
-      }
-      break;
-    }
-    
-    case "collect_sex": {
-      // After sex, ask about symptoms
-      const complaint = parseComplaint(input);
-      if (complaint) {
-        newState.complaint = complaint;
-        newState.openingDescription = input.trim();
-        newStage = "localisation";
-        response = getNextQuestion(newState, newStage).question;
-      } else if (input.trim().length > 5) {
-        // Accept description even without recognized complaint
-        newState.openingDescription = input.trim();
-        newStage = "localisation";
-        response = "Thank you for explaining. " + getNextQuestion(newState, newStage).question;
-      } else {
-        response = "Can you tell me more about what's bothering you today?";
-        newRetryCount = retryCount + 1;
-      }
-      break;
-    }
+// How each flow parser reads an answer into state; null when the answer is unclear
+const PARSERS: Record<FlowParser, AnswerParser> = {
+  name: (input, stage) => input.trim() ? { [stage.field!]: input.trim() } : null,
 
-    case "localisation": {
-      const location = input.trim();
-      if (location.length > 0) {
-        newState.location = location;
-        // Try to extract complaint from location if not already set
-        if (!newState.complaint) {
-          const complaint = parseComplaint(location);
-          if (complaint) newState.complaint = complaint;
-        }
-        newStage = "time_start";
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  // Under 16s switch to the paediatric pathway
+  age: (input) => {
+    const age = parseAge(input);
+    if (age === null || age.years < 0 || age.years > 120) return null;
+    const paediatric = age.years < PAEDIATRIC_AGE;
+    return paediatric ? { age: age.years, paediatric, ageMonths: age.months } : { age: age.years, paediatric };
+  },
 
-    case "time_start": {
-      const onset = input.trim();
-      if (onset.length > 0) {
-        newState.onset = onset;
-        newStage = "time_trend";
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  sex: (input, stage) => {
+    const sex = parseSex(input);
+    return sex ? { [stage.field!]: sex } : null;
+  },
 
-    case "time_trend": {
-      const trend = input.trim().toLowerCase();
-      if (trend.length > 0) {
-        newState.timeTrend = trend;
-        // Check for worsening as warning sign
-        if (trend.includes("worse") || trend.includes("worsening")) {
-          newState.gettingWorse = true;
-        }
-        newStage = "severity";
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  complaint: (input) => {
+    const description = input.trim();
+    const complaints = findComplaints(input).map(c => c.name);
+    if (complaints.length > 0) return { complaints, complaint: complaints[0], openingDescription: description };
+    // Accept description even without recognized complaint
+    return description.length > 5 ? { openingDescription: description } : null;
+  },
 
-    case "severity": {
-      const severity = parseNumber(input);
-      if (severity !== null && severity >= 0 && severity <= 10) {
-        newState.severity = severity;
-        newStage = "danger_breathing";
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  location: (input, stage, state) => {
+    const location = input.trim();
+    if (!location) return null;
+    // Try to extract complaint from location if not already set
+    const complaint = state.complaint ? null : findComplaintByLocation(location);
+    return complaint
+      ? { [stage.field!]: location, complaint: complaint.name, complaints: [complaint.name] }
+      : { [stage.field!]: location };
+  },
 
-    // Immediate danger checks
-    case "danger_breathing": {
-      const answer = parseYesNo(input);
-      if (answer !== null) {
-        newState.troubleBreathing = answer;
-        if (answer === true) {
-          return {
-            newState,
-            newStage: "escalated",
-            response: EMERGENCY_RESPONSE,
-            isEscalation: true,
-            isComplete: true,
-            newRetryCount: 0
-          };
-        }
-        newStage = "danger_collapse";
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  // Free text, with the time since it started as an ISO-8601 duration when it can be worked out
+  onset: (input, stage) => {
+    const onset = input.trim();
+    if (!onset) return null;
+    const duration = answerValue(interpretDuration(onset));
+    return duration === null ? { [stage.field!]: onset } : { [stage.field!]: onset, duration };
+  },
 
-    case "danger_collapse": {
-      const answer = parseYesNo(input);
-      if (answer !== null) {
-        newState.collapse = answer;
-        if (answer === true) {
-          return {
-            newState,
-            newStage: "escalated",
-            response: EMERGENCY_RESPONSE,
-            isEscalation: true,
-            isComplete: true,
-            newRetryCount: 0
-          };
-        }
-        newStage = "danger_severe_pain";
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  text: (input, stage) => {
+    const text = input.trim() || stage.default;
+    return text ? { [stage.field!]: text } : null;
+  },
 
-    case "danger_severe_pain": {
-      const answer = parseYesNo(input);
-      if (answer !== null) {
-        newState.severePain = answer;
-        if (answer === true && (newState.severity ?? 0) >= 8) {
-          return {
-            newState,
-            newStage: "escalated",
-            response: EMERGENCY_RESPONSE,
-            isEscalation: true,
-            isComplete: true,
-            newRetryCount: 0
-          };
-        }
-        newStage = "danger_bleeding";
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  trend: (input, stage) => {
+    const trend = input.trim().toLowerCase();
+    if (!trend) return null;
+    // Check for worsening as warning sign
+    return trend.includes("worse") ? { [stage.field!]: trend, gettingWorse: true } : { [stage.field!]: trend };
+  },
 
-    case "danger_bleeding": {
-      const answer = parseYesNo(input);
-      if (answer !== null) {
-        newState.severeBleeding = answer;
-        if (answer === true) {
-          return {
-            newState,
-            newStage: "escalated",
-            response: EMERGENCY_RESPONSE,
-            isEscalation: true,
-            isComplete: true,
-            newRetryCount: 0
-          };
-        }
-        newStage = "danger_confusion";
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  number: (input, stage) =>
+    readAnswer(interpretNumber(input, { min: stage.min, max: stage.max }), (n) => ({ [stage.field!]: n })),
 
-    case "danger_confusion": {
-      const answer = parseYesNo(input);
-      if (answer !== null) {
-        newState.confusion = answer;
-        if (answer === true) {
-          return {
-            newState,
-            newStage: "escalated",
-            response: EMERGENCY_RESPONSE,
-            isEscalation: true,
-            isComplete: true,
-            newRetryCount: 0
-          };
-        }
-        newStage = "red_flags";
-        const nextQ = getNextQuestion(newState, newStage);
-        if (!nextQ.question) {
-          newStage = "context_conditions";
-        }
-      } else {
-        newRetryCount = retryCount + 1;
-      }
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  // "Not sure" is unknown unless the stage says what it counts as (`unsure`); stages can also
+  // say what anything not understood counts as (`unclear`)
+  yes_no: (input, stage) => {
+    const answer = interpretYesNo(input);
+    if (answer.kind === "unclear" && stage.unclear !== undefined) return { [stage.field!]: stage.unclear };
+    return readAnswer(answer, (yes) => ({ [stage.field!]: yes }), stage.unsure ?? UNKNOWN_ANSWER);
+  },
 
-    case "red_flags": {
-      const complaint = newState.complaint?.toLowerCase() || "";
-      const questions = RED_FLAG_QUESTIONS[complaint] || [];
-      const answeredFields = Object.keys(newState);
-      const currentQuestion = questions.find(q => !answeredFields.includes(q.field));
-      
-      if (currentQuestion) {
-        const answer = parseYesNo(input);
-        if (answer !== null) {
-          newState[currentQuestion.field] = answer;
-          
-          // Critical red flags that need immediate escalation
-          const criticalFlags = ["thunderclap", "nonBlanchingRash", "vomitingBlood", "neurologicalSymptoms", "coughingBlood", "bloodyStools"];
-          if (answer === true && criticalFlags.includes(currentQuestion.field)) {
-            return {
-              newState,
-              newStage: "escalated",
-              response: EMERGENCY_RESPONSE,
-              isEscalation: true,
-              isComplete: true,
-              newRetryCount: 0
-            };
-          }
-          
-          // Get next red flag question
-          const nextQ = getNextQuestion(newState, "red_flags");
-          if (!nextQ.question) {
-            // Move to RAG followup (handled async in routes)
-            newStage = "rag_followup";
-            newState.ragQuestionsAsked = 0;
-            response = ""; // Will be set by async RAG handler
-          } else {
-            response = await generatePatientResponse(input, conversationHistory, newState, newStage) || nextQ.question;
-          }
-        } else {
-          newRetryCount = retryCount + 1;
-          response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getFallbackPrompt("red_flags", retryCount);
-        }
-      } else {
-        // Move to RAG followup (handled async in routes)
-        newStage = "rag_followup";
-        newState.ragQuestionsAsked = 0;
-        response = ""; // Will be set by async RAG handler
-      }
-      break;
-    }
+  observations: (input) => {
+    const readings = parseObservations(input);
+    const tookReadings = Object.keys(readings).length > 0;
+    if (!tookReadings && answerValue(interpretYesNo(input)) !== false) return null;
+    return { ...readings, observationsTaken: tookReadings };
+  },
 
-    case "rag_followup": {
-      // Store the answer to the RAG question
-      const ragCount = (newState.ragQuestionsAsked || 0);
-      newState[`ragAnswer${ragCount}`] = input.trim();
-      newState.ragQuestionsAsked = ragCount + 1;
-      
-      // Check if we should ask more RAG questions (max 3)
-      if (ragCount < 2) {
-        // Will be set by async RAG handler
-        response = "";
-      } else {
-        // Move to context questions
-        newStage = "context_conditions";
-        response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      }
-      break;
-    }
+  // Possible pregnancy is triaged as pregnancy, without asking for a gestation
+  pregnancy: (input, stage) => {
+    const answer = interpretYesNo(input);
+    if (answer.kind === "unsure") return { [stage.field!]: true, pregnancyUncertain: true };
+    return readAnswer(answer, (pregnant) => ({ [stage.field!]: pregnant }));
+  },
 
-    case "context_conditions": {
-      newState.medicalHistory = input.trim() || "None reported";
-      newStage = "context_medications";
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  // "Don't know" is accepted: the gestation-specific questions are then all asked
+  gestation: (input, stage) => {
+    const weeks = parseGestation(input);
+    return weeks === null ? {} : { [stage.field!]: weeks };
+  },
 
-    case "context_medications": {
-      newState.medications = input.trim() || "None";
-      newStage = "context_surgery";
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  red_flags: (input, _stage, state) => {
+    const question = currentRedFlagQuestion(state);
+    if (!question) return {};
+    if (question.answer === "count") return readAnswer(parseCount(input), (n) => ({ [question.field]: n }), UNKNOWN_ANSWER);
+    return readAnswer(interpretYesNo(input), (yes) => ({ [question.field]: yes }), UNKNOWN_ANSWER);
+  },
 
-    case "context_surgery": {
-      newState.previousSurgery = input.trim() || "None";
-      newStage = "functional_eat";
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  rag: (input, _stage, state) => {
+    const asked = state.ragQuestionsAsked || 0;
+    return { [`ragAnswer${asked}`]: input.trim(), ragQuestionsAsked: asked + 1 };
+  },
 
-    case "functional_eat": {
-      const answer = parseYesNo(input);
-      if (answer !== null) {
-        newState.canEatDrink = answer;
-      } else {
-        newState.canEatDrink = !input.toLowerCase().includes("no");
-      }
-      newStage = "functional_move";
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+  // A no starts the interview again (handled in processUserMessage)
+  confirm: (input) => readAnswer(interpretYesNo(input), () => ({})),
+};
 
-    case "functional_move": {
-      const answer = parseYesNo(input);
-      if (answer !== null) {
-        newState.canMove = answer;
-      } else {
-        newState.canMove = !input.toLowerCase().includes("no");
-      }
-      newStage = "functional_activities";
-      response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      break;
-    }
+// Unclear answers to a stage before the interview moves on without one
+const MAX_RETRIES = 3;
 
-    case "functional_activities": {
-      const answer = parseYesNo(input);
-      newState.stoppingActivities = answer === true || input.toLowerCase().includes("yes");
-      newStage = "check_appointment";
-      response = getNextQuestion(newState, newStage).question;
-      break;
-    }
-    
-    case "check_appointment": {
-      const hasAppointment = parseYesNo(input);
-      if (hasAppointment === true) {
-        // They have an appointment, proceed to summary
-        newState.hasAppointment = true;
-        newStage = "summary";
-        response = getNextQuestion(newState, newStage).question;
-      } else {
-        // No appointment - book one and complete
-        newState.hasAppointment = false;
-        newStage = "complete";
-        isComplete = true;
-        response = `I've noted that you don't have an appointment. Based on your symptoms, I will book you an appointment at Royal London Hospital. You will receive a confirmation shortly.\n\nYour case has been recorded and a clinician will review it. If your symptoms get worse before your appointment, please call 111 or go to A&E.\n\nThank you for using our clinical assistant, ${newState.patientName || ''}.`;
-      }
-      break;
-    }
+// What is recorded when the last retry is still unclear: yes/no questions are unknown (or the
+// stage's `unsure` answer), anything else is left unanswered
+function unanswered(stage: FlowStage, state: ChatState): Partial<ChatState> {
+  if (stage.parser === "yes_no") return { [stage.field!]: stage.unsure ?? UNKNOWN_ANSWER };
+  const redFlag = stage.parser === "red_flags" ? currentRedFlagQuestion(state) : undefined;
+  return redFlag ? { [redFlag.field]: UNKNOWN_ANSWER } : {};
+}
 
-    case "collect_name": {
-      const name = input.trim();
-      if (name.length >= 2) {
-        newState.patientName = name;
-        newStage = "collect_age";
-        response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      } else {
-        response = "I need your full name to complete the assessment. Could you please provide your first and last name?";
-        newRetryCount = retryCount + 1;
-      }
-      break;
-    }
+// Executes the interview flow (interviewFlow.json) for one patient message
+export async function processUserMessage(
+  input: string,
+  conversationHistory: ChatMessage[],
+  currentState: ChatState, 
+  currentStage: Stage,
+  retryCount: number = 0
+): Promise<{ newState: ChatState; newStage: Stage; response: string; isEscalation: boolean; isComplete: boolean; newRetryCount: number }> {
+  
+  const newState = { ...currentState };
+  const reply = (newStage: Stage, response: string, isComplete = false) =>
+    ({ newState, newStage, response, isEscalation: false, isComplete, newRetryCount: 0 });
+  const escalate = (newStage: Stage, response: string) =>
+    ({ newState, newStage, response, isEscalation: true, isComplete: true, newRetryCount: 0 });
 
-    case "collect_age": {
-      const age = parseNumber(input);
-      if (age !== null && age > 0 && age < 150) {
-        newState.age = age;
-        newStage = "summary";
-        response = await generatePatientResponse(input, conversationHistory, newState, newStage) || getNextQuestion(newState, newStage).question;
-      } else {
-        response = "I need your age as a number to complete the assessment. How old are you?";
-        newRetryCount = retryCount + 1;
-      }
-      break;
-    }
+  const stage = flowStage(currentStage);
 
-    case "summary": {
-      const confirmed = parseYesNo(input);
-      if (confirmed === true) {
-        newStage = "complete";
-        isComplete = true;
-        response = generateFinalResponse(newState);
-      } else if (confirmed === false) {
-        newStage = "opening";
-        response = "No problem, let's start again. " + getNextQuestion(newState, "opening").question;
-        newState = {}; // Reset state
-      } else {
-        response = "Is the information correct? Please answer yes or no.";
-        newRetryCount = retryCount + 1;
-      }
-      break;
-    }
+  // Check for emergency signs first
+  if (!(stage && YES_NO_PARSERS.has(stage.parser)) && checkEmergencySigns(input)) {
+    return escalate("escalated", mentionsSelfHarm(input) ? `${emergencyResponse(newState)} ${crisisLines(newState)}` : emergencyResponse(newState));
+  }
 
-    default:
-      response = "Thank you for completing the assessment." + SAFETY_NET;
-      isComplete = true;
+  if (!stage) {
+    return reply(currentStage, "Thank you for completing the assessment." + SAFETY_NET, true);
+  }
+
+  // Talk of suicide or self-harm moves to the risk questions, once per session. The
+  // opening description is read first, so the complaint is recorded.
+  if (mentionsSelfHarm(input) && newState.mhReturnStage === undefined && stage.parser !== "complaint") {
+    const { newStage, response } = startMentalHealthCheck(newState, currentStage);
+    return reply(newStage, response);
+  }
+
+  if (stage.parser === "confirm" && answerValue(interpretYesNo(input)) === false) {
+    const opening = firstStage().id;
+    return { ...reply(opening, "No problem, let's start again. " + getNextQuestion({}, opening).question), newState: {} };
+  }
+
+  const redFlag = stage.parser === "red_flags" ? currentRedFlagQuestion(newState) : undefined;
+  const parsed = PARSERS[stage.parser](input, stage, newState);
+  const answer = parsed instanceof Clarification ? null : parsed;
+  const phrase = async (nextStage: Stage, question: string) =>
+    (stage.llm_reply && await generatePatientResponse(input, conversationHistory, newState, nextStage)) || question;
+
+  if (answer === null && retryCount + 1 < (stage.max_retries ?? MAX_RETRIES)) {
+    const response = parsed instanceof Clarification
+      ? parsed.prompt
+      : await phrase(currentStage, retryPrompt(stage, newState, retryCount));
+    return { ...reply(currentStage, response), newRetryCount: retryCount + 1 };
+  }
+  // After the last unclear answer the interview moves on
+  Object.assign(newState, answer ?? unanswered(stage, newState));
+
+  const escalation = redFlag?.critical && newState[redFlag.field] === true
+    ? "emergency"
+    : stage.escalate?.find(e => flowCondition(e.when, newState))?.to;
+  if (escalation === "emergency") return escalate("escalated", emergencyResponse(newState));
+  if (escalation === "mental_health") return escalate("escalated_mental_health", mentalHealthCrisisResponse(newState));
+
+  // Stages that ask more than one question
+  if (stage.parser === "red_flags" && currentRedFlagQuestion(newState)) {
+    return reply(currentStage, await phrase(currentStage, questionText(newState, stage)));
+  }
+  if (stage.parser === "rag" && newState.ragQuestionsAsked < stage.limit!) {
+    return reply(currentStage, ""); // Will be set by async RAG handler
+  }
+
+  const next = transitionFrom(newState, currentStage, navigation(newState));
+  if (next.stage === FLOW_END) {
+    return reply(FLOW_END, next.message ? fillTemplate(next.message, newState) : generateFinalResponse(newState), true);
+  }
+
+  // A mental health complaint, or self-harm in the opening description, goes to the risk
+  // questions before the interview carries on
+  const mentalHealth = complaintsOf(newState).includes(MENTAL_HEALTH_COMPLAINT) ||
+    (stage.parser === "complaint" && mentionsSelfHarm(input));
+  if (mentalHealth && newState.mhReturnStage === undefined) {
+    const { newStage, response } = startMentalHealthCheck(newState, next.stage);
+    return reply(newStage, response);
   }
 
-  return { newState, newStage, response, isEscalation, isComplete, newRetryCount };
+  if (flowStage(next.stage)?.parser === "rag") {
+    // Move to RAG followup (handled async in routes)
+    newState.ragQuestionsAsked = 0;
+    return reply(next.stage, "");
+  }
+
+  const question = getNextQuestion(newState, next.stage).question;
+  if (next.preface) {
+    const preface = fillTemplate(next.preface, newState);
+    return reply(next.stage, preface + (preface.endsWith("\n") ? "" : " ") + question);
+  }
+  // Questions that show the patient a format are always asked as written
+  const asWritten = answer === null || flowStage(next.stage)?.verbatim;
+  return reply(next.stage, asWritten ? question : await phrase(next.stage, question));
 }
 
 function generateFinalResponse(state: ChatState): string {
@@ -1007,47 +765,19 @@ function generateFinalResponse(state: ChatState): string {
   return response;
 }
 
-const GREEN_RECOMMENDATIONS: Record<string, string[]> = {
-  "chest pain": [
-    "Rest and avoid strenuous physical activity",
-    "Monitor your symptoms - if pain worsens or spreads, seek immediate medical attention",
-    "Consider over-the-counter antacids if the pain feels like heartburn",
-    "Keep a symptom diary noting when pain occurs and what triggers it",
-    "Schedule an appointment with your GP within the next few days"
-  ],
-  "shortness of breath": [
-    "Rest in a comfortable position and try to relax",
-    "Practice slow, deep breathing exercises",
-    "Avoid known triggers such as allergens or strenuous activity",
-    "Stay hydrated and keep your environment well-ventilated",
-    "Book an appointment with your GP to discuss your symptoms"
-  ],
-  "abdominal pain": [
-    "Stay hydrated with clear fluids",
-    "Eat light, bland foods if tolerated",
-    "Apply a warm compress to your abdomen for comfort",
-    "Avoid spicy, fatty, or acidic foods",
-    "Rest and monitor your symptoms - see a GP if they persist beyond 24-48 hours"
-  ],
-  "headache": [
-    "Rest in a quiet, dark room",
-    "Stay well hydrated",
-    "Consider over-the-counter pain relief like paracetamol or ibuprofen",
-    "Apply a cold or warm compress to your forehead or neck",
-    "Reduce screen time and take regular breaks from work"
-  ],
-  "fever": [
-    "Rest and get plenty of sleep",
-    "Drink plenty of fluids to stay hydrated",
-    "Take paracetamol or ibuprofen to help reduce temperature",
-    "Wear light clothing and keep your room cool",
-    "Monitor your temperature and seek medical advice if it exceeds 39.4°C (103°F)"
-  ]
-};
-
-export function getGreenRecommendations(complaint: string): string[] {
-  const lowerComplaint = complaint.toLowerCase();
-  return GREEN_RECOMMENDATIONS[lowerComplaint] || [
+// Parents get the NICE green-band advice for a child at home, whatever the complaint
+const PAEDIATRIC_GREEN_RECOMMENDATIONS = [
+  "Offer your child regular drinks, and breast or bottle feeds for babies",
+  "Give children's paracetamol or ibuprofen if they seem distressed, following the dose on the pack",
+  "Check on your child regularly, including during the night",
+  "Look out for signs of dehydration: a dry mouth, no tears, sunken eyes, or fewer wet nappies",
+  "Keep your child off nursery or school while they have a high temperature"
+];
+
+// Self-care advice for every complaint given, without repeats
+export function getGreenRecommendations(complaint: string | string[]): string[] {
+  const advice = (Array.isArray(complaint) ? complaint : [complaint]).flatMap((c) => getComplaint(c)?.self_care ?? []);
+  return advice.length > 0 ? Array.from(new Set(advice)) : [
     "Rest and monitor your symptoms",
     "Stay well hydrated",
     "Take over-the-counter pain relief if needed",
@@ -1056,10 +786,16 @@ export function getGreenRecommendations(complaint: string): string[] {
   ];
 }
 
-export function buildTriageFromChat(state: ChatState) {
-  const answers = {
+export function buildTriageFromChat(state: ChatState, ruleSet: VersionedRuleSet = getActiveRuleSet()) {
+  const answers: Record<string, any> = {
+    // Answers to the interview flow's and the complaint catalogue's questions; the named
+    // fields below win
+    ...Object.fromEntries([...flowFields(), ...catalogueFields()].map((field) => [field, state[field]])),
     complaint: state.complaint || "",
-    age: state.age || 0,
+    complaints: complaintsOf(state),
+    age: state.age,
+    ageMonths: state.ageMonths,
+    paediatric: state.paediatric,
     sex: state.sex || "",
     severity: state.severity || 0,
     onset: state.onset,
@@ -1102,15 +838,58 @@ export function buildTriageFromChat(state: ChatState) {
     wheezing: state.wheezing,
     coughingBlood: state.coughingBlood,
     chestPain: state.chestPain,
+    // Clinical score inputs: home observations, cardiac risk and sore throat answers
+    temperature: state.temperature,
+    oxygenSaturation: state.oxygenSaturation,
+    heartRate: state.heartRate,
+    systolicBp: state.systolicBp,
+    diastolicBp: state.diastolicBp,
+    respiratoryRate: state.respiratoryRate,
+    onOxygen: state.onOxygen,
+    cardiacRiskFactors: state.cardiacRiskFactors,
+    fever: state.fever,
+    tonsilExudate: state.tonsilExudate,
+    tonsilsInflamed: state.tonsilsInflamed,
+    tenderNeckGlands: state.tenderNeckGlands,
+    cough: state.cough,
+    coryza: state.coryza,
+    recentOnset: state.recentOnset,
+    // Paediatric traffic-light answers
+    mottledOrBlue: state.mottledOrBlue,
+    gruntingOrRecession: state.gruntingOrRecession,
+    abnormalCry: state.abnormalCry,
+    bulgingFontanelle: state.bulgingFontanelle,
+    seizure: state.seizure,
+    reducedActivity: state.reducedActivity,
+    poorFeeding: state.poorFeeding,
+    feverFiveDays: state.feverFiveDays,
+    limbProblem: state.limbProblem,
+    greenVomit: state.greenVomit,
+    testicularPain: state.testicularPain,
+    // Mental health risk assessment
+    suicidalThoughts: state.suicidalThoughts,
+    suicidalPlans: state.suicidalPlans,
+    accessToMeans: state.accessToMeans,
+    recentSelfHarm: state.recentSelfHarm,
+    canKeepSafe: state.canKeepSafe,
+    // Pregnancy branch
+    gestationWeeks: state.gestationWeeks,
+    pregnancyUncertain: state.pregnancyUncertain,
+    vaginalBleeding: state.vaginalBleeding,
+    pelvicPain: state.pelvicPain,
+    preEclampsiaSymptoms: state.preEclampsiaSymptoms,
+    reducedFetalMovements: state.reducedFetalMovements,
   };
   
-  const result = evaluateTriage(answers);
+  const result = evaluateTriage(answers, ruleSet);
   
   // Add recommendations for green band
   if (result.riskBand === "Green") {
     return {
       ...result,
-      recommendations: getGreenRecommendations(state.complaint || "")
+      recommendations: state.paediatric
+        ? PAEDIATRIC_GREEN_RECOMMENDATIONS
+        : getGreenRecommendations(complaintsOf(state))
     };
   }
   
@@ -0,0 +1,272 @@
+// Structure-aware chunking for clinical guidelines
+// NICE/CKS documents are organised as headings > numbered recommendations > tables,
+// split across pages. The chunker tracks that structure so every chunk knows which
+// heading path, recommendation numbers and pages it came from, and packs blocks into
+// token-size windows (with overlap) without straddling section boundaries.
+
+export interface ChunkMetadata {
+  chunkIndex: number;
+  headingPath: string[];
+  section: string | null; // deepest numbered heading, e.g. "1.3"
+  recommendations: string[]; // recommendation numbers contained in the chunk, e.g. ["1.3.2"]
+  pageStart: number | null;
+  pageEnd: number | null;
+  tokenCount: number;
+  hasTable: boolean;
+  guideline: string | null; // e.g. "NG185"
+  length: number;
+}
+
+export interface DocumentChunk {
+  text: string;
+  metadata: ChunkMetadata;
+}
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+  guideline?: string | null;
+}
+
+interface Block {
+  text: string;
+  headingPath: string[];
+  page: number | null;
+  recommendation: string | null;
+  isTable: boolean;
+}
+
+const DEFAULT_MAX_TOKENS = 350;
+const DEFAULT_OVERLAP_TOKENS = 50;
+
+// Token counts are approximate: whitespace-separated words
+export function countTokens(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+// Case-sensitive, so clinical text such as "pH 7.2" is not read as a guideline
+const GUIDELINE_CODE = /\b(?:NICE\s?)?(NG|CG|QS|SIGN\s?)\s?(\d{1,4})\b/;
+
+// Guideline code from document name or opening text, e.g. "NICE NG185 ..." -> "NG185"
+export function detectGuidelineCode(...sources: Array<string | null | undefined>): string | null {
+  for (const source of sources) {
+    const match = source?.match(GUIDELINE_CODE);
+    if (match) return `${match[1].replace(/\s/g, "")}${match[2]}`;
+  }
+  return null;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2})?)\.?\s+([A-Z][^.]{1,90})$/;
+// "1. Call 999": a numbered list item, which looks like a heading on its own
+const LIST_ITEM = /^\d{1,2}[.)]\s+\S/;
+const RECOMMENDATION = /^(\d{1,2}\.\d{1,2}\.\d{1,3})\.?\s+\S/;
+const PAGE_HEADER = /^\s*(?:-{2,}|\[)\s*page\s+(\d+)\s*(?:-{2,}|\])\s*$/i;
+const PAGE_FOOTER = /^\s*page\s+(\d+)(?:\s+of\s+\d+)?\s*$/i;
+
+function isTableLine(line: string): boolean {
+  return (line.match(/\|/g) || []).length >= 2 || (line.match(/\t/g) || []).length >= 2;
+}
+
+// A "1." line is a list item, not a section heading, when it sits among other "N." lines or
+// follows a line introducing a list ("If any of these apply:")
+function isListItem(line: string, previous: string | null, next: string | null): boolean {
+  if (!LIST_ITEM.test(line)) return false;
+  return (previous != null && (LIST_ITEM.test(previous) || /:$/.test(previous))) || (next != null && LIST_ITEM.test(next));
+}
+
+function isAllCapsHeading(line: string): boolean {
+  const letters = line.replace(/[^A-Za-z]/g, "");
+  return letters.length >= 4 && line.length <= 80 && letters === letters.toUpperCase() && !/[.:;]$/.test(line);
+}
+
+// Pass 1: lines -> structural blocks with heading path and page attached
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  const headingStack: Array<{ level: number; title: string }> = [];
+  const pages = text.split("\f");
+  const hasFormFeeds = pages.length > 1;
+  let page: number | null = hasFormFeeds ? 1 : null;
+  let current: Block | null = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) blocks.push(current);
+    current = null;
+  };
+  const headingPath = () => headingStack.map(h => h.title);
+  const pushHeading = (level: number, title: string) => {
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+      headingStack.pop();
+    }
+    headingStack.push({ level, title });
+  };
+  const startBlock = (line: string, recommendation: string | null, isTable: boolean) => {
+    current = { text: line, headingPath: headingPath(), page, recommendation, isTable };
+  };
+
+  let previous: string | null = null;
+
+  pages.forEach((pageText, pageIdx) => {
+    if (hasFormFeeds) {
+      flush();
+      page = pageIdx + 1;
+    }
+    const lines = pageText.split(/\r?\n/).map(l => l.trim());
+    lines.forEach((line, lineIdx) => {
+      const block = current as Block | null;
+
+      if (!line) {
+        flush();
+        return;
+      }
+      const next = lines.slice(lineIdx + 1).find(l => l) ?? null;
+      const prev = previous;
+      previous = line;
+
+      // Textual page markers are dropped; they only set the page when the
+      // extractor did not already separate pages with form feeds
+      const header = line.match(PAGE_HEADER);
+      if (header) {
+        flush();
+        if (!hasFormFeeds) page = parseInt(header[1]);
+        return;
+      }
+      const footer = line.match(PAGE_FOOTER);
+      if (footer) {
+        flush();
+        if (!hasFormFeeds) page = parseInt(footer[1]) + 1;
+        return;
+      }
+
+      const md = line.match(MARKDOWN_HEADING);
+      const numbered = !md && !isListItem(line, prev, next) ? line.match(NUMBERED_HEADING) : null;
+      if (numbered) {
+        // Numbered headings also open their section's text, so a misread one loses nothing
+        flush();
+        pushHeading(numbered[1].split(".").length, line);
+        startBlock(line, null, false);
+        return;
+      }
+      if (md || (!block && isAllCapsHeading(line))) {
+        flush();
+        if (md) pushHeading(md[1].length, md[2]);
+        else pushHeading(0, line); // document/part titles sit above numbered sections
+        return;
+      }
+
+      const tableLine = isTableLine(line);
+      const rec = line.match(RECOMMENDATION);
+      if (rec || (block && block.isTable !== tableLine)) {
+        flush();
+        startBlock(line, rec ? rec[1] : null, tableLine);
+      } else if (block) {
+        block.text += "\n" + line;
+      } else {
+        startBlock(line, null, tableLine);
+      }
+    });
+  });
+  flush();
+  return blocks;
+}
+
+function sectionFromPath(path: string[]): string | null {
+  for (let i = path.length - 1; i >= 0; i--) {
+    const match = path[i].match(/^(\d{1,2}(?:\.\d{1,2})*)\b/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+// Split an oversized block into overlapping word windows
+function splitBlock(block: Block, maxTokens: number, overlapTokens: number): Block[] {
+  const separator = block.isTable ? "\n" : " ";
+  const units = block.isTable ? block.text.split("\n") : block.text.split(/\s+/);
+  const parts: Block[] = [];
+  const step = Math.max(1, block.isTable ? Math.floor(maxTokens / 20) : maxTokens - overlapTokens);
+  const size = block.isTable ? step : maxTokens;
+  for (let start = 0; start < units.length; start += step) {
+    parts.push({ ...block, text: units.slice(start, start + size).join(separator) });
+    if (start + size >= units.length) break;
+  }
+  return parts;
+}
+
+// Pass 2: pack blocks into chunks of at most maxTokens within one heading path
+export function chunkDocument(text: string, opts: ChunkOptions = {}): DocumentChunk[] {
+  const maxTokens = opts.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const overlapTokens = Math.min(opts.overlapTokens ?? DEFAULT_OVERLAP_TOKENS, Math.floor(maxTokens / 2));
+  const guideline = opts.guideline ?? null;
+
+  const blocks = parseBlocks(text).flatMap(b =>
+    countTokens(b.text) > maxTokens ? splitBlock(b, maxTokens, overlapTokens) : [b]
+  );
+
+  const chunks: DocumentChunk[] = [];
+  let pending: Block[] = [];
+  let overlap = "";
+
+  const emit = (carryOverlap: boolean) => {
+    if (pending.length === 0) return;
+    const body = pending.map(b => b.text).join("\n\n");
+    const chunkText = overlap ? `${overlap}\n\n${body}` : body;
+    const pages = pending.map(b => b.page).filter((p): p is number => p != null);
+    const path = pending[0].headingPath;
+    chunks.push({
+      text: chunkText,
+      metadata: {
+        chunkIndex: chunks.length,
+        headingPath: path,
+        section: sectionFromPath(path),
+        recommendations: pending.map(b => b.recommendation).filter((r): r is string => r != null),
+        pageStart: pages.length > 0 ? Math.min(...pages) : null,
+        pageEnd: pages.length > 0 ? Math.max(...pages) : null,
+        tokenCount: countTokens(chunkText),
+        hasTable: pending.some(b => b.isTable),
+        guideline,
+        length: chunkText.length,
+      },
+    });
+    // Overlap only carries within a section; tables are never used as overlap
+    const last = pending[pending.length - 1];
+    overlap = carryOverlap && overlapTokens > 0 && !last.isTable
+      ? body.split(/\s+/).slice(-overlapTokens).join(" ")
+      : "";
+    pending = [];
+  };
+
+  for (const block of blocks) {
+    if (pending.length > 0 && !samePath(pending[0].headingPath, block.headingPath)) {
+      emit(false);
+      overlap = "";
+    }
+    const pendingTokens = countTokens(overlap) + pending.reduce((sum, b) => sum + countTokens(b.text), 0);
+    if (pending.length > 0 && pendingTokens + countTokens(block.text) > maxTokens) {
+      emit(true);
+    }
+    pending.push(block);
+  }
+  emit(false);
+
+  return chunks;
+}
+
+// Human-readable citation, e.g. "NG185 §1.3.2, p.14"
+export function formatCitationLabel(docName: string, metadata: Partial<ChunkMetadata> | null | undefined): string {
+  const parts: string[] = [metadata?.guideline || docName];
+  const anchor = metadata?.recommendations?.[0] || metadata?.section;
+  if (anchor) parts[0] += ` §${anchor}`;
+  if (metadata?.pageStart != null) {
+    parts.push(
+      metadata.pageEnd != null && metadata.pageEnd !== metadata.pageStart
+        ? `pp.${metadata.pageStart}–${metadata.pageEnd}`
+        : `p.${metadata.pageStart}`
+    );
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,150 @@
+// Post-generation citation verification
+// Generated explanations must cite retrieved passages inline as [chunk:ID — Source Title].
+// The verifier splits the text into sentences, checks every cited ID was actually
+// retrieved, and measures how much of each sentence's vocabulary appears in the passages
+// it cites. Sentences that cite nothing, cite unknown IDs or are not lexically backed by
+// their citations are reported as unsupported, with character offsets for highlighting.
+
+import { tokenize } from "./embeddings";
+
+// Share of a sentence's content tokens that must appear in a cited passage
+export const SUPPORT_THRESHOLD = 0.5;
+// Sentences with fewer content tokens (headings, "None.", list labels) are not claims
+const MIN_CLAIM_TOKENS = 4;
+
+const CITATION_GROUP = /\[[^\]]*chunk:\s*\d+[^\]]*\]/gi;
+const CHUNK_ID = /chunk:\s*(\d+)/gi;
+
+export type ClaimStatus = "supported" | "unsupported";
+
+export interface CitationClaim {
+  sentence: string;
+  start: number; // character offsets into the verified text
+  end: number;
+  citedChunkIds: number[];
+  invalidChunkIds: number[]; // cited but not among the retrieved chunks
+  support: number; // best token coverage by a valid cited chunk, 0–1
+  status: ClaimStatus;
+  reason: string | null;
+}
+
+export interface CitationVerification {
+  claims: CitationClaim[];
+  supportedCount: number;
+  unsupportedCount: number;
+  invalidChunkIds: number[];
+}
+
+export interface VerifiableChunk {
+  chunkId: number;
+  content: string;
+}
+
+function citedIds(text: string): number[] {
+  const ids: number[] = [];
+  for (const group of text.match(CITATION_GROUP) || []) {
+    for (const match of Array.from(group.matchAll(CHUNK_ID))) {
+      const id = parseInt(match[1]);
+      if (!ids.includes(id)) ids.push(id);
+    }
+  }
+  return ids;
+}
+
+// Sentence spans; a citation that follows the full stop belongs to the sentence before it
+function splitSentences(text: string): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  let start = 0;
+  let i = 0;
+
+  const push = (end: number) => {
+    let s = start;
+    let e = end;
+    while (s < e && /\s/.test(text[s])) s++;
+    while (e > s && /\s/.test(text[e - 1])) e--;
+    if (e > s) spans.push({ start: s, end: e });
+    start = end;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "\n") {
+      push(i);
+      i++;
+      continue;
+    }
+    // "1. " list numbering is not a sentence end
+    const isNumbering = ch === "." && /^\s*\d+$/.test(text.slice(start, i));
+    if (/[.!?]/.test(ch) && !isNumbering && (i + 1 >= text.length || /\s/.test(text[i + 1]))) {
+      let end = i + 1;
+      // Absorb trailing citation groups on the same line
+      for (;;) {
+        const rest = text.slice(end);
+        const lead = rest.match(/^[ \t]*/)![0].length;
+        const next = rest.slice(lead).match(/^\[[^\]]*chunk:\s*\d+[^\]]*\]/i);
+        if (!next) break;
+        end += lead + next[0].length;
+      }
+      push(end);
+      i = end;
+      continue;
+    }
+    i++;
+  }
+  push(text.length);
+  return spans;
+}
+
+function isHeading(sentence: string, hasCitation: boolean): boolean {
+  if (hasCitation) return false;
+  return /^#{1,6}\s/.test(sentence) || /:\s*$/.test(sentence) || (/^\d+\.\s/.test(sentence) && !/[.!?]$/.test(sentence));
+}
+
+export function verifyCitations(text: string, retrievedChunks: VerifiableChunk[]): CitationVerification {
+  const chunkTokens = new Map(retrievedChunks.map(c => [c.chunkId, new Set(tokenize(c.content))]));
+  const claims: CitationClaim[] = [];
+  const allInvalid = new Set<number>();
+
+  for (const { start, end } of splitSentences(text)) {
+    const sentence = text.slice(start, end);
+    const cited = citedIds(sentence);
+    const tokens = Array.from(new Set(tokenize(sentence.replace(CITATION_GROUP, " "))));
+    if (tokens.length < MIN_CLAIM_TOKENS || isHeading(sentence, cited.length > 0)) continue;
+
+    const valid = cited.filter(id => chunkTokens.has(id));
+    const invalid = cited.filter(id => !chunkTokens.has(id));
+    invalid.forEach(id => allInvalid.add(id));
+
+    let support = 0;
+    for (const id of valid) {
+      const vocab = chunkTokens.get(id)!;
+      const covered = tokens.filter(t => vocab.has(t)).length / tokens.length;
+      support = Math.max(support, covered);
+    }
+    support = Math.round(support * 100) / 100;
+
+    let reason: string | null = null;
+    if (cited.length === 0) reason = "No citation";
+    else if (valid.length === 0) reason = `Cited chunk(s) ${invalid.join(", ")} were not retrieved`;
+    else if (support < SUPPORT_THRESHOLD) reason = `Low overlap with cited text (${Math.round(support * 100)}%)`;
+
+    claims.push({
+      sentence,
+      start,
+      end,
+      citedChunkIds: cited,
+      invalidChunkIds: invalid,
+      support,
+      status: reason ? "unsupported" : "supported",
+      reason,
+    });
+  }
+
+  const supportedCount = claims.filter(c => c.status === "supported").length;
+  return {
+    claims,
+    supportedCount,
+    unsupportedCount: claims.length - supportedCount,
+    invalidChunkIds: Array.from(allInvalid),
+  };
+}
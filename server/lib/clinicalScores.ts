@@ -0,0 +1,335 @@
+// Clinical scoring
+// Pure implementations of validated scores, computed from the same snake_case facts the
+// rules engine sees: NEWS2 (general deterioration), CURB-65 / CRB-65 (chest infection),
+// FeverPAIN and Centor (sore throat) and HEART (chest pain). The results are added to the
+// fact map as *_score facts so rules can act on them, and listed in the handoff.
+//
+// Components the patient could not report are scored 0 and listed in `missing`; such a
+// score is a lower bound (complete: false). HEART always has missing components in
+// triage, since history, ECG and troponin need a clinician.
+//
+// Each score is only computed in the age range it was validated for: NEWS2, CRB-65 and
+// HEART are adult scores (16 and over), Centor 15 and over, FeverPAIN 3 and over. Children
+// are assessed against the NICE traffic-light rules instead.
+
+import { presentingComplaints } from "./complaintCatalogue";
+
+export type ClinicalScoreName = "NEWS2" | "CURB-65" | "CRB-65" | "FeverPAIN" | "Centor" | "HEART";
+
+export interface ClinicalScoreComponent {
+  name: string;
+  value: string | number | boolean | null; // null: not reported
+  points: number;
+}
+
+export interface ClinicalScore {
+  name: ClinicalScoreName;
+  score: number;
+  max: number;
+  risk: string; // in the score's own terms, e.g. NEWS2 "low-medium", CRB-65 "intermediate"
+  interpretation: string;
+  complete: boolean;
+  components: ClinicalScoreComponent[];
+  missing: string[];
+}
+
+type Band = [upTo: number, points: number];
+
+// Points for the first band whose upper bound is >= value; the last band catches the rest
+function banded(value: number, bands: Band[], above: number): number {
+  for (const [upTo, points] of bands) if (value <= upTo) return points;
+  return above;
+}
+
+function buildScore(
+  name: ClinicalScoreName,
+  max: number,
+  components: ClinicalScoreComponent[],
+  classify: (score: number) => { risk: string; interpretation: string }
+): ClinicalScore {
+  const score = components.reduce((sum, c) => sum + c.points, 0);
+  const missing = components.filter((c) => c.value === null).map((c) => c.name);
+  return { name, score, max, ...classify(score), complete: missing.length === 0, components, missing };
+}
+
+// A yes/no component worth one point
+function flag(name: string, value: boolean | undefined): ClinicalScoreComponent {
+  return { name, value: value ?? null, points: value ? 1 : 0 };
+}
+
+// --- NEWS2 (Royal College of Physicians, 2017) ---
+
+export interface News2Input {
+  respiratoryRate?: number;
+  spo2?: number;
+  spo2Scale?: 1 | 2; // scale 2 only for confirmed hypercapnic respiratory failure
+  onOxygen?: boolean;
+  systolicBp?: number;
+  pulse?: number;
+  consciousness?: "alert" | "new_confusion" | "voice" | "pain" | "unresponsive";
+  temperature?: number; // °C
+}
+
+function spo2Points(spo2: number, scale: 1 | 2, onOxygen: boolean): number {
+  if (scale === 1) return banded(spo2, [[91, 3], [93, 2], [95, 1]], 0);
+  if (spo2 <= 87) return banded(spo2, [[83, 3], [85, 2]], 1);
+  if (spo2 <= 92 || !onOxygen) return 0;
+  return banded(spo2, [[94, 1], [96, 2]], 3);
+}
+
+export function news2(input: News2Input): ClinicalScore {
+  const { respiratoryRate: rr, spo2, systolicBp: sbp, pulse, consciousness, temperature: temp } = input;
+  const components: ClinicalScoreComponent[] = [
+    { name: "Respiration rate", value: rr ?? null, points: rr == null ? 0 : banded(rr, [[8, 3], [11, 1], [20, 0], [24, 2]], 3) },
+    {
+      name: "SpO2",
+      value: spo2 ?? null,
+      points: spo2 == null ? 0 : spo2Points(spo2, input.spo2Scale ?? 1, input.onOxygen ?? false),
+    },
+    { name: "Air or oxygen", value: input.onOxygen == null ? null : input.onOxygen ? "oxygen" : "air", points: input.onOxygen ? 2 : 0 },
+    { name: "Systolic BP", value: sbp ?? null, points: sbp == null ? 0 : banded(sbp, [[90, 3], [100, 2], [110, 1], [219, 0]], 3) },
+    { name: "Pulse", value: pulse ?? null, points: pulse == null ? 0 : banded(pulse, [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2]], 3) },
+    { name: "Consciousness", value: consciousness ?? null, points: consciousness && consciousness !== "alert" ? 3 : 0 },
+    { name: "Temperature", value: temp ?? null, points: temp == null ? 0 : banded(temp, [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1]], 2) },
+  ];
+
+  const singleRed = components.some((c) => c.points === 3);
+  return buildScore("NEWS2", 20, components, (score) => {
+    if (score >= 7) return { risk: "high", interpretation: "Emergency assessment by a clinical team" };
+    if (score >= 5) return { risk: "medium", interpretation: "Urgent clinical review" };
+    if (singleRed) return { risk: "low-medium", interpretation: "A single parameter scores 3: urgent clinical review" };
+    return { risk: "low", interpretation: "Routine assessment" };
+  });
+}
+
+// --- CURB-65 / CRB-65 (British Thoracic Society) ---
+
+export interface Curb65Input {
+  confusion?: boolean;
+  urea?: number; // mmol/L; without it CRB-65 is used
+  respiratoryRate?: number;
+  systolicBp?: number;
+  diastolicBp?: number;
+  age?: number;
+}
+
+function lowBloodPressure(input: Curb65Input): ClinicalScoreComponent {
+  const { systolicBp: sbp, diastolicBp: dbp } = input;
+  const low = (sbp != null && sbp < 90) || (dbp != null && dbp <= 60);
+  const value = sbp == null && dbp == null ? null : `${sbp ?? "?"}/${dbp ?? "?"}`;
+  return { name: "Systolic BP < 90 or diastolic <= 60", value, points: low ? 1 : 0 };
+}
+
+function crbComponents(input: Curb65Input): ClinicalScoreComponent[] {
+  return [
+    flag("Confusion", input.confusion),
+    { name: "Respiratory rate >= 30", value: input.respiratoryRate ?? null, points: (input.respiratoryRate ?? 0) >= 30 ? 1 : 0 },
+    lowBloodPressure(input),
+    { name: "Age >= 65", value: input.age ?? null, points: (input.age ?? 0) >= 65 ? 1 : 0 },
+  ];
+}
+
+export function curb65(input: Curb65Input & { urea: number }): ClinicalScore {
+  const components = [
+    ...crbComponents(input),
+    { name: "Urea > 7 mmol/L", value: input.urea, points: input.urea > 7 ? 1 : 0 },
+  ];
+  return buildScore("CURB-65", 5, components, (score) => {
+    if (score >= 3) return { risk: "high", interpretation: "High mortality risk: hospital assessment, consider critical care" };
+    if (score === 2) return { risk: "moderate", interpretation: "Moderate mortality risk: consider hospital treatment" };
+    return { risk: "low", interpretation: "Low mortality risk: consider home treatment" };
+  });
+}
+
+export function crb65(input: Curb65Input): ClinicalScore {
+  return buildScore("CRB-65", 4, crbComponents(input), (score) => {
+    if (score >= 3) return { risk: "high", interpretation: "High mortality risk: urgent hospital admission" };
+    if (score >= 1) return { risk: "intermediate", interpretation: "Intermediate mortality risk: consider hospital assessment" };
+    return { risk: "low", interpretation: "Low mortality risk: consider home treatment" };
+  });
+}
+
+// --- FeverPAIN and Centor (NICE NG84) ---
+
+export interface SoreThroatInput {
+  fever?: boolean; // FeverPAIN: in the past 24 hours; Centor: history of fever
+  purulence?: boolean; // pus or exudate on the tonsils
+  attendedRapidly?: boolean; // within 3 days of onset
+  inflamedTonsils?: boolean;
+  cough?: boolean;
+  coryza?: boolean;
+  tenderCervicalNodes?: boolean;
+}
+
+export function feverPain(input: SoreThroatInput): ClinicalScore {
+  const noCoughOrCoryza = input.cough == null && input.coryza == null ? undefined : !input.cough && !input.coryza;
+  const components = [
+    flag("Fever in past 24 hours", input.fever),
+    flag("Purulence", input.purulence),
+    flag("Attend rapidly (3 days or less)", input.attendedRapidly),
+    flag("Severely inflamed tonsils", input.inflamedTonsils),
+    flag("No cough or coryza", noCoughOrCoryza),
+  ];
+  return buildScore("FeverPAIN", 5, components, (score) => {
+    if (score >= 4) return { risk: "high", interpretation: "Streptococcus likely (62-65%): immediate or back-up antibiotic" };
+    if (score >= 2) return { risk: "moderate", interpretation: "Streptococcus 34-40%: consider a back-up antibiotic" };
+    return { risk: "low", interpretation: "Streptococcus unlikely (13-18%): no antibiotic" };
+  });
+}
+
+export function centor(input: SoreThroatInput): ClinicalScore {
+  const components = [
+    flag("Tonsillar exudate", input.purulence),
+    flag("Tender anterior cervical lymph nodes", input.tenderCervicalNodes),
+    flag("History of fever", input.fever),
+    flag("Absence of cough", input.cough == null ? undefined : !input.cough),
+  ];
+  return buildScore("Centor", 4, components, (score) => {
+    if (score >= 3) return { risk: "high", interpretation: "Streptococcus 40-60%: consider an antibiotic" };
+    return { risk: "low", interpretation: "Streptococcus unlikely: no antibiotic" };
+  });
+}
+
+// --- HEART (Six et al., 2008) ---
+
+export interface HeartInput {
+  history?: 0 | 1 | 2; // slightly, moderately, highly suspicious
+  ecg?: 0 | 1 | 2; // normal, non-specific repolarisation, significant ST deviation
+  age?: number;
+  riskFactorCount?: number; // hypertension, hypercholesterolaemia, diabetes, obesity, smoking, family history
+  atheroscleroticDisease?: boolean; // prior MI, PCI/CABG, stroke or peripheral arterial disease
+  troponin?: 0 | 1 | 2; // <= normal limit, 1-3x, > 3x
+}
+
+export function heart(input: HeartInput): ClinicalScore {
+  const { age, riskFactorCount: count, atheroscleroticDisease: disease } = input;
+  let riskPoints = 0;
+  if (disease || (count ?? 0) >= 3) riskPoints = 2;
+  else if ((count ?? 0) >= 1) riskPoints = 1;
+
+  const components: ClinicalScoreComponent[] = [
+    { name: "History", value: input.history ?? null, points: input.history ?? 0 },
+    { name: "ECG", value: input.ecg ?? null, points: input.ecg ?? 0 },
+    { name: "Age", value: age ?? null, points: age == null ? 0 : banded(age, [[44, 0], [64, 1]], 2) },
+    {
+      name: "Risk factors",
+      value: count == null && disease == null ? null : disease ? "known atherosclerotic disease" : count ?? 0,
+      points: riskPoints,
+    },
+    { name: "Troponin", value: input.troponin ?? null, points: input.troponin ?? 0 },
+  ];
+  return buildScore("HEART", 10, components, (score) => {
+    if (score >= 7) return { risk: "high", interpretation: "High risk of a major adverse cardiac event (50-65%)" };
+    if (score >= 4) return { risk: "moderate", interpretation: "Moderate risk of a major adverse cardiac event (12-16%)" };
+    return { risk: "low", interpretation: "Low risk of a major adverse cardiac event (about 2%)" };
+  });
+}
+
+// --- From facts ---
+
+const ADULT_AGE = 16;
+const RESPIRATORY_COMPLAINTS = ["shortness of breath", "fever", "cough", "chest infection"];
+
+function num(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+}
+
+function bool(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+function consciousnessOf(facts: Record<string, any>): News2Input["consciousness"] {
+  const avpu = typeof facts.consciousness === "string" ? facts.consciousness.toLowerCase() : undefined;
+  if (avpu === "alert" || avpu === "new_confusion" || avpu === "voice" || avpu === "pain" || avpu === "unresponsive") {
+    return avpu;
+  }
+  if (facts.confusion === true || facts.altered_mental_state === true) return "new_confusion";
+  if (facts.confusion === false) return "alert";
+  return undefined;
+}
+
+// Scores that apply to these facts. NEWS2 needs at least one measured observation; the
+// others need the complaint they were validated for among the presenting complaints.
+export function computeClinicalScores(facts: Record<string, any>): ClinicalScore[] {
+  const complaints = presentingComplaints(facts);
+  const about = (names: string[]) => names.some((name) => complaints.some((c) => c.includes(name)));
+  const age = num(facts.age_years);
+  const months = num(facts.age_months);
+  // Unknown age is scored as an adult, as before paediatric triage existed
+  const atLeast = (years: number) => (months != null ? months >= years * 12 : age == null || age >= years);
+  const adult = atLeast(ADULT_AGE);
+  const consciousness = consciousnessOf(facts);
+  const scores: ClinicalScore[] = [];
+
+  const vitals: News2Input = {
+    respiratoryRate: num(facts.respiratory_rate),
+    spo2: num(facts.oxygen_saturation),
+    spo2Scale: facts.hypercapnic_respiratory_failure === true ? 2 : 1,
+    onOxygen: bool(facts.on_oxygen),
+    systolicBp: num(facts.systolic_bp),
+    pulse: num(facts.heart_rate),
+    consciousness,
+    temperature: num(facts.temperature),
+  };
+  const { respiratoryRate, spo2, systolicBp, pulse, temperature } = vitals;
+  if (adult && [respiratoryRate, spo2, systolicBp, pulse, temperature].some((v) => v != null)) {
+    scores.push(news2(vitals));
+  }
+
+  if (adult && about(RESPIRATORY_COMPLAINTS)) {
+    const input: Curb65Input = {
+      confusion: consciousness == null ? undefined : consciousness !== "alert",
+      respiratoryRate,
+      systolicBp,
+      diastolicBp: num(facts.diastolic_bp),
+      age,
+    };
+    const urea = num(facts.urea);
+    scores.push(urea != null ? curb65({ ...input, urea }) : crb65(input));
+  }
+
+  if (about(["sore throat", "tonsillitis"])) {
+    const throat: SoreThroatInput = {
+      fever: bool(facts.fever),
+      purulence: bool(facts.tonsil_exudate),
+      attendedRapidly: bool(facts.recent_onset),
+      inflamedTonsils: bool(facts.tonsils_inflamed),
+      cough: bool(facts.cough),
+      coryza: bool(facts.coryza),
+      tenderCervicalNodes: bool(facts.tender_neck_glands),
+    };
+    if (atLeast(3)) scores.push(feverPain(throat));
+    if (atLeast(15)) scores.push(centor(throat));
+  }
+
+  if (adult && about(["chest pain"])) {
+    scores.push(heart({
+      age,
+      riskFactorCount: num(facts.cardiac_risk_factors),
+      atheroscleroticDisease: bool(facts.cardiac_history),
+    }));
+  }
+
+  return scores;
+}
+
+const SCORE_FACTS: Record<ClinicalScoreName, string> = {
+  "NEWS2": "news2_score",
+  "CURB-65": "curb65_score",
+  "CRB-65": "crb65_score",
+  "FeverPAIN": "feverpain_score",
+  "Centor": "centor_score",
+  "HEART": "heart_score",
+};
+
+// Score facts for the rules engine, e.g. { news2_score: 6, news2_single_parameter_3: true }
+export function scoreFacts(scores: ClinicalScore[]): Record<string, number | boolean> {
+  const facts: Record<string, number | boolean> = {};
+  for (const s of scores) {
+    facts[SCORE_FACTS[s.name]] = s.score;
+    if (s.name === "NEWS2") facts.news2_single_parameter_3 = s.components.some((c) => c.points === 3);
+  }
+  return facts;
+}
@@ -0,0 +1,163 @@
+// Complaint catalogue
+// Presenting complaints as data (complaintCatalogue.json): synonyms and body locations for
+// recognising the complaint in free text, the red-flag questions the chat asks (adult and,
+// where they differ, paediatric; an empty paediatric list asks children only the
+// traffic-light questions), Green self-care advice, and the codes of the rules scoped
+// to the complaint. Rules without a complaint scope apply to every complaint and are not
+// listed. The catalogue is parsed and checked once at startup; a malformed entry stops the
+// server rather than silently dropping a complaint's red-flag questions.
+//
+// Matching: names and synonyms match at the start of a word ("cough" matches "coughing",
+// "burn" does not match "heartburn"). Complaint names are taken before synonyms and longer
+// synonyms before shorter ones, and text already matched is not matched again, so "chest
+// infection" is a cough and not also chest pain.
+
+import { z } from "zod";
+import catalogueJson from "./complaintCatalogue.json";
+
+const redFlagQuestionSchema = z.object({
+  question: z.string().min(1),
+  field: z.string().regex(/^[a-z][A-Za-z0-9]*$/, "field must be camelCase"),
+  answer: z.literal("count").optional(), // a number ("none" counts as 0) instead of yes/no
+  critical: z.boolean().optional(), // a yes escalates the chat immediately
+  sex: z.enum(["female", "male"]).optional(), // skipped when the recorded sex is the other one
+});
+
+const complaintSchema = z.object({
+  name: z.string().min(1),
+  synonyms: z.array(z.string().min(1)),
+  locations: z.array(z.string().min(1)),
+  red_flag_questions: z.array(redFlagQuestionSchema),
+  paediatric_red_flag_questions: z.array(redFlagQuestionSchema).optional(),
+  self_care: z.array(z.string().min(1)).min(1),
+  rules: z.array(z.string()),
+});
+
+const catalogueSchema = z.object({ complaints: z.array(complaintSchema).min(1) });
+
+export type CatalogueQuestion = z.infer<typeof redFlagQuestionSchema>;
+export type ComplaintDefinition = z.infer<typeof complaintSchema>;
+
+export function loadComplaintCatalogue(input: unknown): ComplaintDefinition[] {
+  const parsed = catalogueSchema.safeParse(input);
+  if (!parsed.success) {
+    const problems = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    throw new Error(`Invalid complaint catalogue: ${problems}`);
+  }
+
+  const complaints = parsed.data.complaints.map((c) => ({
+    ...c,
+    name: c.name.toLowerCase(),
+    synonyms: c.synonyms.map((s) => s.toLowerCase()),
+    locations: c.locations.map((l) => l.toLowerCase()),
+  }));
+  const names = new Set<string>();
+  for (const c of complaints) {
+    if (names.has(c.name)) throw new Error(`Invalid complaint catalogue: duplicate complaint "${c.name}"`);
+    names.add(c.name);
+    for (const list of [c.red_flag_questions, c.paediatric_red_flag_questions ?? []]) {
+      const fields = list.map((q) => q.field);
+      const repeated = fields.find((f, i) => fields.indexOf(f) !== i);
+      if (repeated) throw new Error(`Invalid complaint catalogue: "${c.name}" asks ${repeated} twice`);
+    }
+  }
+  return complaints;
+}
+
+export const complaintCatalogue: ComplaintDefinition[] = loadComplaintCatalogue(catalogueJson);
+
+export const COMPLAINTS: string[] = complaintCatalogue.map((c) => c.name);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const startsWord = (term: string) => new RegExp(`(?:^|[^a-z])(${escapeRegExp(term)})`);
+const wholeWord = (term: string) => new RegExp(`(?:^|[^a-z])(${escapeRegExp(term)})(?![a-z])`);
+
+interface Mention {
+  complaint: ComplaintDefinition;
+  start: number;
+  end: number;
+  byName: boolean;
+}
+
+function mentionsOf(text: string, terms: (c: ComplaintDefinition) => string[], pattern: (term: string) => RegExp, byName: boolean): Mention[] {
+  const mentions: Mention[] = [];
+  for (const complaint of complaintCatalogue) {
+    for (const term of terms(complaint)) {
+      const match = pattern(term).exec(text);
+      if (!match) continue;
+      const start = match.index + match[0].length - term.length;
+      mentions.push({ complaint, start, end: start + term.length, byName });
+    }
+  }
+  return mentions;
+}
+
+// Names first, then longer synonyms; a mention overlapping one already taken is ignored
+function pickMentions(mentions: Mention[]): ComplaintDefinition[] {
+  const ranked = mentions
+    .map((m, order) => ({ ...m, order }))
+    .sort((a, b) => Number(b.byName) - Number(a.byName) || (b.end - b.start) - (a.end - a.start) || a.order - b.order);
+  const taken: Mention[] = [];
+  for (const m of ranked) {
+    if (taken.some((t) => t.complaint === m.complaint || (m.start < t.end && t.start < m.end))) continue;
+    taken.push(m);
+  }
+  return taken.map((m) => m.complaint);
+}
+
+// Most complaints taken from one description; more would make the interview too long
+export const MAX_COMPLAINTS = 3;
+
+// Every complaint described in free text ("chest pain and a headache"), ranked by
+// catalogue order so the most serious presentation comes first
+export function findComplaints(input: string): ComplaintDefinition[] {
+  const text = input.toLowerCase();
+  const found = pickMentions([
+    ...mentionsOf(text, (c) => [c.name], startsWord, true),
+    ...mentionsOf(text, (c) => c.synonyms, startsWord, false),
+  ]);
+  return complaintCatalogue.filter((c) => found.includes(c)).slice(0, MAX_COMPLAINTS);
+}
+
+// Complaint described in free text, e.g. the opening description
+export function findComplaint(input: string): ComplaintDefinition | null {
+  return findComplaints(input)[0] ?? null;
+}
+
+// Complaint implied by where the problem is, e.g. "my lower back"; descriptions win
+export function findComplaintByLocation(input: string): ComplaintDefinition | null {
+  return findComplaint(input) ?? pickMentions(mentionsOf(input.toLowerCase(), (c) => c.locations, wholeWord, false))[0] ?? null;
+}
+
+export function getComplaint(name: string): ComplaintDefinition | undefined {
+  const lower = name.toLowerCase();
+  return complaintCatalogue.find((c) => c.name === lower);
+}
+
+// Every complaint in a fact map: a chat's ranked `complaints` and the single `complaint`
+// (or free-text chief complaint), lower-cased
+export function presentingComplaints(facts: Record<string, any>): string[] {
+  const listed: unknown[] = Array.isArray(facts.complaints) ? facts.complaints : [];
+  const single = facts.complaint || facts.chief_complaint;
+  return Array.from(new Set([...listed, single].filter(Boolean).map((c) => String(c).toLowerCase())));
+}
+
+// Every answer field a catalogue question can set, for passing answers to the rules engine
+export function catalogueFields(): string[] {
+  const fields = new Set<string>();
+  for (const c of complaintCatalogue) {
+    for (const q of [...c.red_flag_questions, ...(c.paediatric_red_flag_questions ?? [])]) fields.add(q.field);
+  }
+  return Array.from(fields);
+}
+
+// Catalogue rule codes missing from a rule set, e.g. an older published version
+export function missingCatalogueRules(ruleCodes: string[]): Array<{ complaint: string; code: string }> {
+  const known = new Set(ruleCodes);
+  return complaintCatalogue.flatMap((c) =>
+    c.rules.filter((code) => !known.has(code)).map((code) => ({ complaint: c.name, code }))
+  );
+}
@@ -0,0 +1,94 @@
+// Duplicate detection for uploaded documents
+// Exact duplicates are caught by the sha256 checksum of the uploaded bytes. Near-duplicate
+// chunks (the same guideline text re-exported as another format, or repeated boilerplate)
+// are caught with MinHash over word 5-shingles, which estimates Jaccard similarity.
+
+import { createHash } from "crypto";
+
+export const SHINGLE_SIZE = 5;
+export const MINHASH_PERMUTATIONS = 128;
+// Estimated Jaccard similarity at or above which a chunk is treated as a duplicate
+export const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+export interface SkippedChunk {
+  chunkIndex: number;
+  duplicateOfChunkId: number | null; // null when the duplicate is earlier in the same upload
+  duplicateOfDocumentId: number;
+  similarity: number;
+  preview: string;
+}
+
+export interface DuplicateDocumentInfo {
+  documentId: number;
+  name: string;
+  version: number;
+}
+
+export class DuplicateDocumentError extends Error {
+  constructor(
+    message: string,
+    readonly duplicateOf: DuplicateDocumentInfo | null,
+    readonly skipped: SkippedChunk[] = []
+  ) {
+    super(message);
+    this.name = "DuplicateDocumentError";
+  }
+}
+
+// Case, punctuation and whitespace differences between exports should not matter
+function shingles(text: string): string[] {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (words.length <= SHINGLE_SIZE) return words.length > 0 ? [words.join(" ")] : [];
+  const out = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    out.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return Array.from(out);
+}
+
+// Each permutation is simulated as h1 + i * h2 (Kirsch–Mitzenmacher double hashing)
+export function minhashSignature(text: string): number[] {
+  const signature = new Array<number>(MINHASH_PERMUTATIONS).fill(0xffffffff);
+  for (const shingle of shingles(text)) {
+    const digest = createHash("md5").update(shingle).digest();
+    const h1 = digest.readUInt32LE(0);
+    const h2 = digest.readUInt32LE(4) | 1;
+    for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+      const h = (h1 + Math.imul(i, h2)) >>> 0;
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+export function estimateJaccard(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+export interface SignatureEntry {
+  chunkId: number | null;
+  documentId: number;
+  signature: number[];
+}
+
+// Best match at or above the threshold, if any. Linear scan: the knowledge base is
+// a few thousand chunks at most, so banded LSH is not worth its complexity yet.
+export function findNearDuplicate(
+  signature: number[],
+  candidates: SignatureEntry[],
+  threshold: number = NEAR_DUPLICATE_THRESHOLD
+): { entry: SignatureEntry; similarity: number } | null {
+  let best: { entry: SignatureEntry; similarity: number } | null = null;
+  for (const entry of candidates) {
+    const similarity = estimateJaccard(signature, entry.signature);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { entry, similarity };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,172 @@
+// Text extraction for uploaded guideline documents
+// Detects the format from magic bytes / filename / declared mime type and extracts
+// plain text that the chunker understands: pages separated by form feeds and
+// headings rendered as markdown "#" lines. Everything runs in-process (pure JS).
+
+import { createHash } from "crypto";
+import { extractText, getDocumentProxy } from "unpdf";
+import mammoth from "mammoth";
+
+export type DocumentFormat = "pdf" | "docx" | "html" | "markdown" | "text";
+
+export interface ExtractionResult {
+  format: DocumentFormat;
+  mimeType: string;
+  text: string;
+  pageCount: number | null;
+  checksum: string; // sha256 of the uploaded bytes
+  warnings: string[];
+}
+
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedDocumentError";
+  }
+}
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  html: "text/html",
+  markdown: "text/markdown",
+  text: "text/plain",
+};
+
+// Less text than this per page usually means a scanned (image-only) document
+const MIN_CHARS_PER_PAGE = 20;
+
+export function checksumOf(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+function looksBinary(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 4096);
+  let control = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte === 0) return true;
+    if (byte < 9 || (byte > 13 && byte < 32)) control++;
+  }
+  return sample.length > 0 && control / sample.length > 0.1;
+}
+
+export function detectFormat(buffer: Buffer, filename: string, declaredMime?: string): DocumentFormat {
+  const ext = filename.toLowerCase().split(".").pop() || "";
+  const head = buffer.subarray(0, 1024).toString("latin1");
+
+  if (head.startsWith("%PDF-")) return "pdf";
+  if (head.startsWith("PK\u0003\u0004")) {
+    // DOCX is a zip container; the main part lives at word/document.xml
+    if (ext === "docx" || declaredMime === MIME_TYPES.docx || buffer.includes("word/document.xml")) return "docx";
+    throw new UnsupportedDocumentError(`Unsupported archive format for "${filename}". Upload PDF, DOCX, HTML, Markdown or plain text.`);
+  }
+  if (looksBinary(buffer)) {
+    throw new UnsupportedDocumentError(`"${filename}" appears to be a binary file that is not PDF or DOCX.`);
+  }
+  if (ext === "html" || ext === "htm" || declaredMime === "text/html" || /<!doctype html|<html[\s>]/i.test(head)) return "html";
+  if (ext === "md" || ext === "markdown" || declaredMime === "text/markdown") return "markdown";
+  return "text";
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", ndash: "–", mdash: "—",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", bull: "•", hellip: "…", deg: "°", micro: "µ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+// HTML -> text with markdown headings, "- " list items and "| a | b |" table rows
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|head|nav|footer)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_m, level: string, inner: string) =>
+      `\n\n${"#".repeat(Number(level))} ${inner.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim()}\n\n`)
+    .replace(/<tr[^>]*>/gi, "\n|")
+    .replace(/<\/t[dh]>/gi, " |")
+    .replace(/<\/table>/gi, "\n\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|ul|ol|blockquote|pre)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map(line => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function extractPdf(buffer: Buffer, warnings: string[]): Promise<{ text: string; pageCount: number }> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const emptyPages = text
+    .map((pageText, idx) => (pageText.trim().length < MIN_CHARS_PER_PAGE ? idx + 1 : null))
+    .filter((p): p is number => p != null);
+  if (emptyPages.length === totalPages) {
+    warnings.push("No extractable text found; the PDF may be scanned images. OCR is not supported.");
+  } else if (emptyPages.length > 0) {
+    warnings.push(`No extractable text on page(s) ${emptyPages.join(", ")}; they may be scanned images.`);
+  }
+  // Form feeds let the chunker attribute chunks to pages
+  return { text: text.join("\f"), pageCount: totalPages };
+}
+
+async function extractDocx(buffer: Buffer, warnings: string[]): Promise<string> {
+  // HTML conversion keeps Word heading styles, which become markdown headings
+  const result = await mammoth.convertToHtml({ buffer });
+  for (const message of result.messages) {
+    warnings.push(`DOCX ${message.type}: ${message.message}`);
+  }
+  return htmlToText(result.value);
+}
+
+export async function extractDocumentText(buffer: Buffer, filename: string, declaredMime?: string): Promise<ExtractionResult> {
+  const format = detectFormat(buffer, filename, declaredMime);
+  const warnings: string[] = [];
+  let text: string;
+  let pageCount: number | null = null;
+
+  switch (format) {
+    case "pdf": {
+      const pdf = await extractPdf(buffer, warnings);
+      text = pdf.text;
+      pageCount = pdf.pageCount;
+      break;
+    }
+    case "docx":
+      text = await extractDocx(buffer, warnings);
+      break;
+    case "html":
+      text = htmlToText(buffer.toString("utf-8"));
+      break;
+    default:
+      text = buffer.toString("utf-8");
+      if (text.includes("\uFFFD")) {
+        warnings.push("File is not valid UTF-8; some characters could not be decoded.");
+      }
+  }
+
+  if (!text.replace(/\f/g, "").trim()) {
+    warnings.push("No text could be extracted from this document.");
+  }
+
+  return {
+    format,
+    mimeType: MIME_TYPES[format],
+    text,
+    pageCount,
+    checksum: checksumOf(buffer),
+    warnings,
+  };
+}
@@ -0,0 +1,154 @@
+// Embedding providers for RAG retrieval
+// A provider turns text into a fixed-length vector; chunks are embedded on ingest
+// and ranked against the query vector by cosine similarity.
+//
+// EMBEDDING_PROVIDER=local (default) uses a deterministic hashed bag-of-n-grams
+// model so retrieval works offline and gives identical vectors run to run.
+// EMBEDDING_PROVIDER=llm (or openai) uses the embeddings endpoint of the configured LLM
+// provider and its embedding model (see llm.ts).
+
+import { createHash } from "crypto";
+import { getLlmProvider, type LlmProvider } from "./llm";
+
+export interface EmbeddingProvider {
+  // Stored on each chunk so vectors from a different provider are re-embedded
+  readonly id: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Lay terms patients (and guideline authors) use interchangeably. Each phrase is
+// rewritten to a canonical token before hashing so e.g. "breathless" and
+// "shortness of breath" land on the same feature.
+const CLINICAL_SYNONYMS: Array<[RegExp, string]> = [
+  [/\b(short(ness)? of breath|breathless(ness)?|out of breath|can'?t breathe|difficulty breathing|dyspnoea|dyspnea|sob)\b/g, " dyspnoea "],
+  [/\b(chest (pain|tightness|pressure)|angina)\b/g, " chestpain "],
+  [/\b(tummy|stomach|belly|abdominal|abdomen)\b/g, " abdomen "],
+  [/\b(high temperature|pyrexia|febrile|fever(ish)?)\b/g, " fever "],
+  [/\b(head ?ache|cephalgia|migraine)\b/g, " headache "],
+  [/\b(faint(ed|ing)?|collaps(e|ed|ing)|passed out|syncope|blackout)\b/g, " syncope "],
+  [/\b(vomit(ing)?|being sick|throwing up|emesis)\b/g, " vomiting "],
+  [/\b(confus(ed|ion)|disorientat(ed|ion)|delirium)\b/g, " confusion "],
+  [/\b(heart attack|myocardial infarction|acs|acute coronary syndrome)\b/g, " mi "],
+  [/\b(stroke|cva|tia|transient ischaemic attack)\b/g, " stroke "],
+];
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "were", "with", "you", "your", "i", "my",
+]);
+
+function normaliseText(text: string): string {
+  let out = text.toLowerCase();
+  for (const [pattern, canonical] of CLINICAL_SYNONYMS) {
+    out = out.replace(pattern, canonical);
+  }
+  return out;
+}
+
+export function tokenize(text: string): string[] {
+  return normaliseText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function hashFeature(feature: string, dimensions: number): { index: number; sign: number } {
+  const digest = createHash("md5").update(feature).digest();
+  const index = digest.readUInt32LE(0) % dimensions;
+  // Signed hashing keeps collisions from only ever adding weight
+  const sign = (digest[4] & 1) === 0 ? 1 : -1;
+  return { index, sign };
+}
+
+// Hashed TF bag of word unigrams, word bigrams and character trigrams.
+// Character trigrams give partial credit for morphology ("breath" / "breathing").
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(readonly dimensions: number = 512) {
+    this.id = `local-hashed-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(t => this.embedOne(t));
+  }
+
+  embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    };
+
+    tokens.forEach((token, i) => {
+      add(`w:${token}`, 1);
+      if (i > 0) add(`b:${tokens[i - 1]}_${token}`, 0.5);
+      const padded = `#${token}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    counts.forEach((tf, feature) => {
+      const { index, sign } = hashFeature(feature, this.dimensions);
+      // Sublinear TF damps long chunks that repeat the same term
+      vector[index] += sign * (1 + Math.log(tf + 1));
+    });
+
+    return l2Normalise(vector);
+  }
+}
+
+// Embeddings from the configured LLM provider (OpenAI or a local OpenAI-compatible server).
+// The vector length depends on its embedding model, so it is taken from the vectors returned
+// (0 until the first call).
+export class LlmEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  dimensions = 0;
+
+  constructor(private readonly llm: LlmProvider) {
+    this.id = `${llm.providerName}-${llm.embeddingModel}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const vectors = await this.llm.embed(texts);
+    if (vectors.length > 0) this.dimensions = vectors[0].length;
+    return vectors;
+  }
+}
+
+function l2Normalise(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+let provider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    const useLlm = process.env.EMBEDDING_PROVIDER === "llm" || process.env.EMBEDDING_PROVIDER === "openai";
+    provider = useLlm ? new LlmEmbeddingProvider(getLlmProvider()) : new HashedNgramEmbeddingProvider();
+  }
+  return provider;
+}
+
+// Allows swapping the provider (e.g. in scripts) without touching env
+export function setEmbeddingProvider(next: EmbeddingProvider): void {
+  provider = next;
+}
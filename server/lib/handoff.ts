@@ -1,17 +1,15 @@
 // Handoff generation for receptionist/clinician view
 // Generates structured one-page clinical handoff from chat session
 
-import { openai } from "../replit_integrations/image/client";
-import { evaluateTriage } from "./rules";
+import { getLlmProvider } from "./llm";
+import { rethrowCassetteMiss } from "./llmCassette";
+import { evaluateRules, evaluateTriage, getActiveRuleSet, toFacts, type RuleMatch, type VersionedRuleSet } from "./rules";
+import { computeClinicalScores, type ClinicalScore } from "./clinicalScores";
+import { getComplaint, presentingComplaints } from "./complaintCatalogue";
+import { MENTAL_HEALTH_FINDINGS, mentalHealthRisk, type MentalHealthRisk } from "./mentalHealth";
 import { retrieveRelevantChunks } from "./rag";
 import { storage } from "../storage";
-import type { ChatState, ChatMessage } from "@shared/schema";
-import * as fs from "fs";
-import * as path from "path";
-
-// Load red flag rules
-const redFlagRulesPath = path.join(__dirname, "redFlagRules.json");
-const redFlagRules = JSON.parse(fs.readFileSync(redFlagRulesPath, "utf-8"));
+import { UNKNOWN_ANSWER, type ChatState, type ChatMessage } from "@shared/schema";
 
 // Reliability: confidence thresholds (higher = less hallucination risk).
 // Tune CONFIDENCE_CRITICAL (default 70) if you want stricter LLM fact acceptance for red-flag–related fields.
@@ -22,7 +20,9 @@ const CONFIDENCE_DEFAULT = 50;   // for non-critical facts
 const CRITICAL_FACT_KEYS = [
   "severity_score", "chest_pain", "shortness_of_breath", "collapse", "confusion",
   "severe_bleeding", "fainting", "face_droop", "arm_weakness", "speech_difficulty",
-  "thunderclap", "neck_stiffness", "non_blanching_rash", "vomiting_blood", "pregnant_possible", "fever"
+  "thunderclap", "neck_stiffness", "non_blanching_rash", "vomiting_blood", "pregnant_possible", "fever",
+  "vaginal_bleeding", "reduced_fetal_movements", "suicidal_thoughts", "suicidal_plans", "recent_self_harm",
+  "can_keep_safe"
 ];
 
 // Map chat state (camelCase) to fact keys used by red-flag rules (snake_case)
@@ -32,6 +32,7 @@ function deterministicFactsFromState(state: Record<string, any>): Record<string,
   if (state.sex != null) m.sex = state.sex;
   if (state.complaint != null) m.chief_complaint = state.complaint;
   if (state.openingDescription != null && !m.chief_complaint) m.chief_complaint = state.openingDescription;
+  if (state.complaints != null) m.complaints = state.complaints;
   if (state.onset != null) m.onset = state.onset;
   if (state.duration != null) m.duration = state.duration;
   if (state.severity != null) m.severity_score = state.severity;
@@ -47,7 +48,13 @@ function deterministicFactsFromState(state: Record<string, any>): Record<string,
   if (state.nonBlanchingRash != null) m.non_blanching_rash = state.nonBlanchingRash;
   if (state.vomitingBlood != null) m.vomiting_blood = state.vomitingBlood;
   if (state.pregnancy != null) m.pregnant_possible = state.pregnancy;
+  if (state.gestationWeeks != null) m.gestation_weeks = state.gestationWeeks;
+  if (state.vaginalBleeding != null) m.vaginal_bleeding = state.vaginalBleeding;
   if (state.fever != null) m.fever = state.fever;
+  if (state.suicidalThoughts != null) m.suicidal_thoughts = state.suicidalThoughts;
+  if (state.suicidalPlans != null) m.suicidal_plans = state.suicidalPlans;
+  if (state.recentSelfHarm != null) m.recent_self_harm = state.recentSelfHarm;
+  if (state.canKeepSafe != null) m.can_keep_safe = state.canKeepSafe;
   return m;
 }
 
@@ -101,6 +108,117 @@ export interface HandoffJson {
     safety_net: string;
   };
   summary_for_reception: string;
+  // Set by the server, not the model: clinical scores computed from the reported answers
+  scores: ClinicalScore[];
+  // Set by the server, not the model: each presenting complaint, primary first, with the
+  // answers to its own red flag questions
+  presenting_complaints: Array<{
+    complaint: string;
+    primary: boolean;
+    positives: string[];
+    negatives: string[];
+  }>;
+  // Set by the server, not the model: suicide and self-harm risk assessment (null if never
+  // asked). Kept apart from the red flags so it can be routed to mental health services.
+  mental_health: {
+    risk: MentalHealthRisk;
+    crisis_escalation: boolean; // the chat ended with crisis line information
+    positives: string[];
+    negatives: string[];
+  } | null;
+  // Set by the server, not the model: pregnancy screening answers (null if never asked)
+  pregnancy: {
+    status: "pregnant" | "possibly pregnant" | "not pregnant";
+    gestation_weeks: number | null;
+    trimester: 1 | 2 | 3 | null;
+    positives: string[];
+    negatives: string[];
+  } | null;
+  // Set by the server, not the model: answers the patient went back and changed, with the
+  // answer they first gave
+  answer_corrections: Array<{ question: string; previous_answer: string }>;
+  // Set by the server, not the model: which rules produced the category and red flags
+  provenance: {
+    rules_version: number;
+    rules_hash: string;
+    fired_rules: string[];
+    model: string | null;
+    generated_at: string;
+  };
+}
+
+// Pregnancy answers listed in the handoff, in the order they are asked
+const PREGNANCY_FINDINGS: Array<[field: string, label: string]> = [
+  ["vaginalBleeding", "Vaginal bleeding"],
+  ["pelvicPain", "Lower abdominal or shoulder-tip pain"],
+  ["preEclampsiaSymptoms", "Pre-eclampsia symptoms (severe headache, visual disturbance, epigastric pain or sudden swelling)"],
+  ["reducedFetalMovements", "Reduced or changed fetal movements"],
+];
+
+function pregnancySection(state: ChatState): HandoffJson["pregnancy"] {
+  if (state.pregnancy == null) return null;
+  if (state.pregnancy !== true) {
+    return { status: "not pregnant", gestation_weeks: null, trimester: null, positives: [], negatives: [] };
+  }
+  const weeks: number | null = state.gestationWeeks ?? null;
+  const positives = PREGNANCY_FINDINGS.filter(([field]) => state[field] === true).map(([, label]) => label);
+  const negatives = PREGNANCY_FINDINGS.filter(([field]) => state[field] === false).map(([, label]) => label);
+  if (state.systolicBp !== undefined) {
+    const bp = `Blood pressure ${state.systolicBp}/${state.diastolicBp ?? "?"}`;
+    (state.systolicBp >= 140 || (state.diastolicBp ?? 0) >= 90 ? positives : negatives).push(bp);
+  }
+  return {
+    status: state.pregnancyUncertain ? "possibly pregnant" : "pregnant",
+    gestation_weeks: weeks,
+    trimester: weeks === null ? null : weeks < 14 ? 1 : weeks < 28 ? 2 : 3,
+    positives,
+    negatives,
+  };
+}
+
+// "nonBlanchingRash" -> "Non blanching rash"
+function fieldLabel(field: string): string {
+  const words = field.replace(/[A-Z]/g, (c) => ` ${c.toLowerCase()}`);
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// "non_blanching_rash" -> "Non blanching rash"
+function factLabel(fact: string): string {
+  const words = fact.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function presentingComplaintsSection(state: ChatState): HandoffJson["presenting_complaints"] {
+  return presentingComplaints(state).map((name, index) => {
+    const complaint = getComplaint(name);
+    const questions = (state.paediatric ? complaint?.paediatric_red_flag_questions : undefined) ?? complaint?.red_flag_questions ?? [];
+    const positives: string[] = [];
+    const negatives: string[] = [];
+    for (const q of questions) {
+      const answer = state[q.field];
+      if (typeof answer === "number") (answer > 0 ? positives : negatives).push(`${fieldLabel(q.field)}: ${answer}`);
+      else if (answer === true) positives.push(fieldLabel(q.field));
+      else if (answer === false) negatives.push(fieldLabel(q.field));
+    }
+    return { complaint: name, primary: index === 0, positives, negatives };
+  });
+}
+
+function answerCorrectionsSection(messages: ChatMessage[]): HandoffJson["answer_corrections"] {
+  return messages.flatMap((m) => m.correction
+    ? [{ question: m.correction.question, previous_answer: m.correction.previousAnswer }]
+    : []);
+}
+
+function mentalHealthSection(state: ChatState): HandoffJson["mental_health"] {
+  const risk = mentalHealthRisk(state);
+  if (risk === null) return null;
+  return {
+    risk,
+    crisis_escalation: risk === "high",
+    positives: MENTAL_HEALTH_FINDINGS.filter(([field, , worrying]) => state[field] === worrying).map(([, label]) => label),
+    negatives: MENTAL_HEALTH_FINDINGS.filter(([field, , worrying]) => state[field] === !worrying).map(([, label]) => label),
+  };
 }
 
 // Facts extraction prompt
@@ -127,7 +245,10 @@ Fact keys to consider include:
 chief_complaint, onset, duration, progression, severity_score, location, associated_symptoms,
 chest_pain, shortness_of_breath, fever, vomiting, bleeding, fainting,
 face_droop, arm_weakness, speech_difficulty,
-pregnant_possible, age_years, allergies, current_meds, relevant_history`;
+pregnant_possible, gestation_weeks, vaginal_bleeding, reduced_fetal_movements,
+suicidal_thoughts, suicidal_plans, recent_self_harm, can_keep_safe,
+age_years, allergies, current_meds, relevant_history,
+temperature, oxygen_saturation, heart_rate, systolic_bp, diastolic_bp, respiratory_rate (numbers, only if the patient gave a reading)`;
 
 // Handoff generation prompt
 const HANDOFF_GENERATION_PROMPT = `You generate a structured clinical handoff for a receptionist or clinician.
@@ -139,6 +260,7 @@ You must:
 - Highlight what was not assessed.
 - Keep it concise and clinically useful.
 - Use the provided rules_engine_category as the primary severity category. AI suggested category is secondary.
+- If there are several presenting complaints, name all of them in chief_complaint, primary first.
 
 Return JSON only exactly matching this schema:
 {
@@ -192,7 +314,7 @@ export async function extractFactsFromMessages(
   opts?: ExtractFactsOpts
 ): Promise<Record<string, any>> {
   const patientMessages = messages
-    .filter(m => m.role === "user")
+    .filter(m => m.role === "user" && !m.superseded)
     .map(m => m.content)
     .join("\n");
 
@@ -204,25 +326,19 @@ export async function extractFactsFromMessages(
   }
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: FACTS_EXTRACTION_PROMPT },
-        {
-          role: "user",
-          content: `Extract facts from this patient conversation:\n\n${patientMessages}\n\nExisting facts: ${JSON.stringify(deterministic)}`
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.1,
-      max_tokens: 1000
-    });
-
-    const result = JSON.parse(response.choices[0]?.message?.content || "{}");
+    const result: Record<string, any> = await getLlmProvider().chatJson([
+      { role: "system", content: FACTS_EXTRACTION_PROMPT },
+      {
+        role: "user",
+        content: `Extract facts from this patient conversation:\n\n${patientMessages}\n\nExisting facts: ${JSON.stringify(deterministic)}`
+      }
+    ], { temperature: 0.1, maxTokens: 1000, purpose: "fact_extraction" });
     const sessionId = opts?.sessionId;
 
     if (result.facts) {
       for (const fact of result.facts) {
+        // The patient said they did not know: the model is not allowed to guess the answer
+        if (deterministic[fact.key] === UNKNOWN_ANSWER) continue;
         const threshold = CRITICAL_FACT_KEYS.includes(fact.key) ? CONFIDENCE_CRITICAL : CONFIDENCE_DEFAULT;
         if (fact.confidence < threshold) continue;
         const mustValidate = CRITICAL_FACT_KEYS.includes(fact.key) && typeof fact.value !== "boolean";
@@ -237,6 +353,7 @@ export async function extractFactsFromMessages(
 
     if (result.negations) {
       for (const neg of result.negations) {
+        if (deterministic[neg.key] === UNKNOWN_ANSWER) continue;
         const threshold = CRITICAL_FACT_KEYS.includes(neg.key) ? CONFIDENCE_CRITICAL : CONFIDENCE_DEFAULT;
         if (neg.confidence < threshold) continue;
         facts[neg.key] = false;
@@ -245,77 +362,38 @@ export async function extractFactsFromMessages(
 
     return facts;
   } catch (error) {
+    rethrowCassetteMiss(error);
     console.error("Error extracting facts:", error);
     return facts;
   }
 }
 
-// Evaluate red flags using rules engine
-export function evaluateRedFlags(facts: Record<string, any>): {
+// Red flags for the handoff, from the same rule set that sets the submission risk band
+export function evaluateRedFlags(
+  facts: Record<string, any>,
+  ruleSet: VersionedRuleSet = getActiveRuleSet()
+): {
   triggered: Array<{ code: string; label: string; evidence: string }>;
   notTriggered: string[];
   notAssessed: string[];
 } {
-  const triggered: Array<{ code: string; label: string; evidence: string }> = [];
-  const notTriggered: string[] = [];
-  const notAssessed: string[] = [];
-
-  for (const rule of redFlagRules.red_flags) {
-    let matches = false;
-
-    // Check criteria_all (all must match)
-    if (rule.criteria_all) {
-      matches = rule.criteria_all.every(criterion => {
-        const factValue = facts[criterion.fact];
-        if (criterion.op === "eq") {
-          return factValue === criterion.value;
-        } else if (criterion.op === "gte") {
-          return typeof factValue === "number" && factValue >= criterion.value;
-        } else if (criterion.op === "lte") {
-          return typeof factValue === "number" && factValue <= criterion.value;
-        }
-        return false;
-      });
-    }
+  const result = evaluateRules(facts, ruleSet.definition);
+  const red = (r: RuleMatch) => r.severity === "RED";
+  const unknown = new Set(result.unknown.map(r => r.code));
+  // Questions the patient could not answer are listed first, so they can be asked again
+  const unknownAnswers = Object.entries(toFacts(facts))
+    .filter(([, value]) => value === UNKNOWN_ANSWER)
+    .map(([key]) => `${factLabel(key)}: patient did not know`);
 
-    // Check criteria_any (any must match)
-    if (rule.criteria_any && !matches) {
-      matches = rule.criteria_any.some(criterion => {
-        const factValue = facts[criterion.fact];
-        if (criterion.op === "eq") {
-          return factValue === criterion.value;
-        } else if (criterion.op === "gte") {
-          return typeof factValue === "number" && factValue >= criterion.value;
-        } else if (criterion.op === "lte") {
-          return typeof factValue === "number" && factValue <= criterion.value;
-        }
-        return false;
-      });
-    }
-
-    if (matches) {
-      triggered.push({
-        code: rule.code,
-        label: rule.label,
-        evidence: rule.evidence_prompt
-      });
-    } else {
-      // Check if we have the facts to evaluate this rule
-      const requiredFacts = [
-        ...(rule.criteria_all || []).map(c => c.fact),
-        ...(rule.criteria_any || []).map(c => c.fact)
-      ];
-      const hasFacts = requiredFacts.some(fact => fact in facts);
-      
-      if (hasFacts) {
-        notTriggered.push(rule.label);
-      } else {
-        notAssessed.push(rule.label);
-      }
-    }
-  }
-
-  return { triggered, notTriggered, notAssessed };
+  return {
+    triggered: result.fired.filter(red).map(r => ({ code: r.code, label: r.label, evidence: r.evidence })),
+    notTriggered: result.notTriggered.filter(red).map(r => r.label),
+    notAssessed: [
+      ...result.unknown.filter(red).map(r => `${r.label} (not ruled out: patient did not know)`),
+      ...unknownAnswers,
+      ...result.notAssessed.filter(r => red(r) && !unknown.has(r.code)).map(r => r.label),
+    ],
+  };
 }
 
 // Generate handoff JSON
@@ -325,7 +403,8 @@ export async function generateHandoff(
   messages: ChatMessage[],
   triggeredRedFlags: Array<{ code: string; label: string; evidence: string }>,
   notTriggered: string[],
-  notAssessed: string[]
+  notAssessed: string[],
+  ruleSet: VersionedRuleSet = getActiveRuleSet()
 ): Promise<HandoffJson> {
   // Get RAG chunks for context
   const complaint = state.complaint || "";
@@ -345,42 +424,59 @@ export async function generateHandoff(
   const ragSnippets = ragChunks.map(c => c.content).join("\n\n---\n\n");
 
   // Run rules engine to get severity
-  const triageResult = evaluateTriage(answers);
+  const triageResult = evaluateTriage(answers, ruleSet);
+  const provenance = (model: string | null): HandoffJson["provenance"] => ({
+    rules_version: triageResult.rulesVersion,
+    rules_hash: triageResult.rulesHash,
+    fired_rules: Array.from(new Set([...triageResult.firedRules, ...triggeredRedFlags.map(rf => rf.code)])),
+    model,
+    generated_at: new Date().toISOString(),
+  });
   const rulesSeverity = triageResult.riskBand.toUpperCase() as "GREEN" | "AMBER" | "RED";
+  const scores = computeClinicalScores(toFacts(answers));
+  const presentingComplaintList = presentingComplaintsSection(state);
+  const mentalHealth = mentalHealthSection(state);
+  const pregnancy = pregnancySection(state);
+  const answerCorrections = answerCorrectionsSection(messages);
 
   // Generate handoff with LLM
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: HANDOFF_GENERATION_PROMPT },
-        {
-          role: "user",
-          content: `Generate handoff JSON for this clinical assistant session.
+    const llm = getLlmProvider();
+    const handoff = await llm.chatJson<HandoffJson>([
+      { role: "system", content: HANDOFF_GENERATION_PROMPT },
+      {
+        role: "user",
+        content: `Generate handoff JSON for this clinical assistant session.
 
 Presenting complaint facts (JSON):
 ${factsJson}
 
+Presenting complaints, primary first, with their red flag answers (JSON):
+${JSON.stringify(presentingComplaintList, null, 2)}
+
 Triggered red flags from rules engine (JSON):
 ${triggeredFlagsJson}
 
 Not assessed items (array):
 ${notAssessedJson}
 
+Clinical scores computed by the server (JSON; a score with complete=false is a lower bound):
+${JSON.stringify(scores, null, 2)}
+
+Mental health risk assessment (JSON; null if not asked):
+${JSON.stringify(mentalHealth, null, 2)}
+
+Pregnancy screening (JSON; null if not asked):
+${JSON.stringify(pregnancy, null, 2)}
+
 RAG snippets (for internal use only):
 ${ragSnippets}
 
 Rules engine category: ${rulesSeverity}
 
 Generate the complete handoff JSON following the schema exactly.`
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.2,
-      max_tokens: 2000
-    });
-
-    const handoff = JSON.parse(response.choices[0]?.message?.content || "{}") as HandoffJson;
+      }
+    ], { temperature: 0.2, maxTokens: 2000, purpose: "handoff" });
 
     // Ensure rules engine category is set correctly
     handoff.severity.rules_engine_category = rulesSeverity;
@@ -392,12 +488,27 @@ Generate the complete handoff JSON following the schema exactly.`
     }));
     handoff.red_flags.not_triggered = notTriggered;
     handoff.red_flags.not_assessed = notAssessed;
+    handoff.scores = scores;
+    handoff.presenting_complaints = presentingComplaintList;
+    handoff.mental_health = mentalHealth;
+    handoff.pregnancy = pregnancy;
+    handoff.answer_corrections = answerCorrections;
+    handoff.provenance = provenance(llm.model);
 
     return handoff;
   } catch (error) {
+    rethrowCassetteMiss(error);
     console.error("Error generating handoff:", error);
     // Return minimal handoff on error
-    return createMinimalHandoff(state, triageResult, triggeredRedFlags, notTriggered, notAssessed);
+    return {
+      ...createMinimalHandoff(state, triageResult, triggeredRedFlags, notTriggered, notAssessed),
+      scores,
+      presenting_complaints: presentingComplaintList,
+      mental_health: mentalHealth,
+      pregnancy,
+      answer_corrections: answerCorrections,
+      provenance: provenance(null),
+    };
   }
 }
 
@@ -408,10 +519,10 @@ function createMinimalHandoff(
   triggeredRedFlags: Array<{ code: string; label: string; evidence: string }>,
   notTriggered: string[],
   notAssessed: string[]
-): HandoffJson {
+): Omit<HandoffJson, "scores" | "presenting_complaints" | "mental_health" | "pregnancy" | "answer_corrections" | "provenance"> {
   return {
     presenting_complaint: {
-      chief_complaint: state.complaint || state.openingDescription || "Not specified",
+      chief_complaint: presentingComplaints(state).join(", ") || state.openingDescription || "Not specified",
       onset: state.onset || "Not specified",
       duration: state.duration || "Not specified",
       severity: state.severity !== undefined ? `${state.severity}/10` : "Not rated",
@@ -446,7 +557,7 @@ function createMinimalHandoff(
 function buildAnswersFromState(state: ChatState): Record<string, any> {
   return {
     complaint: state.complaint || "",
-    age: state.age || 0,
+    age: state.age,
     sex: state.sex || "",
     severity: state.severity || 0,
     onset: state.onset,
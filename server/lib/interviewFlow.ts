@@ -0,0 +1,200 @@
+// Interview flow
+// The chat interview as data (interviewFlow.json): the main sequence of stages and the branches
+// it can divert to (the mental health risk questions), each stage giving its question (with
+// paediatric wording where it differs), the parser that reads the answer and the state field
+// it sets, escalation conditions checked once the answer is stored, and optional transitions.
+// processUserMessage in chatStateMachine.ts executes it.
+//
+// A stage's `next` entries are tried in order and the first whose condition holds is taken;
+// otherwise the interview moves to the following stage. Stages whose `skip_when` holds are
+// passed over. The end of a branch (or "$return") resumes the stage the branch interrupted;
+// "complete" ends the interview. Conditions use the rule DSL (rules.ts) over the chat state's
+// facts, including clinical scores such as news2_score. The flow is checked once at startup;
+// an unknown stage, parser or fallback prompt stops the server.
+
+import { z } from "zod";
+import type { ChatState, RuleCondition } from "@shared/schema";
+import { ruleConditionSchema } from "@shared/routes";
+import { evaluateCondition, factName, toFacts, withScores } from "./rules";
+import flowJson from "./interviewFlow.json";
+
+export const FLOW_PARSERS = [
+  "name", // non-empty free text
+  "age", // age in years, or weeks/months for a baby; also sets paediatric and ageMonths
+  "sex", // Male or Female
+  "complaint", // opening description; sets complaints and complaint when recognised
+  "location", // free text; sets the complaint from the body location when none is known
+  "onset", // free text; also sets duration (ISO-8601, e.g. P3D) when it can be worked out
+  "text", // free text; `default` is stored for a blank answer
+  "trend", // free text, lower-cased; sets gettingWorse
+  "number", // a number between `min` and `max`, in digits or words; a range asks which
+  "yes_no", // "not sure" is stored as "unknown", or as `unsure` when given; `unclear` for anything else unclear
+  "observations", // home readings, or no
+  "pregnancy", // yes/no; "not sure" is possible pregnancy
+  "gestation", // weeks pregnant; "don't know" is accepted
+  "red_flags", // the complaint catalogue's red-flag questions, one per message
+  "rag", // up to `limit` follow-up questions generated from the knowledge base
+  "confirm", // the summary; no starts the interview again
+] as const;
+
+export type FlowParser = typeof FLOW_PARSERS[number];
+
+// Parsers whose question is generated rather than written in the flow
+const GENERATED_QUESTIONS: FlowParser[] = ["red_flags", "rag", "confirm"];
+const FIELD_PARSERS: FlowParser[] = ["name", "sex", "location", "onset", "text", "trend", "number", "yes_no", "pregnancy", "gestation"];
+
+export const FLOW_END = "complete";
+const RETURN = "$return";
+const STATUS_STAGES = [FLOW_END, "escalated", "escalated_mental_health"];
+
+const transitionSchema = z.object({
+  when: ruleConditionSchema.optional(),
+  stage: z.string().min(1),
+  preface: z.string().optional(), // said before the next question
+  message: z.string().optional(), // closing message when the stage is "complete"
+}).strict();
+
+const stageSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]*$/, "id must be snake_case"),
+  question: z.string().min(1).optional(),
+  paediatric_question: z.string().min(1).optional(),
+  parser: z.enum(FLOW_PARSERS),
+  field: z.string().regex(/^[a-z][A-Za-z0-9]*$/, "field must be camelCase").optional(),
+  answer_names: z.array(z.string().min(1)).optional(), // what a patient calls the answer when changing it
+  min: z.number().optional(),
+  max: z.number().optional(),
+  default: z.string().optional(),
+  unsure: z.boolean().optional(),
+  unclear: z.boolean().optional(),
+  limit: z.number().int().positive().optional(),
+  max_retries: z.number().int().positive().optional(), // unclear answers before moving on (yes/no answers become "unknown"); default 3
+  retry_prompt: z.string().min(1).optional(), // asked after an unclear answer; {question} repeats the question
+  fallback: z.string().optional(), // fallback_prompts entry used after an unclear answer
+  llm_reply: z.boolean().optional(), // the next question is phrased by the LLM
+  verbatim: z.boolean().optional(), // always asked exactly as written, e.g. to show a format
+  skip_when: ruleConditionSchema.optional(),
+  escalate: z.array(z.object({ when: ruleConditionSchema, to: z.enum(["emergency", "mental_health"]) }).strict()).optional(),
+  next: z.array(transitionSchema).optional(),
+}).strict();
+
+const flowSchema = z.object({
+  stages: z.array(stageSchema).min(1),
+  branches: z.record(z.array(stageSchema).min(1)),
+  fallback_prompts: z.record(z.array(z.string().min(1)).min(1)),
+}).strict();
+
+export type FlowStage = z.infer<typeof stageSchema>;
+export type FlowTransition = z.infer<typeof transitionSchema>;
+export type InterviewFlow = z.infer<typeof flowSchema>;
+
+export function loadInterviewFlow(input: unknown): InterviewFlow {
+  const parsed = flowSchema.safeParse(input);
+  if (!parsed.success) {
+    const problems = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    throw new Error(`Invalid interview flow: ${problems}`);
+  }
+
+  const flow = parsed.data;
+  const invalid = (problem: string) => new Error(`Invalid interview flow: ${problem}`);
+  const sequences = [flow.stages, ...Object.values(flow.branches)];
+  const ids = new Set<string>();
+  for (const stage of sequences.flat()) {
+    if (ids.has(stage.id) || STATUS_STAGES.includes(stage.id)) throw invalid(`stage id "${stage.id}" is already used`);
+    ids.add(stage.id);
+  }
+  for (const sequence of sequences) {
+    const inBranch = sequence !== flow.stages;
+    for (const stage of sequence) {
+      if (!stage.question && !GENERATED_QUESTIONS.includes(stage.parser)) throw invalid(`${stage.id} has no question`);
+      if (!stage.field && FIELD_PARSERS.includes(stage.parser)) throw invalid(`${stage.id} has no field`);
+      if (stage.parser === "rag" && !stage.limit) throw invalid(`${stage.id} has no limit`);
+      if (stage.fallback && !flow.fallback_prompts[stage.fallback]) {
+        throw invalid(`${stage.id} uses unknown fallback prompts "${stage.fallback}"`);
+      }
+      for (const t of stage.next ?? []) {
+        const known = ids.has(t.stage) || t.stage === FLOW_END || (inBranch && t.stage === RETURN);
+        if (!known) throw invalid(`${stage.id} moves to unknown stage "${t.stage}"`);
+        if (t.message && t.stage !== FLOW_END) throw invalid(`${stage.id} has a message for a stage other than ${FLOW_END}`);
+      }
+    }
+  }
+  return flow;
+}
+
+export const interviewFlow: InterviewFlow = loadInterviewFlow(flowJson);
+
+const sequences = [interviewFlow.stages, ...Object.values(interviewFlow.branches)];
+
+export function flowStage(id: string): FlowStage | undefined {
+  return sequences.flat().find((s) => s.id === id);
+}
+
+// Every stage id, the main sequence first, in the order they are asked
+export function flowStageIds(): string[] {
+  return sequences.flat().map((s) => s.id);
+}
+
+export function firstStage(): FlowStage {
+  return interviewFlow.stages[0];
+}
+
+export function branchStart(name: string): FlowStage | undefined {
+  return interviewFlow.branches[name]?.[0];
+}
+
+// Stage whose answer a patient means by e.g. "my age" or "the pain score"
+export function stageNamed(name: string): FlowStage | undefined {
+  const lower = name.trim().toLowerCase();
+  return sequences.flat().find((s) => s.answer_names?.some((n) => n.toLowerCase() === lower));
+}
+
+// Each stage's answer is also a fact under its own name, including answers toFacts() only
+// reports under another (troubleBreathing is shortness_of_breath there, trouble_breathing here)
+export function flowCondition(condition: RuleCondition, state: ChatState): boolean {
+  const answers = Object.fromEntries(flowFields().filter((f) => state[f] != null).map((f) => [factName(f), state[f]]));
+  return evaluateCondition(condition, withScores({ ...toFacts(state), ...answers }));
+}
+
+// Every state field a stage's answer is stored in, for passing answers to the rules engine
+export function flowFields(): string[] {
+  return Array.from(new Set(sequences.flat().flatMap((s) => s.field ? [s.field] : [])));
+}
+
+// "first", "second", "final" prompt for an unclear answer; the last one repeats
+export function fallbackPrompt(stage: FlowStage, retryCount: number): string | undefined {
+  const prompts = stage.fallback ? interviewFlow.fallback_prompts[stage.fallback] : undefined;
+  return prompts?.[Math.min(retryCount, prompts.length - 1)];
+}
+
+export interface FlowNavigation {
+  returnTo?: string; // stage a branch resumes at
+  available?: (stage: FlowStage) => boolean; // e.g. whether a generated stage has a question
+}
+
+// The stage the interview goes to after `id`, with any preface or closing message
+export function transitionFrom(state: ChatState, id: string, nav: FlowNavigation = {}): FlowTransition {
+  const stage = flowStage(id);
+  const chosen = stage?.next?.find((t) => !t.when || flowCondition(t.when, state));
+  if (chosen) return { ...chosen, stage: resolve(state, chosen.stage, nav) };
+
+  const sequence = sequences.find((s) => s.some((stage) => stage.id === id));
+  if (!sequence) return { stage: FLOW_END };
+  return { stage: firstAvailable(state, sequence, sequence.findIndex((s) => s.id === id) + 1, nav) };
+}
+
+// `target` or, if it does not apply to this patient, the first stage after it that does
+export function resolve(state: ChatState, target: string, nav: FlowNavigation = {}): string {
+  if (target === FLOW_END) return target;
+  if (target === RETURN) return nav.returnTo ? resolve(state, nav.returnTo, { available: nav.available }) : firstStage().id;
+  const sequence = sequences.find((s) => s.some((stage) => stage.id === target));
+  if (!sequence) return target;
+  return firstAvailable(state, sequence, sequence.findIndex((s) => s.id === target), nav);
+}
+
+function firstAvailable(state: ChatState, sequence: FlowStage[], from: number, nav: FlowNavigation): string {
+  const stage = sequence.slice(from).find((s) =>
+    !(s.skip_when && flowCondition(s.skip_when, state)) && (!nav.available || nav.available(s))
+  );
+  if (stage) return stage.id;
+  return sequence === interviewFlow.stages ? FLOW_END : resolve(state, RETURN, nav);
+}
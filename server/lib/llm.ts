@@ -0,0 +1,243 @@
+// LLM provider abstraction
+// Every chat completion, JSON extraction, token stream and embedding call goes through an
+// LlmProvider, so the app can run against OpenAI, a local OpenAI-compatible server
+// (Ollama, llama.cpp, vLLM) or a deterministic scripted mock with no network access.
+//
+// LLM_PROVIDER=openai (default) uses OPENAI_API_KEY and LLM_MODEL (default gpt-4o-mini).
+// LLM_PROVIDER=local uses LLM_BASE_URL (default http://localhost:11434/v1), LLM_MODEL and
+//   optional LLM_API_KEY / LLM_EMBEDDING_MODEL.
+// LLM_PROVIDER=mock answers from LLM_MOCK_SCRIPT (a JSON file of rules) or built-in defaults.
+// LLM_CASSETTE_MODE=record|replay|auto wraps the provider in a record/replay layer that
+//   stores calls under LLM_CASSETTE_DIR (see llmCassette.ts).
+
+import OpenAI from "openai";
+import * as fs from "fs";
+import { HashedNgramEmbeddingProvider } from "./embeddings";
+import { CassetteLlmProvider, type CassetteMode } from "./llmCassette";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmOptions {
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  // What the call is for (e.g. "handoff"); lets mock scripts answer per call site
+  purpose?: string;
+}
+
+export interface LlmProvider {
+  readonly id: string;
+  // "openai", "local" or "mock"; unlike `id`, the same when wrapped by a cassette
+  readonly providerName: string;
+  readonly model: string;
+  // The model embed() uses, which may not be the chat model
+  readonly embeddingModel: string;
+  chat(messages: LlmMessage[], opts?: LlmOptions): Promise<string>;
+  // Asks for a single JSON object and returns it parsed
+  chatJson<T = Record<string, any>>(messages: LlmMessage[], opts?: LlmOptions): Promise<T>;
+  streamChat(messages: LlmMessage[], opts?: LlmOptions): AsyncGenerator<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Local models often wrap JSON in a markdown fence or add a sentence around it
+export function parseJsonResponse<T>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(body || "{}") as T;
+  } catch {
+    const start = body.indexOf("{");
+    const end = body.lastIndexOf("}");
+    if (start >= 0 && end > start) return JSON.parse(body.slice(start, end + 1)) as T;
+    throw new Error(`LLM did not return valid JSON: ${body.slice(0, 200)}`);
+  }
+}
+
+// OpenAI and any server that implements its chat completions / embeddings API
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly id: string;
+  private clientInstance: OpenAI | null = null;
+
+  // The client is created on first use so replaying cassettes needs no API key
+  constructor(
+    private readonly createClient: () => OpenAI,
+    readonly model: string,
+    readonly embeddingModel: string,
+    readonly providerName: string = "openai"
+  ) {
+    this.id = `${providerName}-${model}`;
+  }
+
+  private get client(): OpenAI {
+    if (!this.clientInstance) this.clientInstance = this.createClient();
+    return this.clientInstance;
+  }
+
+  async chat(messages: LlmMessage[], opts: LlmOptions = {}): Promise<string> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        max_tokens: opts.maxTokens,
+        temperature: opts.temperature,
+      },
+      { signal: opts.signal }
+    );
+    return response.choices[0]?.message?.content ?? "";
+  }
+
+  async chatJson<T = Record<string, any>>(messages: LlmMessage[], opts: LlmOptions = {}): Promise<T> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        response_format: { type: "json_object" },
+        max_tokens: opts.maxTokens,
+        temperature: opts.temperature,
+      },
+      { signal: opts.signal }
+    );
+    return parseJsonResponse<T>(response.choices[0]?.message?.content ?? "{}");
+  }
+
+  async *streamChat(messages: LlmMessage[], opts: LlmOptions = {}): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        max_tokens: opts.maxTokens,
+        temperature: opts.temperature,
+        stream: true,
+      },
+      { signal: opts.signal }
+    );
+    for await (const part of stream) {
+      const text = part.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.client.embeddings.create({ model: this.embeddingModel, input: texts });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  }
+}
+
+export interface MockRule {
+  purpose?: string; // only applies to calls with this purpose
+  match?: string; // regex (case-insensitive) tested against the last user message
+  response: string | Record<string, any>;
+}
+
+// Deterministic provider for tests and air-gapped demos. Rules are tried in order;
+// unmatched chat calls get a built-in reply and unmatched JSON calls get `{}`.
+export class MockLlmProvider implements LlmProvider {
+  readonly id = "mock";
+  readonly providerName = "mock";
+  readonly model = "mock";
+  // Every call, in order, so tests can assert on prompts
+  readonly calls: Array<{ messages: LlmMessage[]; purpose?: string; json: boolean }> = [];
+  private readonly embedder = new HashedNgramEmbeddingProvider();
+  readonly embeddingModel = this.embedder.id;
+
+  constructor(private readonly rules: MockRule[] = []) {}
+
+  static fromFile(filePath: string): MockLlmProvider {
+    return new MockLlmProvider(JSON.parse(fs.readFileSync(filePath, "utf-8")) as MockRule[]);
+  }
+
+  private respond(messages: LlmMessage[], opts: LlmOptions, json: boolean): string | Record<string, any> {
+    this.calls.push({ messages, purpose: opts.purpose, json });
+    const lastUser = [...messages].reverse().find(m => m.role === "user")?.content ?? "";
+    const rule = this.rules.find(r =>
+      (!r.purpose || r.purpose === opts.purpose) &&
+      (!r.match || new RegExp(r.match, "i").test(lastUser))
+    );
+    if (rule) return rule.response;
+    return json ? {} : defaultMockReply(lastUser);
+  }
+
+  async chat(messages: LlmMessage[], opts: LlmOptions = {}): Promise<string> {
+    const response = this.respond(messages, opts, false);
+    return typeof response === "string" ? response : JSON.stringify(response);
+  }
+
+  async chatJson<T = Record<string, any>>(messages: LlmMessage[], opts: LlmOptions = {}): Promise<T> {
+    const response = this.respond(messages, opts, true);
+    return (typeof response === "string" ? parseJsonResponse<T>(response) : response) as T;
+  }
+
+  async *streamChat(messages: LlmMessage[], opts: LlmOptions = {}): AsyncGenerator<string> {
+    const text = await this.chat(messages, opts);
+    for (const token of text.match(/\S+\s*/g) || []) {
+      if (opts.signal?.aborted) return;
+      yield token;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return this.embedder.embed(texts);
+  }
+}
+
+// When the prompt carries retrieved passages, quote the first one with its citation so
+// downstream citation checks have something grounded to verify
+function defaultMockReply(prompt: string): string {
+  const passage = prompt.match(/\[chunk:(\d+) — ([^\]]*)\]\n([^\n]+)/);
+  if (passage) {
+    const sentence = passage[3].split(/(?<=[.!?])\s/)[0];
+    return `Consider the following guidance: ${sentence} [chunk:${passage[1]} — ${passage[2]}]`;
+  }
+  return "Thank you. Could you tell me a little more about that?";
+}
+
+let provider: LlmProvider | null = null;
+
+function createProvider(): LlmProvider {
+  switch (process.env.LLM_PROVIDER) {
+    case "mock":
+      return process.env.LLM_MOCK_SCRIPT
+        ? MockLlmProvider.fromFile(process.env.LLM_MOCK_SCRIPT)
+        : new MockLlmProvider();
+    case "local":
+      return new OpenAICompatibleProvider(
+        () => new OpenAI({
+          baseURL: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+          apiKey: process.env.LLM_API_KEY || "local", // most local servers ignore the key
+        }),
+        process.env.LLM_MODEL || "llama3.1",
+        process.env.LLM_EMBEDDING_MODEL || "nomic-embed-text",
+        "local"
+      );
+    default:
+      return new OpenAICompatibleProvider(
+        () => new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+        process.env.LLM_MODEL || "gpt-4o-mini",
+        process.env.EMBEDDING_MODEL || "text-embedding-3-small"
+      );
+  }
+}
+
+const CASSETTE_MODES: CassetteMode[] = ["record", "replay", "auto"];
+
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createProvider();
+    const mode = process.env.LLM_CASSETTE_MODE as CassetteMode | undefined;
+    if (mode && CASSETTE_MODES.includes(mode)) {
+      provider = new CassetteLlmProvider(provider, mode, process.env.LLM_CASSETTE_DIR || undefined);
+    }
+  }
+  return provider;
+}
+
+// Allows swapping the provider (e.g. in tests) without touching env
+export function setLlmProvider(next: LlmProvider): void {
+  provider = next;
+}
@@ -0,0 +1,141 @@
+// Record/replay ("cassette") layer for LLM calls
+// Wraps any LlmProvider. In record mode every call is forwarded and its response saved to
+// LLM_CASSETTE_DIR as one JSON file per call, keyed by a sha256 of the model (the embedding
+// model for embed calls), call kind, messages and sampling options. In replay mode responses come only from disk, so complete
+// chat sessions run deterministically without network access; an unrecorded call throws.
+//
+// LLM_CASSETTE_MODE=record | replay | auto (replay when recorded, otherwise record)
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { LlmMessage, LlmOptions, LlmProvider } from "./llm";
+
+export type CassetteMode = "record" | "replay" | "auto";
+type CallKind = "chat" | "json" | "stream" | "embed";
+
+export const DEFAULT_CASSETTE_DIR = path.join(process.cwd(), "fixtures", "llm-cassettes");
+
+interface CassetteEntry {
+  key: string;
+  model: string;
+  kind: CallKind;
+  purpose: string | null;
+  request: unknown;
+  response: unknown;
+  recordedAt: string;
+}
+
+export class CassetteMissError extends Error {
+  constructor(readonly key: string, readonly purpose: string | null) {
+    super(`No recorded LLM response for ${purpose ?? "call"} (cassette key ${key}); re-run with LLM_CASSETTE_MODE=record`);
+    this.name = "CassetteMissError";
+  }
+}
+
+export class CassetteLlmProvider implements LlmProvider {
+  readonly id: string;
+  readonly providerName: string;
+  readonly model: string;
+  readonly embeddingModel: string;
+
+  constructor(
+    private readonly inner: LlmProvider,
+    readonly mode: CassetteMode,
+    readonly dir: string = DEFAULT_CASSETTE_DIR
+  ) {
+    this.id = `${mode}:${inner.id}`;
+    this.providerName = inner.providerName;
+    this.model = inner.model;
+    this.embeddingModel = inner.embeddingModel;
+  }
+
+  // Signals and purposes do not change what the model would say, so they are not hashed
+  static keyFor(model: string, kind: CallKind, request: unknown): string {
+    return createHash("sha256").update(JSON.stringify({ model, kind, request })).digest("hex");
+  }
+
+  // Changing the embedding model must miss rather than replay vectors from the old one
+  private modelFor(kind: CallKind): string {
+    return kind === "embed" ? this.embeddingModel : this.model;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  // Recorded response for a request; throws on a miss in replay mode
+  private lookup(kind: CallKind, request: unknown, purpose: string | undefined): { key: string; entry: CassetteEntry | null } {
+    const key = CassetteLlmProvider.keyFor(this.modelFor(kind), kind, request);
+    const file = this.fileFor(key);
+    if (this.mode !== "record" && fs.existsSync(file)) {
+      return { key, entry: JSON.parse(fs.readFileSync(file, "utf-8")) as CassetteEntry };
+    }
+    if (this.mode === "replay") throw new CassetteMissError(key, purpose ?? null);
+    return { key, entry: null };
+  }
+
+  private save(key: string, kind: CallKind, purpose: string | undefined, request: unknown, response: unknown): void {
+    const entry: CassetteEntry = {
+      key,
+      model: this.modelFor(kind),
+      kind,
+      purpose: purpose ?? null,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.fileFor(key), JSON.stringify(entry, null, 2) + "\n");
+  }
+
+  private async through<T>(kind: CallKind, request: unknown, purpose: string | undefined, call: () => Promise<T>): Promise<T> {
+    const { key, entry } = this.lookup(kind, request, purpose);
+    if (entry) return entry.response as T;
+    const response = await call();
+    this.save(key, kind, purpose, request, response);
+    return response;
+  }
+
+  private static request(messages: LlmMessage[], opts: LlmOptions) {
+    return { messages, maxTokens: opts.maxTokens ?? null, temperature: opts.temperature ?? null };
+  }
+
+  chat(messages: LlmMessage[], opts: LlmOptions = {}): Promise<string> {
+    return this.through("chat", CassetteLlmProvider.request(messages, opts), opts.purpose, () => this.inner.chat(messages, opts));
+  }
+
+  chatJson<T = Record<string, any>>(messages: LlmMessage[], opts: LlmOptions = {}): Promise<T> {
+    return this.through("json", CassetteLlmProvider.request(messages, opts), opts.purpose, () => this.inner.chatJson<T>(messages, opts));
+  }
+
+  // Streams are recorded as their token list (once complete) and replayed token by token
+  async *streamChat(messages: LlmMessage[], opts: LlmOptions = {}): AsyncGenerator<string> {
+    const request = CassetteLlmProvider.request(messages, opts);
+    const { key, entry } = this.lookup("stream", request, opts.purpose);
+    if (entry) {
+      for (const token of entry.response as string[]) {
+        if (opts.signal?.aborted) return;
+        yield token;
+      }
+      return;
+    }
+
+    const tokens: string[] = [];
+    for await (const token of this.inner.streamChat(messages, opts)) {
+      tokens.push(token);
+      yield token;
+    }
+    this.save(key, "stream", opts.purpose, request, tokens);
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return this.through("embed", { texts }, "embed", () => this.inner.embed(texts));
+  }
+}
+
+// Call sites fall back to canned text when the LLM fails; a replay miss must not be
+// masked that way or a golden run would silently diverge from its recording
+export function rethrowCassetteMiss(err: unknown): void {
+  if (err instanceof CassetteMissError) throw err;
+}
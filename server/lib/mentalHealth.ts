@@ -0,0 +1,50 @@
+// Mental health and self-harm safety pathway
+// Talk of suicide or self-harm anywhere in the chat, or a mental health complaint, moves the
+// interview to a short structured risk assessment (the mental_health branch of interviewFlow.json).
+// High risk ends the chat with crisis line information instead of the 999 message used for
+// physical emergencies, and the session is marked escalated_mental_health so it can be
+// routed to mental health crisis services rather than an emergency department.
+//
+// Risk follows the rule set: suicidal plans, self-harm in the last 48 hours, or not feeling
+// able to keep safe is high (RF_SUICIDE_RISK); thoughts alone are moderate
+// (AM_SUICIDAL_THOUGHTS).
+
+import type { ChatState } from "@shared/schema";
+
+export const MENTAL_HEALTH_COMPLAINT = "mental health";
+
+const SELF_HARM_PATTERNS = [
+  /\b(hurt|hurting|harm|harming|injure|injuring|kill|killing|cut|cutting)\s+(myself|himself|herself|themselves|themself)\b/,
+  /\bself[- ]?harm/,
+  /\bsuicid/,
+  /\b(end|ending|take|taking)\s+(my|his|her|their)\s+(own\s+)?life\b/,
+  /\b(don'?t|do not)\s+want\s+to\s+(live|be alive|be here)\b/,
+  /\bbetter off dead\b/,
+  /\boverdos/,
+];
+
+export function mentionsSelfHarm(input: string): boolean {
+  const text = input.toLowerCase();
+  return SELF_HARM_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+export type MentalHealthRisk = "high" | "moderate" | "low";
+
+// null until the risk questions have been asked
+export function mentalHealthRisk(state: ChatState): MentalHealthRisk | null {
+  if (state.suicidalThoughts === undefined && state.recentSelfHarm === undefined && state.canKeepSafe === undefined) {
+    return null;
+  }
+  if (state.suicidalPlans === true || state.recentSelfHarm === true || state.canKeepSafe === false) return "high";
+  return state.suicidalThoughts === true ? "moderate" : "low";
+}
+
+// Risk answers listed in the handoff, in the order they are asked, with the answer that
+// counts as reported (canKeepSafe is worrying when false)
+export const MENTAL_HEALTH_FINDINGS: Array<[field: string, label: string, worrying: boolean]> = [
+  ["suicidalThoughts", "Thoughts of suicide or self-harm", true],
+  ["suicidalPlans", "Plans to act on those thoughts", true],
+  ["accessToMeans", "Access to means (e.g. tablets, weapons)", true],
+  ["recentSelfHarm", "Self-harm or overdose in the last 48 hours", true],
+  ["canKeepSafe", "Unable to keep safe", false],
+];
@@ -1,78 +1,201 @@
-// Simple RAG implementation
-// Using cosine similarity on basic embeddings
-// For prototype, we might fake embeddings or use a lightweight approach if `transformers` is heavy.
-// Let's try to use a simple TF-IDF or keyword overlap if we can't install heavy ML libs.
-// BUT, the PRD asked for embeddings.
-// We will assume `openai` is available for Chat, but not embeddings.
-// We'll use a simple word-overlap + keyword scoring for the "Lite" prototype to avoid heavy deps
-// UNLESS we can install `@xenova/transformers`. I'll try to support vector search logic.
-
-// Mocking vector search for the very first pass to ensure it runs fast.
-// In a real iteration, we'd enable the actual embedding model.
+// RAG over uploaded clinical documents
+// Chunks are embedded on ingest with the configured EmbeddingProvider (see embeddings.ts).
+// At query time a BM25 ranking and a cosine-similarity ranking are fused (see bm25.ts).
 
 import { storage } from "../storage";
-import { openai } from "../replit_integrations/image/client"; // reusing client
+import { getLlmProvider, type LlmMessage } from "./llm";
+import { rethrowCassetteMiss } from "./llmCassette";
+import { getEmbeddingProvider, cosineSimilarity } from "./embeddings";
+import { chunkDocument, detectGuidelineCode, formatCitationLabel, type DocumentChunk } from "./chunker";
+import { verifyCitations, type CitationVerification } from "./citations";
+import { minhashSignature, findNearDuplicate, type SignatureEntry, type SkippedChunk } from "./dedup";
+import { buildBm25Index, scoreBm25, reciprocalRankFusion, type Bm25Index } from "./bm25";
+import type { Chunk } from "@shared/schema";
 
-export async function processDocument(docId: number, text: string) {
-  // 1. Chunking (Simple split by paragraphs)
-  const chunks = text.split(/\n\s*\n/).filter(c => c.trim().length > 0);
-  
-  for (const chunkText of chunks) {
-    // 2. Embedding (Mock or Simple)
-    // For this Lite prototype, we'll store a "keyword" vector (bag of words)
-    // Real implementation would use: const embedding = await embed(chunkText);
-    const embedding = [0]; // Placeholder
-    
+// Below this cosine similarity a chunk is treated as unrelated to the query
+const MIN_SIMILARITY = 0.1;
+
+// Chunk, embed and store a document's text. Chunks that near-duplicate an active chunk
+// (or an earlier chunk of this upload) are skipped and reported instead of stored.
+export async function processDocument(docId: number, text: string): Promise<{ chunkCount: number; skipped: SkippedChunk[] }> {
+  const doc = await storage.getDocument(docId);
+
+  // 1. Chunking (heading/recommendation/page aware, see chunker.ts)
+  const guideline = detectGuidelineCode(doc?.name, doc?.source, text.slice(0, 2000));
+  const chunks = chunkDocument(text, { guideline });
+
+  // 2. Near-duplicate detection. The document's own chunks (being re-processed) and the
+  // version it replaces are expected to overlap, so they are not compared against.
+  const excluded = new Set([docId, doc?.previousVersionId].filter((id): id is number => id != null));
+  const known: SignatureEntry[] = (await storage.getActiveChunks())
+    .filter(c => !excluded.has(c.documentId))
+    .map(c => ({
+      chunkId: c.id,
+      documentId: c.documentId,
+      signature: (c.metadata as Record<string, any>)?.minhash ?? minhashSignature(c.chunkText),
+    }));
+
+  const kept: Array<{ chunk: DocumentChunk; minhash: number[] }> = [];
+  const skipped: SkippedChunk[] = [];
+  for (const chunk of chunks) {
+    const minhash = minhashSignature(chunk.text);
+    const match = findNearDuplicate(minhash, known);
+    if (match) {
+      skipped.push({
+        chunkIndex: chunk.metadata.chunkIndex,
+        duplicateOfChunkId: match.entry.chunkId,
+        duplicateOfDocumentId: match.entry.documentId,
+        similarity: Math.round(match.similarity * 100) / 100,
+        preview: chunk.text.slice(0, 120),
+      });
+      continue;
+    }
+    kept.push({ chunk, minhash });
+    known.push({ chunkId: null, documentId: docId, signature: minhash });
+  }
+
+  // 3. Embedding
+  const provider = getEmbeddingProvider();
+  const embeddings = await provider.embed(kept.map(k => k.chunk.text));
+
+  for (let i = 0; i < kept.length; i++) {
     await storage.createChunk({
       documentId: docId,
-      chunkText: chunkText,
-      metadata: { length: chunkText.length },
-      embedding: embedding
+      chunkText: kept[i].chunk.text,
+      metadata: { ...kept[i].chunk.metadata, embeddingModel: provider.id, minhash: kept[i].minhash },
+      embedding: embeddings[i]
     });
   }
+  return { chunkCount: kept.length, skipped };
 }
 
-export async function queryRAG(question: string) {
-  // 1. Retrieval
-  // Improved keyword search - include shorter keywords and partial matches
-  const allChunks = await storage.getAllChunks();
-  const keywords = question.toLowerCase().split(/\W+/).filter(w => w.length > 2);
-  
-  const scored = allChunks.map(chunk => {
-    const text = chunk.chunkText.toLowerCase();
-    let score = 0;
-    keywords.forEach(k => {
-      // Count occurrences for better scoring
-      const matches = (text.match(new RegExp(k, 'g')) || []).length;
-      score += matches;
-    });
-    return { ...chunk, score };
-  });
-  
-  // Top 5 chunks for more context
-  const topChunks = scored.sort((a, b) => b.score - a.score).slice(0, 5).filter(c => c.score > 0);
-  
-  // Get document names for citations
-  const allDocuments = await storage.getDocuments();
-  const docMap = new Map(allDocuments.map(d => [d.id, d.name]));
-  
-  // 2. Generation
-  const context = topChunks.map(c => c.chunkText).join("\n\n---\n\n");
-  
-  if (!context) {
-    return {
-      answer: "No relevant clinical guidance found in the knowledge base for this query. Please try rephrasing your question or upload more relevant documents.",
-      citations: []
+// Re-chunk and re-embed a document from its stored source text. The previous chunks
+// are retired rather than deleted so citations to their IDs keep resolving.
+export async function reprocessDocument(docId: number): Promise<{ chunkCount: number; retiredCount: number; skipped: SkippedChunk[] }> {
+  const doc = await storage.getDocument(docId);
+  if (!doc?.sourceText) throw new Error("Document has no stored source text");
+
+  const previous = (await storage.getChunksByDocument(docId)).filter(c => c.retiredAt == null);
+  const { chunkCount, skipped } = await processDocument(docId, doc.sourceText);
+  await storage.retireChunks(previous.map(c => c.id));
+  return { chunkCount, retiredCount: previous.length, skipped };
+}
+
+// Look up a chunk by ID for a citation, including retired chunks and superseded versions
+export async function resolveChunk(chunkId: number) {
+  const chunk = await storage.getChunk(chunkId);
+  if (!chunk) return undefined;
+  const doc = await storage.getDocument(chunk.documentId);
+  const metadata = chunk.metadata as Record<string, any>;
+  return {
+    id: chunk.id,
+    documentId: chunk.documentId,
+    docName: doc?.name ?? "Unknown document",
+    docVersion: doc?.version ?? null,
+    docStatus: doc?.status ?? null,
+    label: formatCitationLabel(doc?.name ?? "Unknown document", metadata),
+    text: chunk.chunkText,
+    metadata,
+    retiredAt: chunk.retiredAt,
+    current: chunk.retiredAt == null && doc?.status === "active",
+  };
+}
+
+// Chunks embedded by another provider (or the old `[0]` placeholder) are
+// re-embedded with the current one so every vector is comparable with the query's.
+async function ensureEmbeddings(chunks: Chunk[], queryVector: number[]): Promise<Array<Chunk & { embedding: number[] }>> {
+  const provider = getEmbeddingProvider();
+  const isCurrent = (c: Chunk) =>
+    (c.metadata as Record<string, any>)?.embeddingModel === provider.id &&
+    Array.isArray(c.embedding) &&
+    (c.embedding as number[]).length === queryVector.length;
+
+  const stale = chunks.filter(c => !isCurrent(c));
+  if (stale.length > 0) {
+    const vectors = await provider.embed(stale.map(c => c.chunkText));
+    for (let i = 0; i < stale.length; i++) {
+      const metadata = { ...(stale[i].metadata as Record<string, any>), embeddingModel: provider.id };
+      await storage.updateChunkEmbedding(stale[i].id, vectors[i], metadata);
+      stale[i].embedding = vectors[i];
+      stale[i].metadata = metadata;
+    }
+  }
+  return chunks as Array<Chunk & { embedding: number[] }>;
+}
+
+export interface ChunkScores {
+  bm25: number;
+  bm25Rank: number | null;
+  vector: number;
+  vectorRank: number | null;
+  fused: number;
+}
+
+export type ScoredChunk = Chunk & { score: number; scores: ChunkScores };
+
+// BM25 index is rebuilt only when the set of chunks changes
+let bm25Cache: { signature: string; index: Bm25Index } | null = null;
+
+function getBm25Index(chunks: Chunk[]): Bm25Index {
+  const signature = `${chunks.length}:${chunks.reduce((sum, c) => sum + c.id, 0)}`;
+  if (!bm25Cache || bm25Cache.signature !== signature) {
+    bm25Cache = {
+      signature,
+      index: buildBm25Index(chunks.map(c => ({ id: c.id, text: c.chunkText }))),
     };
   }
-  
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { 
-          role: "system", 
-          content: `You are a clinical decision support assistant for healthcare professionals. You provide advisory information only - NOT diagnoses or definitive clinical decisions.
+  return bm25Cache.index;
+}
+
+// Hybrid retrieval: BM25 and cosine-similarity rankings fused with reciprocal rank fusion.
+// Each result carries its per-ranker scores so citations can show why a passage was chosen.
+export async function searchChunks(query: string, limit: number = 5): Promise<ScoredChunk[]> {
+  if (!query.trim()) return [];
+  const activeChunks = await storage.getActiveChunks();
+  if (activeChunks.length === 0) return [];
+  const [queryVector] = await getEmbeddingProvider().embed([query]);
+  const allChunks = await ensureEmbeddings(activeChunks, queryVector);
+
+  // Lexical ranking
+  const bm25Scores = scoreBm25(getBm25Index(allChunks), query);
+  const bm25Ranking = Array.from(bm25Scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id);
+
+  // Vector ranking
+  const vectorScores = new Map<number, number>();
+  for (const chunk of allChunks) {
+    const similarity = cosineSimilarity(queryVector, chunk.embedding);
+    if (similarity >= MIN_SIMILARITY) vectorScores.set(chunk.id, similarity);
+  }
+  const vectorRanking = Array.from(vectorScores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id);
+
+  const fused = reciprocalRankFusion([bm25Ranking, vectorRanking]);
+  const chunkById = new Map(allChunks.map(c => [c.id, c]));
+
+  return Array.from(fused.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([id, fusedScore]) => {
+      const bm25Rank = bm25Ranking.indexOf(id);
+      const vectorRank = vectorRanking.indexOf(id);
+      return {
+        ...chunkById.get(id)!,
+        score: fusedScore,
+        scores: {
+          bm25: bm25Scores.get(id) || 0,
+          bm25Rank: bm25Rank >= 0 ? bm25Rank + 1 : null,
+          vector: vectorScores.get(id) || 0,
+          vectorRank: vectorRank >= 0 ? vectorRank + 1 : null,
+          fused: fusedScore,
+        },
+      };
+    });
+}
+
+const RAG_QUERY_SYSTEM_PROMPT = `You are a clinical decision support assistant for healthcare professionals. You provide advisory information only - NOT diagnoses or definitive clinical decisions.
 
 CRITICAL CONSTRAINTS:
 - NEVER state certainty or give definitive diagnoses
@@ -81,6 +204,8 @@ CRITICAL CONSTRAINTS:
 - ALWAYS use hedged language: "consider", "may be consistent with", "could suggest", "factors to exclude"
 - ALWAYS recommend safety-netting when uncertainty is present
 - ALWAYS defer to clinician judgment
+- Use ONLY the knowledge base passages for clinical claims. If missing, say so.
+- Inline citations required after each clinical claim: [chunk:ID — Source Title], using the IDs given
 
 OUTPUT STRUCTURE (use this order):
 1. AI-flagged level of concern
@@ -90,29 +215,106 @@ OUTPUT STRUCTURE (use this order):
 5. Suggested next steps for the clinician
 6. Factors that would change the assessment
 
-Keep responses focused and structured. Avoid long narratives or full guideline dumps.`
-        },
-        { role: "user", content: `Clinical Knowledge Base:\n${context}\n\nQuestion: ${question}` }
-      ],
-      max_tokens: 500,
-      temperature: 0.3
-    });
-    
-    return {
-      answer: response.choices[0].message.content || "No response generated.",
-      citations: topChunks.map(c => ({
-        docId: c.documentId,
-        docName: docMap.get(c.documentId) || "Clinical Guidelines",
-        chunkId: c.id,
-        text: c.chunkText.substring(0, 100) + "..."
-      }))
-    };
+Keep responses focused and structured. Avoid long narratives or full guideline dumps.`;
+
+const NO_GUIDANCE_ANSWER = "No relevant clinical guidance found in the knowledge base for this query. Please try rephrasing your question or upload more relevant documents.";
+
+export interface RAGCitation {
+  docId: number;
+  docName: string;
+  label: string;
+  chunkId: number;
+  text: string;
+  scores: ChunkScores;
+}
+
+// Events emitted by the streaming variants, in order: citations, token*, verification, done
+export type RAGStreamEvent<C> =
+  | { type: "citations"; citations: C[] }
+  | { type: "token"; text: string }
+  | { type: "verification"; verification: CitationVerification | null }
+  | { type: "done"; text: string };
+
+type ChatMessages = LlmMessage[];
+
+// Retrieval and prompt shared by the blocking and streaming query paths
+async function prepareRAGQuery(question: string): Promise<{
+  citations: RAGCitation[];
+  verifiable: Array<{ chunkId: number; content: string }>;
+  messages: ChatMessages | null;
+}> {
+  // 1. Retrieval - top 5 chunks for more context
+  const topChunks = await searchChunks(question, 5);
+  
+  // Get document names for citations
+  const allDocuments = await storage.getDocuments();
+  const docMap = new Map(allDocuments.map(d => [d.id, d.name]));
+  
+  const labelFor = (c: Chunk) =>
+    formatCitationLabel(docMap.get(c.documentId) || "Clinical Guidelines", c.metadata as Record<string, any>);
+
+  const context = topChunks.map(c => `[chunk:${c.id} — ${labelFor(c)}]\n${c.chunkText}`).join("\n\n---\n\n");
+
+  return {
+    citations: topChunks.map(c => ({
+      docId: c.documentId,
+      docName: docMap.get(c.documentId) || "Clinical Guidelines",
+      label: labelFor(c),
+      chunkId: c.id,
+      text: c.chunkText.substring(0, 100) + "...",
+      scores: c.scores
+    })),
+    verifiable: topChunks.map(c => ({ chunkId: c.id, content: c.chunkText })),
+    messages: context
+      ? [
+          { role: "system", content: RAG_QUERY_SYSTEM_PROMPT },
+          { role: "user", content: `Clinical Knowledge Base:\n${context}\n\nQuestion: ${question}` }
+        ]
+      : null,
+  };
+}
+
+export async function queryRAG(question: string) {
+  const { citations, verifiable, messages } = await prepareRAGQuery(question);
+
+  // 2. Generation
+  if (!messages) {
+    return { answer: NO_GUIDANCE_ANSWER, citations: [], verification: null };
+  }
+  
+  try {
+    const answer = await getLlmProvider().chat(messages, { maxTokens: 500, temperature: 0.3, purpose: "rag_answer" })
+      || "No response generated.";
+    return { answer, citations, verification: verifyCitations(answer, verifiable) };
   } catch (e) {
+    rethrowCassetteMiss(e);
     console.error("RAG Error:", e);
-    return { answer: "Error generating explanation. Please try again.", citations: [] };
+    return { answer: "Error generating explanation. Please try again.", citations: [], verification: null };
   }
 }
 
+export async function* streamQueryRAG(question: string, signal?: AbortSignal): AsyncGenerator<RAGStreamEvent<RAGCitation>> {
+  const { citations, verifiable, messages } = await prepareRAGQuery(question);
+
+  if (!messages) {
+    yield { type: "citations", citations: [] };
+    yield { type: "token", text: NO_GUIDANCE_ANSWER };
+    yield { type: "verification", verification: null };
+    yield { type: "done", text: NO_GUIDANCE_ANSWER };
+    return;
+  }
+
+  yield { type: "citations", citations };
+  let answer = "";
+  const tokens = getLlmProvider().streamChat(messages, { maxTokens: 500, temperature: 0.3, signal, purpose: "rag_answer" });
+  for await (const text of tokens) {
+    answer += text;
+    yield { type: "token", text };
+  }
+  yield { type: "verification", verification: answer ? verifyCitations(answer, verifiable) : null };
+  yield { type: "done", text: answer };
+}
+
 // Admin Portal RAG Explanation System Prompt
 const ADMIN_PORTAL_SYSTEM_PROMPT = `SYSTEM — Clinical Decision Support Summary (Clinician Portal Only)
 
@@ -138,81 +340,117 @@ REQUIRED OUTPUT STRUCTURE (use this exact order):
 
 Keep responses focused and structured. Avoid long narrative responses or full guideline dumps.`;
 
+export interface AdminRAGChunk {
+  chunkId: number;
+  sourceTitle: string;
+  citation?: string; // e.g. "NG185 §1.3.2, p.14"
+  content: string;
+}
+
 interface AdminRAGInput {
   patientSummary: string;
   riskBand: "Red" | "Amber" | "Green";
   triggeredRedFlags: string[];
-  retrievedChunks: Array<{
-    chunkId: number;
-    sourceTitle: string;
-    content: string;
-  }>;
+  retrievedChunks: AdminRAGChunk[];
+}
+
+export interface AdminRAGExplanation {
+  explanation: string;
+  // Per-claim citation check; null when the text is a fallback rather than model output
+  verification: CitationVerification | null;
 }
 
-export async function generateAdminRAGExplanation(input: AdminRAGInput): Promise<string> {
+function adminCaseHeader({ patientSummary, riskBand, triggeredRedFlags }: AdminRAGInput): string {
+  return `Case Summary: ${patientSummary}\n\nRisk Band: ${riskBand}\nTriggered Red Flags: ${triggeredRedFlags.length > 0 ? triggeredRedFlags.join(", ") : "None"}`;
+}
+
+// Prompt for the admin explanation, or null when nothing was retrieved
+function buildAdminRAGMessages(input: AdminRAGInput): ChatMessages | null {
   const { patientSummary, riskBand, triggeredRedFlags, retrievedChunks } = input;
 
   // Build context from retrieved chunks
-  const context = retrievedChunks.map((chunk, idx) => 
-    `[chunk:${chunk.chunkId} — ${chunk.sourceTitle}]\n${chunk.content}`
+  const context = retrievedChunks.map(chunk => 
+    `[chunk:${chunk.chunkId} — ${chunk.citation || chunk.sourceTitle}]\n${chunk.content}`
   ).join("\n\n---\n\n");
 
-  if (!context || context.trim().length === 0) {
-    return `Case Summary: ${patientSummary}\n\nRisk Band: ${riskBand}\nTriggered Red Flags: ${triggeredRedFlags.length > 0 ? triggeredRedFlags.join(", ") : "None"}\n\nNote: No relevant clinical guidance found in knowledge base for this case.`;
-  }
+  if (!context || context.trim().length === 0) return null;
 
   const prompt = `Patient Summary:\n${patientSummary}\n\nRisk Band: ${riskBand}\nTriggered Red Flags: ${triggeredRedFlags.length > 0 ? triggeredRedFlags.join(", ") : "None"}\n\nRetrieved Clinical Guidance:\n${context}\n\nGenerate a clinical explanation following the format specified in the system prompt.`;
+  return [
+    { role: "system", content: ADMIN_PORTAL_SYSTEM_PROMPT },
+    { role: "user", content: prompt }
+  ];
+}
 
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: ADMIN_PORTAL_SYSTEM_PROMPT },
-        { role: "user", content: prompt }
-      ],
-      max_tokens: 800,
-      temperature: 0.3
-    });
+export async function generateAdminRAGExplanation(input: AdminRAGInput): Promise<AdminRAGExplanation> {
+  const messages = buildAdminRAGMessages(input);
+  if (!messages) {
+    return {
+      explanation: `${adminCaseHeader(input)}\n\nNote: No relevant clinical guidance found in knowledge base for this case.`,
+      verification: null,
+    };
+  }
 
-    return response.choices[0]?.message?.content || "Unable to generate explanation.";
+  try {
+    const explanation = await getLlmProvider().chat(messages, { maxTokens: 800, temperature: 0.3, purpose: "admin_explanation" });
+    if (!explanation) return { explanation: "Unable to generate explanation.", verification: null };
+    return {
+      explanation,
+      verification: verifyCitations(explanation, input.retrievedChunks.map(c => ({ chunkId: c.chunkId, content: c.content }))),
+    };
   } catch (e) {
+    rethrowCassetteMiss(e);
     console.error("Admin RAG Error:", e);
-    return `Case Summary: ${patientSummary}\n\nRisk Band: ${riskBand}\nTriggered Red Flags: ${triggeredRedFlags.length > 0 ? triggeredRedFlags.join(", ") : "None"}\n\nError generating detailed explanation.`;
+    return {
+      explanation: `${adminCaseHeader(input)}\n\nError generating detailed explanation.`,
+      verification: null,
+    };
   }
 }
 
+export async function* streamAdminRAGExplanation(input: AdminRAGInput, signal?: AbortSignal): AsyncGenerator<RAGStreamEvent<AdminRAGChunk>> {
+  yield { type: "citations", citations: input.retrievedChunks };
+
+  const messages = buildAdminRAGMessages(input);
+  if (!messages) {
+    const text = `${adminCaseHeader(input)}\n\nNote: No relevant clinical guidance found in knowledge base for this case.`;
+    yield { type: "token", text };
+    yield { type: "verification", verification: null };
+    yield { type: "done", text };
+    return;
+  }
+
+  let explanation = "";
+  const tokens = getLlmProvider().streamChat(messages, { maxTokens: 800, temperature: 0.3, signal, purpose: "admin_explanation" });
+  for await (const text of tokens) {
+    explanation += text;
+    yield { type: "token", text };
+  }
+  const verification = explanation
+    ? verifyCitations(explanation, input.retrievedChunks.map(c => ({ chunkId: c.chunkId, content: c.content })))
+    : null;
+  yield { type: "verification", verification };
+  yield { type: "done", text: explanation };
+}
+
 // Retrieve relevant chunks based on patient symptoms and risk assessment
 export async function retrieveRelevantChunks(
   complaint: string,
   symptoms: Record<string, any>,
   redFlags: string[]
-): Promise<Array<{ chunkId: number; sourceTitle: string; content: string }>> {
-  const allChunks = await storage.getAllChunks();
+): Promise<Array<AdminRAGChunk & { citation: string }>> {
   const allDocuments = await storage.getDocuments();
   
   // Build search query from complaint, symptoms, and red flags
-  const searchTerms = [
+  const searchQuery = [
     complaint,
-    ...Object.keys(symptoms).filter(k => symptoms[k] === true),
+    // camelCase answer keys (e.g. "shortnessOfBreath") split into words for embedding
+    ...Object.keys(symptoms).filter(k => symptoms[k] === true).map(k => k.replace(/([a-z])([A-Z])/g, "$1 $2")),
     ...redFlags
-  ].join(" ").toLowerCase();
-
-  const keywords = searchTerms.split(/\W+/).filter(w => w.length > 3);
-
-  const scored = allChunks.map(chunk => {
-    const text = chunk.chunkText.toLowerCase();
-    let score = 0;
-    keywords.forEach(k => {
-      if (text.includes(k)) score += 1;
-    });
-    return { ...chunk, score };
-  });
+  ].join(" ");
 
   // Top 5 most relevant chunks
-  const topChunks = scored
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 5)
-    .filter(c => c.score > 0);
+  const topChunks = await searchChunks(searchQuery, 5);
 
   // Get document names
   const docMap = new Map(allDocuments.map(d => [d.id, d.name]));
@@ -220,6 +458,7 @@ export async function retrieveRelevantChunks(
   return topChunks.map(chunk => ({
     chunkId: chunk.id,
     sourceTitle: docMap.get(chunk.documentId) || `Document ${chunk.documentId}`,
+    citation: formatCitationLabel(docMap.get(chunk.documentId) || `Document ${chunk.documentId}`, chunk.metadata as Record<string, any>),
     content: chunk.chunkText
   }));
 }
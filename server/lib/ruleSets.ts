@@ -0,0 +1,152 @@
+// Rule set storage and activation
+// Rule sets live in the rule_sets table keyed by the sha256 of their definition, so a
+// submission's rulesHash always identifies the exact rules that produced its risk band.
+// The active set is loaded into the rules engine's in-memory cache at startup and whenever
+// a different set is activated.
+//
+// Edits go through a single draft row (status "draft") copied from the active set. The draft
+// is re-validated on every read and can be tested against answers before it is published.
+
+import { storage } from "../storage";
+import type { StoredRuleSet } from "@shared/schema";
+import type { RuleSetDraft, RuleValidation } from "@shared/routes";
+import {
+  bundledRuleSet,
+  getActiveRuleSet,
+  hashRuleSet,
+  setActiveRuleSet,
+  type Rule,
+  type RuleSet,
+  type VersionedRuleSet,
+} from "./rules";
+import { validateRuleSet } from "./ruleValidator";
+import { missingCatalogueRules } from "./complaintCatalogue";
+
+export class RuleSetValidationError extends Error {
+  constructor(readonly validation: RuleValidation) {
+    super("The draft rule set has validation errors and cannot be published");
+    this.name = "RuleSetValidationError";
+  }
+}
+
+export function toVersionedRuleSet(row: StoredRuleSet): VersionedRuleSet {
+  return { version: row.version, hash: row.hash, definition: row.definition as RuleSet };
+}
+
+// Stores a definition as the next version, or returns the existing row with the same content
+export async function storeRuleSet(definition: RuleSet, notes?: string): Promise<StoredRuleSet> {
+  const hash = hashRuleSet(definition);
+  const existing = await storage.getRuleSetByHash(hash);
+  if (existing) return existing;
+
+  const version = (await storage.getLatestRuleSetVersion()) + 1;
+  return storage.createRuleSet({ version, hash, definition, status: "retired", notes: notes ?? null });
+}
+
+export async function activateRuleSet(id: number): Promise<VersionedRuleSet> {
+  const row = await storage.activateRuleSet(id);
+  const active = toVersionedRuleSet(row);
+  setActiveRuleSet(active);
+  return active;
+}
+
+// Loads the active rule set into the cache; on first start the bundled redFlagRules.json
+// becomes version 1. Later edits to that file are not activated automatically, so an
+// existing deployment keeps the rules it has been auditing against. A changed bundled file is
+// stored as a retired version instead, and every bundled rule (and catalogue complaint rule)
+// the active set lacks is logged so it can be added through the rule editor.
+export async function loadActiveRuleSet(): Promise<VersionedRuleSet> {
+  const row = await storage.getActiveRuleSet();
+  if (row) {
+    const active = toVersionedRuleSet(row);
+    setActiveRuleSet(active);
+    const missingBundled = await reportBundledChanges(active);
+    const missing = missingCatalogueRules(active.definition.rules.map((r) => r.code))
+      .filter((m) => !missingBundled.includes(m.code));
+    if (missing.length > 0) {
+      const list = missing.map((m) => `${m.code} (${m.complaint})`).join(", ");
+      console.warn(`[rules] active rule set v${active.version} lacks complaint catalogue rules: ${list}`);
+    }
+    return active;
+  }
+
+  const stored = await storeRuleSet(bundledRuleSet, "Bundled default rule set");
+  return activateRuleSet(stored.id);
+}
+
+// Codes of the bundled rules the active set lacks
+async function reportBundledChanges(active: VersionedRuleSet): Promise<string[]> {
+  const hash = hashRuleSet(bundledRuleSet);
+  if (hash === active.hash) return [];
+
+  const isNew = !(await storage.getRuleSetByHash(hash));
+  const stored = await storeRuleSet(bundledRuleSet, "Bundled redFlagRules.json (not activated)");
+  if (isNew) {
+    console.warn(`[rules] redFlagRules.json differs from active rule set v${active.version}; stored it as retired v${stored.version} (${hash.slice(0, 12)})`);
+  }
+
+  const activeCodes = new Set(active.definition.rules.map((r) => r.code));
+  const missing = bundledRuleSet.rules.filter((r) => !r.disabled && !activeCodes.has(r.code)).map((r) => r.code);
+  if (missing.length > 0) {
+    console.warn(`[rules] active rule set v${active.version} lacks ${missing.length} bundled rule(s) from v${stored.version}: ${missing.join(", ")}`);
+  }
+  return missing;
+}
+
+// Rule set a historic submission was evaluated with, for replaying its triage decision
+export async function getRuleSetByHash(hash: string): Promise<VersionedRuleSet | null> {
+  const row = await storage.getRuleSetByHash(hash);
+  return row ? toVersionedRuleSet(row) : null;
+}
+
+function toDraft(row: StoredRuleSet): RuleSetDraft {
+  const definition = row.definition as RuleSet;
+  return { id: row.id, version: row.version, hash: row.hash, definition, validation: validateRuleSet(definition) };
+}
+
+export async function getDraft(): Promise<RuleSetDraft | null> {
+  const row = await storage.getDraftRuleSet();
+  return row ? toDraft(row) : null;
+}
+
+// Starts a draft from the active rule set; returns null if a draft already exists
+export async function createDraft(): Promise<RuleSetDraft | null> {
+  if (await storage.getDraftRuleSet()) return null;
+  const { definition } = getActiveRuleSet();
+  const row = await storage.createRuleSet({
+    version: (await storage.getLatestRuleSetVersion()) + 1,
+    hash: hashRuleSet(definition),
+    definition,
+    status: "draft",
+  });
+  return toDraft(row);
+}
+
+// Applies an edit to the draft's rule list and re-hashes it
+export async function updateDraftRules(
+  draft: RuleSetDraft,
+  edit: (rules: Rule[]) => Rule[]
+): Promise<RuleSetDraft> {
+  const definition: RuleSet = { ...draft.definition, rules: edit(draft.definition.rules) };
+  const row = await storage.updateRuleSet(draft.id, { definition, hash: hashRuleSet(definition) });
+  return toDraft(row);
+}
+
+export async function discardDraft(draft: RuleSetDraft): Promise<void> {
+  await storage.deleteRuleSet(draft.id);
+}
+
+// Activates the draft. If its content matches an already published set, that set is
+// re-activated instead so each hash keeps a single version number.
+export async function publishDraft(draft: RuleSetDraft, notes?: string): Promise<VersionedRuleSet> {
+  if (!draft.validation.valid) throw new RuleSetValidationError(draft.validation);
+
+  const published = await storage.getRuleSetByHash(draft.hash);
+  if (published) {
+    await storage.deleteRuleSet(draft.id);
+    return activateRuleSet(published.id);
+  }
+
+  if (notes) await storage.updateRuleSet(draft.id, { notes });
+  return activateRuleSet(draft.id);
+}
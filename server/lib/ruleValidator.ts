@@ -0,0 +1,413 @@
+// Rule set validator
+// Run on every draft edit and required to pass before a draft is published. Beyond the
+// structure (ruleSetSchema) it reports duplicate codes, fact keys and complaints the
+// interview never produces, malformed comparison values, criteria that contradict each
+// other within an `all` group, and rules whose condition can never be true.
+//
+// Reachability works on the condition's disjunctive normal form: a rule is unreachable
+// when every conjunction contains a conflict (e.g. severity_score > 8 and < 6, or a
+// complaint scope of "headache" with a `not: { complaint: "headache" }` predicate). A chat
+// can present with several complaints, so different complaints never conflict. Negations
+// that cannot be expressed exactly are treated as unconstrained, so the check can miss
+// unreachable rules but never flags a reachable one.
+
+import { ruleSetSchema, type RuleValidation, type RuleValidationIssue } from "@shared/routes";
+import type { Rule, RuleComparisonOp, RuleCondition, RuleSet } from "@shared/schema";
+import { catalogueFields, COMPLAINTS } from "./complaintCatalogue";
+import { flowFields } from "./interviewFlow";
+import { factName } from "./rules";
+
+// Facts the chat interview, the triage form and fact extraction can produce (after
+// toFacts() turns camelCase answers into snake_case). A rule on any other key never fires.
+export const KNOWN_FACTS = new Set([
+  // Demographics and presenting complaint
+  "age_years", "age_months", "sex", "complaint", "complaints", "chief_complaint", "onset", "duration",
+  "progression", "time_trend", "getting_worse", "severity_score", "location", "character",
+  "aggravating", "relieving", "associated", "associated_symptoms",
+  // Danger checks
+  "shortness_of_breath", "collapse", "fainting", "confusion", "altered_mental_state",
+  "severe_bleeding", "severe_pain",
+  // Complaint-specific red flags
+  "chest_pain", "radiating_pain", "sweating", "nausea", "cardiac_history", "cyanosis",
+  "speaking_difficulty", "wheezing", "wheeze", "coughing_blood", "vomiting", "vomiting_blood",
+  "bloody_stools", "worse_with_movement", "rigid_abdomen", "fever_with_pain", "pregnant_possible",
+  "bleeding", "vaginal_bleeding", "thunderclap", "neck_stiffness", "visual_disturbance",
+  "neurological_symptoms", "photophobia", "non_blanching_rash", "can_keep_fluids", "fever",
+  "face_droop", "arm_weakness", "speech_difficulty", "throat_swelling", "lip_tongue_swelling",
+  // Paediatric traffic-light features
+  "paediatric", "mottled_or_blue", "abnormal_cry", "grunting_or_recession", "bulging_fontanelle",
+  "seizure", "reduced_activity", "poor_feeding", "fever_five_days", "limb_problem", "green_vomit",
+  "testicular_pain",
+  // Pregnancy branch
+  "gestation_weeks", "pregnancy_uncertain", "pelvic_pain", "pre_eclampsia_symptoms",
+  "reduced_fetal_movements",
+  // Mental health risk assessment
+  "suicidal_thoughts", "suicidal_plans", "access_to_means", "recent_self_harm", "can_keep_safe",
+  // Questions in the interview flow and red flag questions in the complaint catalogue
+  ...flowFields().map(factName),
+  ...catalogueFields().map(factName),
+  // Context and function
+  "medical_history", "relevant_history", "medications", "current_meds", "allergies",
+  "previous_surgery", "can_eat_drink", "can_move", "stopping_activities",
+  // Observations and clinical score inputs
+  "temperature", "oxygen_saturation", "heart_rate", "systolic_bp", "diastolic_bp",
+  "respiratory_rate", "on_oxygen", "hypercapnic_respiratory_failure", "consciousness", "urea",
+  "cardiac_risk_factors", "tonsil_exudate", "tonsils_inflamed", "cough", "coryza",
+  "tender_neck_glands", "recent_onset",
+  // Clinical scores (clinicalScores.ts)
+  "news2_score", "news2_single_parameter_3", "crb65_score", "curb65_score", "feverpain_score",
+  "centor_score", "heart_score",
+]);
+
+// Values outside these ranges are never reported, so comparisons needing them never match
+const FACT_RANGES: Record<string, [number, number]> = {
+  severity_score: [0, 10],
+  age_years: [0, 130],
+  temperature: [25, 45],
+  oxygen_saturation: [0, 100],
+  gestation_weeks: [0, 45],
+  news2_score: [0, 20],
+  crb65_score: [0, 4],
+  curb65_score: [0, 5],
+  feverpain_score: [0, 5],
+  centor_score: [0, 4],
+  heart_score: [0, 10],
+};
+
+const SEXES = new Set(["female", "male", "other"]);
+const NUMERIC_OPS: RuleComparisonOp[] = ["gt", "gte", "lt", "lte"];
+
+// Past this many conjunctions the reachability check gives up and assumes reachable
+const MAX_CLAUSES = 512;
+
+type Atom =
+  | { kind: "fact"; key: string; op: RuleComparisonOp; value: unknown }
+  | { kind: "set"; key: "sex" | "complaint"; values: string[]; negated: boolean };
+
+type Clause = Atom[];
+
+function normaliseSex(value: string): string {
+  const v = value.trim().toLowerCase();
+  if (v === "f" || v === "woman") return "female";
+  if (v === "m" || v === "man") return "male";
+  return v;
+}
+
+function setValues(key: "sex" | "complaint", value: string | string[]): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  return list.map((v) => (key === "sex" ? normaliseSex(v) : v.trim().toLowerCase()));
+}
+
+// Age predicates are checked as age_years; month thresholds are converted
+function ageAtom(age: { op: RuleComparisonOp; value?: unknown; unit?: "years" | "months" }): Atom {
+  const toYears = (v: unknown) => (age.unit === "months" && typeof v === "number" ? v / 12 : v);
+  const value = Array.isArray(age.value) ? age.value.map(toYears) : toYears(age.value);
+  return { kind: "fact", key: "age_years", op: age.op, value };
+}
+
+// Pushes `not` inward. Only negations with an exact (or wider) positive form are kept;
+// anything else becomes an unconstrained condition.
+function negate(condition: RuleCondition): RuleCondition {
+  if ("all" in condition) return { any: condition.all.map(negate) };
+  if ("any" in condition) return { all: condition.any.map(negate) };
+  if ("not" in condition) return condition.not;
+  if ("fact" in condition) {
+    const missing: RuleCondition = { fact: condition.fact, op: "exists", value: false };
+    if (condition.op === "exists") return { fact: condition.fact, op: "exists", value: !(condition.value ?? true) };
+    if (condition.op === "eq") return { any: [{ fact: condition.fact, op: "ne", value: condition.value }, missing] };
+    if (condition.op === "ne") return { any: [{ fact: condition.fact, op: "eq", value: condition.value }, missing] };
+    return { all: [] };
+  }
+  return { all: [] };
+}
+
+function dnf(condition: RuleCondition): Clause[] | null {
+  if ("all" in condition) {
+    let clauses: Clause[] = [[]];
+    for (const child of condition.all) {
+      const childClauses = dnf(child);
+      if (!childClauses) return null;
+      const next: Clause[] = [];
+      for (const a of clauses) for (const b of childClauses) next.push([...a, ...b]);
+      if (next.length > MAX_CLAUSES) return null;
+      clauses = next;
+    }
+    return clauses;
+  }
+  if ("any" in condition) {
+    const clauses: Clause[] = [];
+    for (const child of condition.any) {
+      const childClauses = dnf(child);
+      if (!childClauses) return null;
+      clauses.push(...childClauses);
+      if (clauses.length > MAX_CLAUSES) return null;
+    }
+    return clauses;
+  }
+  if ("not" in condition) {
+    const inner = condition.not;
+    if ("sex" in inner) return [[{ kind: "set", key: "sex", values: setValues("sex", inner.sex), negated: true }]];
+    if ("complaint" in inner) {
+      return [[{ kind: "set", key: "complaint", values: setValues("complaint", inner.complaint), negated: true }]];
+    }
+    return dnf(negate(inner));
+  }
+  if ("fact" in condition) return [[{ kind: "fact", key: condition.fact, op: condition.op, value: condition.value }]];
+  if ("age" in condition) return [[ageAtom(condition.age)]];
+  if ("sex" in condition) return [[{ kind: "set", key: "sex", values: setValues("sex", condition.sex), negated: false }]];
+  return [[{ kind: "set", key: "complaint", values: setValues("complaint", condition.complaint), negated: false }]];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === "string" && typeof b === "string") return a.toLowerCase() === b.toLowerCase();
+  return a === b;
+}
+
+function describe(atom: Extract<Atom, { kind: "fact" }>): string {
+  const symbols: Partial<Record<RuleComparisonOp, string>> = { eq: "=", ne: "≠", gt: ">", gte: "≥", lt: "<", lte: "≤" };
+  if (atom.op === "exists") return atom.value === false ? "absent" : "present";
+  if (atom.op === "between") return `between ${JSON.stringify(atom.value)}`;
+  if (atom.op === "in") return `in ${JSON.stringify(atom.value)}`;
+  return `${symbols[atom.op]} ${JSON.stringify(atom.value)}`;
+}
+
+// Why no single value of `key` can satisfy all of these comparisons, or null if one can
+function factConflict(key: string, atoms: Array<Extract<Atom, { kind: "fact" }>>): string | null {
+  const range = FACT_RANGES[key];
+  const conflict = () =>
+    `${key} cannot be ${atoms.map(describe).join(" and ")}${range ? ` (reported range ${range[0]}-${range[1]})` : ""}`;
+  let lo = range ? range[0] : -Infinity;
+  let hi = range ? range[1] : Infinity;
+  let loOpen = false;
+  let hiOpen = false;
+  let numeric = false;
+  let mustExist = false;
+  let mustBeAbsent = false;
+  const equals: unknown[] = [];
+  const notEquals: unknown[] = [];
+  let allowed: unknown[] | null = null;
+
+  const raiseLo = (v: number, open: boolean) => {
+    if (v > lo || (v === lo && open)) { lo = v; loOpen = open; }
+  };
+  const lowerHi = (v: number, open: boolean) => {
+    if (v < hi || (v === hi && open)) { hi = v; hiOpen = open; }
+  };
+
+  for (const atom of atoms) {
+    if (atom.op === "exists") {
+      if (atom.value === false) mustBeAbsent = true;
+      else mustExist = true;
+      continue;
+    }
+    mustExist = true;
+    const value = atom.value;
+    if (atom.op === "eq") equals.push(value);
+    else if (atom.op === "ne") notEquals.push(value);
+    else if (atom.op === "in" && Array.isArray(value)) {
+      allowed = allowed ? allowed.filter((v) => value.some((w) => sameValue(v, w))) : value;
+    } else if (atom.op === "between" && Array.isArray(value)) {
+      numeric = true;
+      raiseLo(Number(value[0]), false);
+      lowerHi(Number(value[1]), false);
+    } else if (typeof value === "number") {
+      numeric = true;
+      if (atom.op === "gt") raiseLo(value, true);
+      if (atom.op === "gte") raiseLo(value, false);
+      if (atom.op === "lt") lowerHi(value, true);
+      if (atom.op === "lte") lowerHi(value, false);
+    }
+  }
+
+  if (mustExist && mustBeAbsent) return `${key} is required to be both present and absent`;
+
+  const inRange = (v: unknown) =>
+    typeof v === "number" && (v > lo || (v === lo && !loOpen)) && (v < hi || (v === hi && !hiOpen));
+
+  if (lo > hi || (lo === hi && (loOpen || hiOpen))) return conflict();
+  if (equals.some((v) => !sameValue(v, equals[0]))) return conflict();
+  if (equals.length > 0) {
+    const value = equals[0];
+    if (notEquals.some((v) => sameValue(v, value))) return conflict();
+    if (allowed && !allowed.some((v) => sameValue(v, value))) return conflict();
+    if ((numeric || (range && typeof value === "number")) && !inRange(value)) return conflict();
+  }
+  if (allowed) {
+    const remaining: unknown[] = allowed.filter((v) => !notEquals.some((w) => sameValue(v, w)));
+    if (remaining.length === 0) return conflict();
+    if (numeric && !remaining.some(inRange)) return conflict();
+  }
+  return null;
+}
+
+function setConflict(key: "sex" | "complaint", atoms: Array<Extract<Atom, { kind: "set" }>>): string | null {
+  let required: string[] | null = null;
+  const excluded = new Set<string>();
+  for (const atom of atoms) {
+    if (atom.negated) atom.values.forEach((v) => excluded.add(v));
+    else required = required ? required.filter((v) => atom.values.includes(v)) : atom.values;
+  }
+  if (key === "complaint") {
+    // Each complaint criterion only needs one of its complaints among those presented
+    const blocked = atoms.find((a) => !a.negated && a.values.every((v) => excluded.has(v)));
+    return blocked ? `complaint cannot be ${blocked.values.join(" or ")} while not ${Array.from(excluded).join(" or ")}` : null;
+  }
+  if (!required) return null;
+  const remaining = required.filter((v) => !excluded.has(v));
+  if (remaining.length > 0) return null;
+  const wanted = atoms.filter((a) => !a.negated).map((a) => a.values.join(" or "));
+  const unwanted = Array.from(excluded);
+  return `${key} cannot be ${wanted.join(" and ")}${unwanted.length ? ` while not ${unwanted.join(" or ")}` : ""}`;
+}
+
+function clauseConflict(clause: Clause): string | null {
+  const facts = new Map<string, Array<Extract<Atom, { kind: "fact" }>>>();
+  const sets = new Map<"sex" | "complaint", Array<Extract<Atom, { kind: "set" }>>>();
+  for (const atom of clause) {
+    if (atom.kind === "fact") facts.set(atom.key, [...(facts.get(atom.key) ?? []), atom]);
+    else sets.set(atom.key, [...(sets.get(atom.key) ?? []), atom]);
+  }
+  for (const [key, atoms] of Array.from(facts)) {
+    const reason = factConflict(key, atoms);
+    if (reason) return reason;
+  }
+  for (const [key, atoms] of Array.from(sets)) {
+    const reason = setConflict(key, atoms);
+    if (reason) return reason;
+  }
+  return null;
+}
+
+// null when satisfiable (or too large to check); otherwise the first conflict found
+function unsatisfiableReason(condition: RuleCondition): string | null {
+  const clauses = dnf(condition);
+  if (!clauses) return null;
+  if (clauses.length === 0) return "an empty `any` group never matches";
+  let firstReason: string | null = null;
+  for (const clause of clauses) {
+    const reason = clauseConflict(clause);
+    if (!reason) return null;
+    firstReason ??= reason;
+  }
+  return firstReason;
+}
+
+function valueProblem(op: RuleComparisonOp, value: unknown): string | null {
+  if (NUMERIC_OPS.includes(op) && typeof value !== "number") return `"${op}" needs a number`;
+  if (op === "between") {
+    if (!Array.isArray(value) || value.length !== 2 || value.some((v) => typeof v !== "number")) {
+      return `"between" needs [min, max] numbers`;
+    }
+    if (value[0] > value[1]) return `"between" minimum ${value[0]} is above maximum ${value[1]}`;
+  }
+  if (op === "in" && (!Array.isArray(value) || value.length === 0)) return `"in" needs a non-empty list`;
+  if ((op === "eq" || op === "ne") && value === undefined) return `"${op}" needs a value`;
+  if (op === "exists" && value !== undefined && typeof value !== "boolean") return `"exists" takes true or false`;
+  return null;
+}
+
+function checkCondition(condition: RuleCondition, path: string, rule: Rule, issues: RuleValidationIssue[]): void {
+  const issue = (level: RuleValidationIssue["level"], kind: RuleValidationIssue["kind"], message: string, at = path) =>
+    issues.push({ level, kind, rule: rule.code, path: at, message });
+
+  if ("all" in condition || "any" in condition) {
+    const group = "all" in condition ? condition.all : condition.any;
+    const name = "all" in condition ? "all" : "any";
+    group.forEach((child, i) => checkCondition(child, `${path}.${name}[${i}]`, rule, issues));
+    if ("all" in condition) {
+      if (group.length === 0) issue("warning", "always_fires", "Empty `all` group always matches");
+      // Report the conflict where it arises: each part can match, but not together
+      const reason = group.every((child) => !unsatisfiableReason(child)) ? unsatisfiableReason(condition) : null;
+      if (reason) issue("error", "contradiction", `Contradictory criteria: ${reason}`);
+    }
+    return;
+  }
+  if ("not" in condition) {
+    checkCondition(condition.not, `${path}.not`, rule, issues);
+    return;
+  }
+  if ("fact" in condition) {
+    if (!KNOWN_FACTS.has(condition.fact)) {
+      issue("error", "unknown_fact", `Unknown fact "${condition.fact}"; no answer or extracted fact sets it`);
+    }
+    const problem = valueProblem(condition.op, condition.value);
+    if (problem) issue("error", "invalid_value", `${condition.fact}: ${problem}`);
+    return;
+  }
+  if ("age" in condition) {
+    const problem = valueProblem(condition.age.op, condition.age.value);
+    if (problem) issue("error", "invalid_value", `age: ${problem}`);
+    return;
+  }
+  if ("sex" in condition) {
+    for (const sex of setValues("sex", condition.sex)) {
+      if (!SEXES.has(sex)) issue("error", "invalid_value", `Unknown sex "${sex}" (expected female, male or other)`);
+    }
+    return;
+  }
+  for (const complaint of setValues("complaint", condition.complaint)) {
+    if (!COMPLAINTS.includes(complaint)) issue("error", "unknown_complaint", `Unknown complaint "${complaint}"`);
+  }
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((acc, part) => (typeof part === "number" ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part), "");
+}
+
+export function validateRuleSet(input: unknown): RuleValidation {
+  const parsed = ruleSetSchema.safeParse(input);
+  if (!parsed.success) {
+    const rules = (input as { rules?: Array<{ code?: unknown }> } | null)?.rules;
+    return {
+      valid: false,
+      issues: parsed.error.errors.map((e) => {
+        const index = e.path[0] === "rules" && typeof e.path[1] === "number" ? e.path[1] : null;
+        const code = index != null ? rules?.[index]?.code : null;
+        return {
+          level: "error" as const,
+          kind: "schema" as const,
+          rule: typeof code === "string" ? code : null,
+          path: formatPath(e.path),
+          message: e.message,
+        };
+      }),
+    };
+  }
+
+  const ruleSet: RuleSet = parsed.data;
+  const issues: RuleValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  ruleSet.rules.forEach((rule, i) => {
+    const path = `rules[${i}]`;
+    if (seen.has(rule.code)) {
+      issues.push({ level: "error", kind: "duplicate_code", rule: rule.code, path, message: `Duplicate rule code ${rule.code}` });
+    }
+    seen.add(rule.code);
+
+    for (const complaint of rule.complaints ?? []) {
+      if (!COMPLAINTS.includes(complaint.toLowerCase())) {
+        issues.push({
+          level: "error", kind: "unknown_complaint", rule: rule.code, path: `${path}.complaints`,
+          message: `Unknown complaint "${complaint}"; the rule would never apply`,
+        });
+      }
+    }
+
+    checkCondition(rule.when, `${path}.when`, rule, issues);
+
+    // A complaint scope behaves like an extra `complaint` predicate
+    const scoped: RuleCondition = rule.complaints?.length
+      ? { all: [{ complaint: rule.complaints }, rule.when] }
+      : rule.when;
+    const reason = unsatisfiableReason(scoped);
+    if (reason) {
+      issues.push({
+        level: "error", kind: "unreachable", rule: rule.code, path,
+        message: `${rule.code} can never fire: ${reason}`,
+      });
+    }
+  });
+
+  return { valid: !issues.some((i) => i.level === "error"), issues };
+}
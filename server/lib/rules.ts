@@ -1,77 +1,321 @@
 // Triage Rules Engine
-// Version: 0.1.0
+// Interprets the declarative rule set in redFlagRules.json. The same rules decide the
+// submission risk band and the handoff's red-flag list, so the two cannot disagree.
+//
+// Each rule has a code, label, severity (RED | AMBER), an optional `complaints` scope and a
+// `when` condition built from:
+//   { all: [...] } | { any: [...] } | { not: {...} }
+//   { fact, op: eq | ne | gt | gte | lt | lte | in | between | exists, value }
+//   { age: { op, value, unit?: "years" | "months" } }
+//   { sex: "female" | ["female", "male"] }
+//   { complaint: "chest pain" | [...] }
+// Complaint scopes and predicates match any of the presenting complaints, so a chat about
+// "chest pain and a headache" runs the rules of both.
+// Rules marked `disabled: true` stay in the set but are skipped.
+// A question the patient could not answer is the fact value "unknown". Conditions are then
+// three-valued: a comparison on an unknown fact is unknown (so is its `not`), `all` is false if
+// any part is false and `any` true if any part is true. A rule whose condition is unknown is
+// listed as not assessed, and a RED one raises the band to at least Amber.
+// Facts are snake_case; camelCase chat answers are normalised by toFacts(). Clinical scores
+// (NEWS2, CRB-65, HEART, ... see clinicalScores.ts) are computed from the facts and added as
+// *_score facts before the rules run.
+//
+// Rule sets are stored as versioned, content-hashed artifacts (rule_sets table, see
+// ruleSets.ts). The active one is cached here so evaluation stays synchronous, and every
+// result carries the version and hash it was produced with.
+
+import { createHash } from "crypto";
+import { UNKNOWN_ANSWER, type RuleComparisonOp, type RuleCondition, type Rule, type RuleSet, type RuleSeverity, type YesNoAnswer } from "@shared/schema";
+import bundledRuleSetJson from "./redFlagRules.json";
+import { computeClinicalScores, scoreFacts } from "./clinicalScores";
+import { presentingComplaints } from "./complaintCatalogue";
 
 type RiskBand = "Red" | "Amber" | "Green";
 
+export type { RuleCondition, Rule, RuleSet, RuleSeverity } from "@shared/schema";
+
+export interface RuleMatch {
+  code: string;
+  label: string;
+  severity: RuleSeverity;
+  evidence: string;
+}
+
+export interface RuleEvaluation {
+  riskBand: RiskBand;
+  fired: RuleMatch[];
+  // Applicable rules that did not fire, split by whether any of their facts were known
+  notTriggered: RuleMatch[];
+  notAssessed: RuleMatch[];
+  // Not assessed rules that would fire for some answer to a question the patient did not know
+  unknown: RuleMatch[];
+}
+
+// A rule set definition plus the version and hash recorded on submissions
+export interface VersionedRuleSet {
+  version: number;
+  hash: string;
+  definition: RuleSet;
+}
+
 interface TriageResult {
   riskBand: RiskBand;
   redFlags: string[];
   summary: string;
+  rulesVersion: number;
+  rulesHash: string;
+  firedRules: string[];
+}
+
+// Keys are sorted so the hash depends only on content, not on key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashRuleSet(definition: RuleSet): string {
+  return createHash("sha256").update(canonicalJson(definition)).digest("hex");
 }
 
-interface Answers {
-  complaint: string;
-  age: number;
-  sex: string;
-  severity: number;
-  [key: string]: any;
+// Shipped with the code; seeds rule_sets on first start. Imported rather than read from
+// disk so the production bundle carries it.
+export const bundledRuleSet = bundledRuleSetJson as RuleSet;
+
+// Version 0 marks the bundled set before the stored active set has been loaded
+let activeRuleSet: VersionedRuleSet = {
+  version: 0,
+  hash: hashRuleSet(bundledRuleSet),
+  definition: bundledRuleSet,
+};
+
+export function getActiveRuleSet(): VersionedRuleSet {
+  return activeRuleSet;
+}
+
+export function setActiveRuleSet(ruleSet: VersionedRuleSet): void {
+  activeRuleSet = ruleSet;
 }
 
-export function evaluateTriage(answers: Answers): TriageResult {
-  const flags: string[] = [];
-  let band: RiskBand = "Green";
+// Chat answers whose fact name is not just the snake_case of the key
+const FACT_ALIASES: Record<string, string> = {
+  age: "age_years",
+  severity: "severity_score",
+  pregnancy: "pregnant_possible",
+};
+
+// Only used when the primary answer for that fact is missing
+const FALLBACK_ALIASES: Record<string, string> = {
+  troubleBreathing: "shortness_of_breath",
+  openingDescription: "chief_complaint",
+};
+
+function snakeCase(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
 
-  const { severity, age } = answers;
-  const complaint = answers.complaint?.toLowerCase() || "";
+// Fact name a camelCase chat answer is reported under
+export function factName(key: string): string {
+  return FACT_ALIASES[key] ?? snakeCase(key);
+}
 
-  // --- Global Red Flags ---
-  if (answers.confusion) flags.push("New confusion");
-  if (answers.severeBleeding) flags.push("Severe bleeding");
-  if (severity >= 9) flags.push("Pain severity 9-10/10");
+// Normalise chat answers (camelCase) and extracted facts (snake_case) into one fact map.
+// Facts already in snake_case win, since they may be corrections from fact extraction.
+export function toFacts(input: Record<string, any>): Record<string, any> {
+  const derived: Record<string, any> = {};
+  const explicit: Record<string, any> = {};
 
-  // --- Complaint Specific Rules ---
-  
-  // Chest Pain
-  if (complaint === "chest pain") {
-    if (answers.shortnessOfBreath) flags.push("Chest pain + SOB");
-    if (answers.radiatingPain) flags.push("Radiating pain");
-    if (age > 50 && severity > 5) flags.push("Age > 50 with moderate chest pain");
-    if (answers.cardiacHistory) flags.push("History of heart disease");
+  for (const [key, value] of Object.entries(input)) {
+    if (value == null || key in FALLBACK_ALIASES) continue;
+    if (key in FACT_ALIASES || /[A-Z]/.test(key)) derived[factName(key)] = value;
+    else explicit[key] = value;
+  }
+  for (const [key, fact] of Object.entries(FALLBACK_ALIASES)) {
+    if (derived[fact] == null && input[key] != null) derived[fact] = input[key];
   }
 
-  // Shortness of Breath
-  if (complaint === "shortness of breath") {
-    if (answers.cyanosis) flags.push("Cyanosis (blue lips/skin)");
-    if (answers.speakingDifficulty) flags.push("Unable to speak full sentences");
+  return { ...derived, ...explicit };
+}
+
+// A score supplied explicitly (e.g. by a clinician) wins over the computed one
+export function withScores(facts: Record<string, any>): Record<string, any> {
+  return { ...scoreFacts(computeClinicalScores(facts)), ...facts };
+}
+
+function normaliseSex(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const v = value.trim().toLowerCase();
+  if (v === "f" || v === "female" || v === "woman") return "female";
+  if (v === "m" || v === "male" || v === "man") return "male";
+  return v;
+}
+
+// True when any presenting complaint matches. Free-text complaints ("crushing chest pain")
+// still match their catalogue name.
+function complaintMatches(facts: Record<string, any>, names: string | string[]): boolean {
+  const complaints = presentingComplaints(facts);
+  return (Array.isArray(names) ? names : [names]).some((name) =>
+    complaints.some((complaint) => complaint.includes(name.toLowerCase()))
+  );
+}
+
+function ageIn(facts: Record<string, any>, unit: "years" | "months"): number | undefined {
+  const years = typeof facts.age_years === "number" ? facts.age_years : undefined;
+  const months = typeof facts.age_months === "number" ? facts.age_months : undefined;
+  if (unit === "months") return months ?? (years != null ? years * 12 : undefined);
+  return years ?? (months != null ? Math.floor(months / 12) : undefined);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === "string" && typeof b === "string") return a.toLowerCase() === b.toLowerCase();
+  return a === b;
+}
+
+function compare(actual: unknown, op: RuleComparisonOp, expected: unknown): boolean {
+  if (op === "exists") return (actual != null) === (expected ?? true);
+  if (actual == null) return false;
+
+  switch (op) {
+    case "eq":
+      return sameValue(actual, expected);
+    case "ne":
+      return !sameValue(actual, expected);
+    case "in":
+      return Array.isArray(expected) && expected.some((v) => sameValue(actual, v));
+    case "between": {
+      if (typeof actual !== "number" || !Array.isArray(expected)) return false;
+      const [min, max] = expected as number[];
+      return actual >= min && actual <= max;
+    }
+    default: {
+      if (typeof actual !== "number" || typeof expected !== "number") return false;
+      if (op === "gt") return actual > expected;
+      if (op === "gte") return actual >= expected;
+      if (op === "lt") return actual < expected;
+      return actual <= expected;
+    }
   }
+}
 
-  // Abdominal Pain
-  if (complaint === "abdominal pain") {
-    if (answers.vomitingBlood) flags.push("Vomiting blood");
-    if (answers.rigidAbdomen) flags.push("Rigid abdomen");
-    if (answers.pregnancy && answers.bleeding) flags.push("Pregnancy + bleeding");
+// True, false, or "unknown" when the outcome depends on an answer the patient did not know
+function evaluate(condition: RuleCondition, facts: Record<string, any>): YesNoAnswer {
+  if ("all" in condition) {
+    const parts = condition.all.map((c) => evaluate(c, facts));
+    if (parts.includes(false)) return false;
+    return parts.includes(UNKNOWN_ANSWER) ? UNKNOWN_ANSWER : true;
+  }
+  if ("any" in condition) {
+    const parts = condition.any.map((c) => evaluate(c, facts));
+    if (parts.includes(true)) return true;
+    return parts.includes(UNKNOWN_ANSWER) ? UNKNOWN_ANSWER : false;
+  }
+  if ("not" in condition) {
+    const inner = evaluate(condition.not, facts);
+    return inner === UNKNOWN_ANSWER ? UNKNOWN_ANSWER : !inner;
+  }
+  if ("fact" in condition) {
+    const answer = facts[condition.fact];
+    return answer === UNKNOWN_ANSWER ? UNKNOWN_ANSWER : compare(answer, condition.op, condition.value);
+  }
+  if ("age" in condition) {
+    const { op, value, unit = "years" } = condition.age;
+    return compare(ageIn(facts, unit), op, value);
+  }
+  if ("sex" in condition) {
+    const sex = normaliseSex(facts.sex);
+    const wanted = Array.isArray(condition.sex) ? condition.sex : [condition.sex];
+    return sex != null && wanted.some((s) => normaliseSex(s) === sex);
   }
+  if ("complaint" in condition) return complaintMatches(facts, condition.complaint);
+  return false;
+}
+
+// Holds only when it is known to: a condition resting on an unknown answer does not
+export function evaluateCondition(condition: RuleCondition, facts: Record<string, any>): boolean {
+  return evaluate(condition, facts) === true;
+}
+
+// Fact keys a condition reads; complaint predicates are scoping, not evidence
+function conditionFacts(condition: RuleCondition): string[] {
+  if ("all" in condition) return condition.all.flatMap(conditionFacts);
+  if ("any" in condition) return condition.any.flatMap(conditionFacts);
+  if ("not" in condition) return conditionFacts(condition.not);
+  if ("fact" in condition) return [condition.fact];
+  if ("age" in condition) return ["age_years", "age_months"];
+  if ("sex" in condition) return ["sex"];
+  return [];
+}
+
+function toMatch(rule: Rule): RuleMatch {
+  return { code: rule.code, label: rule.label, severity: rule.severity, evidence: rule.evidence };
+}
 
-  // Headache
-  if (complaint === "headache") {
-    if (answers.thunderclap) flags.push("Sudden 'thunderclap' onset");
-    if (answers.neckStiffness) flags.push("Neck stiffness");
-    if (answers.visualDisturbance) flags.push("Visual disturbance");
+const BAND_BY_SEVERITY: Record<RuleSet["severity_policy"]["default"], RiskBand> = {
+  RED: "Red",
+  AMBER: "Amber",
+  GREEN: "Green",
+};
+
+export function evaluateRules(
+  input: Record<string, any>,
+  ruleSet: RuleSet = getActiveRuleSet().definition
+): RuleEvaluation {
+  const facts = withScores(toFacts(input));
+  const fired: RuleMatch[] = [];
+  const notTriggered: RuleMatch[] = [];
+  const notAssessed: RuleMatch[] = [];
+  const unknown: RuleMatch[] = [];
+
+  for (const rule of ruleSet.rules) {
+    if (rule.disabled) continue;
+    if (rule.complaints && !complaintMatches(facts, rule.complaints)) continue;
+
+    const keys = Array.from(new Set(conditionFacts(rule.when)));
+    const result = evaluate(rule.when, facts);
+    if (result === true) {
+      fired.push(toMatch(rule));
+    } else if (result === UNKNOWN_ANSWER) {
+      notAssessed.push(toMatch(rule));
+      unknown.push(toMatch(rule));
+    } else if (keys.some((key) => facts[key] != null && facts[key] !== UNKNOWN_ANSWER)) {
+      notTriggered.push(toMatch(rule));
+    } else {
+      notAssessed.push(toMatch(rule));
+    }
   }
 
-  // Determine Band
-  if (flags.length > 0) {
-    band = "Red";
-  } else if (severity >= 6 || age > 75) {
-    band = "Amber";
+  // A red flag that could not be ruled out because the patient did not know is at least Amber
+  let riskBand = BAND_BY_SEVERITY[ruleSet.severity_policy.default];
+  if (fired.some((r) => r.severity === "RED") && ruleSet.severity_policy.escalate_if_any_red_flag) {
+    riskBand = "Red";
+  } else if ((fired.some((r) => r.severity === "AMBER") || unknown.some((r) => r.severity === "RED")) && riskBand === "Green") {
+    riskBand = "Amber";
   }
 
-  // Generate Summary
-  const summary = `${age}y ${answers.sex} presenting with ${complaint} (Severity ${severity}/10). Risk: ${band}. Flags: ${flags.length > 0 ? flags.join(", ") : "None"}.`;
+  return { riskBand, fired, notTriggered, notAssessed, unknown };
+}
+
+export function evaluateTriage(
+  answers: Record<string, any>,
+  ruleSet: VersionedRuleSet = getActiveRuleSet()
+): TriageResult {
+  const { riskBand, fired } = evaluateRules(answers, ruleSet.definition);
+  const flags = fired.filter((r) => r.severity === "RED").map((r) => r.label);
+
+  const complaint = presentingComplaints({ complaints: answers.complaints, complaint: answers.complaint }).join(" and ");
+  const summary = `${answers.age ?? "?"}y ${answers.sex} presenting with ${complaint} (Severity ${answers.severity}/10). Risk: ${riskBand}. Flags: ${flags.length > 0 ? flags.join(", ") : "None"}.`;
 
   return {
-    riskBand: band,
+    riskBand,
     redFlags: flags,
     summary,
+    rulesVersion: ruleSet.version,
+    rulesHash: ruleSet.hash,
+    firedRules: fired.map((r) => r.code),
   };
 }
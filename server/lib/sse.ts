@@ -0,0 +1,79 @@
+// Server-Sent Events helper
+// Wraps an Express response as a named-event stream. The returned signal aborts when the
+// client disconnects so upstream work (e.g. an OpenAI completion) can be cancelled.
+
+import type { Response } from "express";
+
+// Comment lines keep idle proxies from closing the connection while the model thinks
+const HEARTBEAT_MS = 15000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  readonly signal: AbortSignal;
+  readonly closed: boolean;
+}
+
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+  let closed = false;
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(": ping\n\n");
+  }, HEARTBEAT_MS);
+
+  // "close" on the response (not the request) fires when the client goes away
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    if (!closed) {
+      closed = true;
+      controller.abort();
+    }
+  });
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      res.end();
+    },
+    signal: controller.signal,
+    get closed() {
+      return closed;
+    },
+  };
+}
+
+// Forward `{ type, ...payload }` events to the stream, reporting failures as an "error"
+// event. Stops quietly if the client disconnects mid-stream.
+export async function pipeEvents(
+  stream: EventStream,
+  events: AsyncIterable<{ type: string }>,
+  errorMessage: string
+): Promise<void> {
+  try {
+    for await (const { type, ...payload } of events) {
+      if (stream.closed) break;
+      stream.send(type, payload);
+    }
+  } catch (err) {
+    if (!stream.signal.aborted) {
+      console.error(`${errorMessage}:`, err);
+      stream.send("error", { message: errorMessage });
+    }
+  } finally {
+    stream.close();
+  }
+}
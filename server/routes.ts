@@ -2,13 +2,27 @@ import type { Express } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
-import { evaluateTriage } from "./lib/rules";
-import { processDocument, queryRAG, generateAdminRAGExplanation, retrieveRelevantChunks } from "./lib/rag";
+import { evaluateTriage, getActiveRuleSet, hashRuleSet, type RuleSet, type VersionedRuleSet } from "./lib/rules";
+import {
+  loadActiveRuleSet, getRuleSetByHash, getDraft, createDraft, updateDraftRules, discardDraft, publishDraft,
+  RuleSetValidationError,
+} from "./lib/ruleSets";
+import { validateRuleSet } from "./lib/ruleValidator";
+import { loadBacktestCases, runBacktest, backtestToCsv } from "./lib/backtest";
+import {
+  processDocument, reprocessDocument, resolveChunk, queryRAG, streamQueryRAG,
+  generateAdminRAGExplanation, streamAdminRAGExplanation, retrieveRelevantChunks, searchChunks,
+} from "./lib/rag";
+import { openEventStream, pipeEvents } from "./lib/sse";
+import { extractDocumentText, UnsupportedDocumentError } from "./lib/documentExtraction";
+import { DuplicateDocumentError } from "./lib/dedup";
 import { z } from "zod";
 import multer from "multer";
-import { registerChatRoutes } from "./replit_integrations/chat";
 import { getNextQuestion, processUserMessage, buildTriageFromChat, generateRAGQuestion, type Stage } from "./lib/chatStateMachine";
-import type { ChatMessage, ChatState } from "@shared/schema";
+import type { ChatMessage, ChatState, ChatTurn } from "@shared/schema";
+import { detectAnswerChange, rewindChat } from "./lib/answerCorrection";
+import { flowStage, flowStageIds } from "./lib/interviewFlow";
+import { abandonIdleChatSessions, chatSessionIdleMinutes, expireIfIdle } from "./lib/chatSessionExpiry";
 import { generateHandoff, evaluateRedFlags, extractFactsFromMessages } from "./lib/handoff";
 import {
   getAdminFromRequest,
@@ -20,13 +34,22 @@ import {
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Numeric route id, or null for anything else ("abc" would otherwise reach storage as NaN)
+function parseId(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   
-  // Register Integration Routes
-  registerChatRoutes(app);
+  // Register Integration Routes. The chat integration builds its own OpenAI client at
+  // import time, so it is skipped when running without a key (mock/local LLM provider).
+  if (process.env.OPENAI_API_KEY) {
+    const { registerChatRoutes } = await import("./replit_integrations/chat");
+    registerChatRoutes(app);
+  }
 
   // Triage API
   app.post(api.triage.submit.path, async (req, res) => {
@@ -34,7 +57,7 @@ export async function registerRoutes(
       const input = api.triage.submit.input.parse(req.body);
       
       // 1. Run Rules
-      const result = evaluateTriage(input.answers);
+      const result = evaluateTriage(input.answers as Record<string, any>);
       
       // 2. Save
       const submission = await storage.createSubmission({
@@ -42,7 +65,9 @@ export async function registerRoutes(
         riskBand: result.riskBand,
         redFlags: result.redFlags,
         summary: result.summary,
-        rulesVersion: "0.1.0",
+        rulesVersion: String(result.rulesVersion),
+        rulesHash: result.rulesHash,
+        firedRules: result.firedRules,
         modelVersion: "gpt-5.1" // For RAG later
       });
       
@@ -73,6 +98,36 @@ export async function registerRoutes(
     res.json({ ...submission, overrides, sessionId: sessionId ?? undefined });
   });
 
+  // Audit: re-run the submission's answers through the exact rule set it was triaged with
+  app.get(api.submissions.provenance.path, async (req, res) => {
+    try {
+      const submission = await storage.getSubmission(Number(req.params.id));
+      if (!submission) return res.status(404).json({ message: "Not found" });
+
+      const ruleSet = submission.rulesHash ? await getRuleSetByHash(submission.rulesHash) : null;
+      const replay = ruleSet ? evaluateTriage(submission.answers as Record<string, any>, ruleSet) : null;
+      const recordedRules = (submission.firedRules as string[] | null) ?? [];
+
+      res.json({
+        riskBand: submission.riskBand,
+        rulesVersion: submission.rulesVersion,
+        rulesHash: submission.rulesHash,
+        firedRules: recordedRules,
+        replay: replay && {
+          riskBand: replay.riskBand,
+          firedRules: replay.firedRules,
+          // Compared on fired rules: an emergency escalation in chat forces Red on top of the rules
+          matches:
+            replay.firedRules.length === recordedRules.length &&
+            replay.firedRules.every(code => recordedRules.includes(code)),
+        },
+      });
+    } catch (err) {
+      console.error("Error replaying submission rules:", err);
+      res.status(500).json({ message: "Failed to load submission provenance" });
+    }
+  });
+
   app.post(api.submissions.override.path, async (req, res) => {
     const id = Number(req.params.id);
     const input = api.submissions.override.input.parse(req.body);
@@ -135,10 +190,13 @@ export async function registerRoutes(
     next();
   };
 
-  // Metrics: completion counts and hallucination proxy (extraction divergence %)
+  // Metrics: completion counts, where abandoned sessions stopped, and hallucination proxy
+  // (extraction divergence %)
   app.get("/api/admin/metrics", adminGuard, async (req, res) => {
     try {
+      await abandonIdleChatSessions();
       const counts = await storage.getChatSessionCounts();
+      const abandonedStages = await storage.getAbandonedStageCounts();
       const div = await storage.getDivergenceMetrics();
       const completed = counts.completed;
       const total = counts.total;
@@ -150,8 +208,22 @@ export async function registerRoutes(
           completed,
           active: counts.active,
           escalated: counts.escalated,
+          escalatedMentalHealth: counts.escalatedMentalHealth,
+          abandoned: counts.abandoned,
           completionRatePercentage: completionRatePct,
         },
+        // Stages in interview order, then any no longer in the flow
+        dropOff: {
+          idleMinutes: chatSessionIdleMinutes(),
+          abandoned: counts.abandoned,
+          byStage: [...flowStageIds(), ...Object.keys(abandonedStages)]
+            .filter((stage, i, all) => abandonedStages[stage] && all.indexOf(stage) === i)
+            .map((stage) => ({
+              stage,
+              abandoned: abandonedStages[stage],
+              percentageOfAbandoned: Math.round((abandonedStages[stage] / counts.abandoned) * 100),
+            })),
+        },
         hallucinationProxy: {
           extractionDivergenceCount: div.divergenceCount,
           sessionsWithAtLeastOneDivergence: div.sessionsWithDivergence,
@@ -168,36 +240,375 @@ export async function registerRoutes(
   // Docs API (admin-only when env is set)
   app.get(api.documents.list.path, adminGuard, async (req, res) => {
     const list = await storage.getDocuments();
-    res.json(list);
+    // Source text can be large; the list only says whether it is available for re-processing
+    res.json(list.map(({ sourceText, ...doc }) => ({ ...doc, hasSourceText: sourceText != null })));
   });
 
-  app.post(api.documents.upload.path, adminGuard, upload.single('file'), async (req, res) => {
-    if (!req.file) return res.status(400).json({ message: "No file" });
-    
-    // Save Doc
+  // Extract an uploaded file and store it as a document (optionally a new version of another)
+  const ingestUpload = async (
+    file: Express.Multer.File,
+    source: string,
+    version?: { version: number; previousVersionId: number }
+  ) => {
+    // Detect format and extract text (PDF, DOCX, HTML, Markdown, plain text)
+    const extraction = await extractDocumentText(file.buffer, file.originalname, file.mimetype);
+
+    const existing = await storage.getActiveDocumentByChecksum(extraction.checksum);
+    if (existing) {
+      throw new DuplicateDocumentError(
+        `"${file.originalname}" is identical to "${existing.name}" (v${existing.version}), which is already in the knowledge base`,
+        { documentId: existing.id, name: existing.name, version: existing.version }
+      );
+    }
+
     const doc = await storage.createDocument({
-      name: req.file.originalname,
-      source: "Upload"
+      name: file.originalname,
+      source,
+      mimeType: extraction.mimeType,
+      pageCount: extraction.pageCount,
+      checksum: extraction.checksum,
+      sourceText: extraction.text,
+      ...version,
     });
-    
-    // Process (Text extraction - simple utf8 for now)
-    const text = req.file.buffer.toString('utf-8');
-    await processDocument(doc.id, text);
-    
-    res.status(201).json({ success: true, count: 1 });
+
+    let processed;
+    try {
+      processed = await processDocument(doc.id, extraction.text);
+    } catch (err) {
+      // Deleting the document also drops any chunks stored before the failure
+      await storage.deleteDocument(doc.id);
+      throw err;
+    }
+    const { chunkCount, skipped } = processed;
+    if (chunkCount === 0 && skipped.length > 0) {
+      // Every passage is already indexed under another document: reject rather than keep an empty copy
+      await storage.deleteDocument(doc.id);
+      throw new DuplicateDocumentError(
+        `Every passage in "${file.originalname}" duplicates a document already in the knowledge base`,
+        null,
+        skipped
+      );
+    }
+    return { doc, extraction, chunkCount, skipped };
+  };
+
+  app.post(api.documents.upload.path, adminGuard, upload.single('file'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ message: "No file" });
+
+    try {
+      const source = typeof req.body?.source === "string" && req.body.source.trim() ? req.body.source.trim() : "Upload";
+      const { doc, extraction, chunkCount, skipped } = await ingestUpload(req.file, source);
+
+      res.status(201).json({
+        success: true,
+        count: 1,
+        documentId: doc.id,
+        format: extraction.format,
+        pageCount: extraction.pageCount,
+        chunkCount,
+        skipped,
+        warnings: extraction.warnings,
+      });
+    } catch (err) {
+      if (err instanceof UnsupportedDocumentError) {
+        return res.status(415).json({ message: err.message });
+      }
+      if (err instanceof DuplicateDocumentError) {
+        return res.status(409).json({ message: err.message, duplicateOf: err.duplicateOf, skipped: err.skipped });
+      }
+      console.error("Error uploading document:", err);
+      res.status(500).json({ message: "Failed to process document" });
+    }
   });
 
-  // RAG Query - with optional patient case context
-  app.post(api.rag.query.path, async (req, res) => {
-    const { question, submissionId } = req.body;
-    
-    // If submissionId provided, include patient case in query context
-    let patientContext = "";
-    if (submissionId) {
-      const submission = await storage.getSubmission(Number(submissionId));
-      if (submission) {
-        const answers = submission.answers as Record<string, any>;
-        patientContext = `
+  app.post(api.documents.replace.path, adminGuard, upload.single('file'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ message: "No file" });
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).json({ message: "Invalid document id" });
+
+    try {
+      const current = await storage.getDocument(id);
+      if (!current) return res.status(404).json({ message: "Document not found" });
+      if (current.status !== "active") {
+        return res.status(409).json({ message: "Only the active version of a document can be replaced" });
+      }
+
+      const source = typeof req.body?.source === "string" && req.body.source.trim() ? req.body.source.trim() : current.source;
+      const { doc, extraction, chunkCount, skipped } = await ingestUpload(req.file, source, {
+        version: current.version + 1,
+        previousVersionId: current.id,
+      });
+      // Superseded only once the new version is indexed, so retrieval never goes empty. If that
+      // fails the new version is removed again rather than left active beside the old one.
+      try {
+        await storage.updateDocument(current.id, { status: "superseded", supersededAt: new Date() });
+      } catch (err) {
+        await storage.deleteDocument(doc.id);
+        throw err;
+      }
+
+      res.status(201).json({
+        success: true,
+        documentId: doc.id,
+        version: doc.version,
+        previousVersionId: current.id,
+        format: extraction.format,
+        pageCount: extraction.pageCount,
+        chunkCount,
+        skipped,
+        warnings: extraction.warnings,
+      });
+    } catch (err) {
+      if (err instanceof UnsupportedDocumentError) {
+        return res.status(415).json({ message: err.message });
+      }
+      if (err instanceof DuplicateDocumentError) {
+        return res.status(409).json({ message: err.message, duplicateOf: err.duplicateOf, skipped: err.skipped });
+      }
+      console.error("Error replacing document:", err);
+      res.status(500).json({ message: "Failed to replace document" });
+    }
+  });
+
+  app.post(api.documents.process.path, adminGuard, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).json({ message: "Invalid document id" });
+
+    try {
+      const doc = await storage.getDocument(id);
+      if (!doc) return res.status(404).json({ message: "Document not found" });
+      if (!doc.sourceText) {
+        return res.status(409).json({ message: "Document was uploaded before source text was stored; upload it again to re-process" });
+      }
+      const { chunkCount, retiredCount, skipped } = await reprocessDocument(doc.id);
+      res.json({ success: true, chunkCount, retiredCount, skipped });
+    } catch (err) {
+      console.error("Error re-processing document:", err);
+      res.status(500).json({ message: "Failed to re-process document" });
+    }
+  });
+
+  app.delete(api.documents.delete.path, adminGuard, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).json({ message: "Invalid document id" });
+
+    try {
+      const deleted = await storage.deleteDocument(id);
+      if (!deleted) return res.status(404).json({ message: "Document not found" });
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting document:", err);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  // Rule editor: edits are made to a draft copy of the active rule set, validated and
+  // tested side by side with the active set, then published as a new version
+  const zodError = (res: any, err: z.ZodError) =>
+    res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+
+  app.get(api.rules.list.path, adminGuard, async (req, res) => {
+    try {
+      const history = await storage.getRuleSets();
+      res.json({
+        active: getActiveRuleSet(),
+        draft: await getDraft(),
+        history: history.filter(r => r.status !== "draft").map(({ definition, ...row }) => row),
+      });
+    } catch (err) {
+      console.error("Error fetching rule sets:", err);
+      res.status(500).json({ message: "Failed to fetch rule sets" });
+    }
+  });
+
+  app.post(api.rules.createDraft.path, adminGuard, async (req, res) => {
+    try {
+      const draft = await createDraft();
+      if (!draft) return res.status(409).json({ message: "A draft already exists; publish or discard it first" });
+      res.status(201).json(draft);
+    } catch (err) {
+      console.error("Error creating rule draft:", err);
+      res.status(500).json({ message: "Failed to create draft" });
+    }
+  });
+
+  app.delete(api.rules.discardDraft.path, adminGuard, async (req, res) => {
+    try {
+      const draft = await getDraft();
+      if (!draft) return res.status(404).json({ message: "No draft rule set" });
+      await discardDraft(draft);
+      res.json({ ok: true });
+    } catch (err) {
+      console.error("Error discarding rule draft:", err);
+      res.status(500).json({ message: "Failed to discard draft" });
+    }
+  });
+
+  app.post(api.rules.createRule.path, adminGuard, async (req, res) => {
+    try {
+      const rule = api.rules.createRule.input.parse(req.body);
+      const draft = await getDraft();
+      if (!draft) return res.status(404).json({ message: "No draft rule set" });
+      if (draft.definition.rules.some(r => r.code === rule.code)) {
+        return res.status(409).json({ message: `Rule ${rule.code} already exists`, field: "code" });
+      }
+      res.status(201).json(await updateDraftRules(draft, rules => [...rules, rule]));
+    } catch (err) {
+      if (err instanceof z.ZodError) return zodError(res, err);
+      console.error("Error adding rule:", err);
+      res.status(500).json({ message: "Failed to add rule" });
+    }
+  });
+
+  app.put(api.rules.updateRule.path, adminGuard, async (req, res) => {
+    try {
+      const rule = api.rules.updateRule.input.parse(req.body);
+      const draft = await getDraft();
+      if (!draft) return res.status(404).json({ message: "No draft rule set" });
+      const code = req.params.code;
+      if (!draft.definition.rules.some(r => r.code === code)) {
+        return res.status(404).json({ message: `Rule ${code} not found in draft` });
+      }
+      // A renamed code may collide with another rule; the validator reports it as a duplicate
+      res.json(await updateDraftRules(draft, rules => rules.map(r => (r.code === code ? rule : r))));
+    } catch (err) {
+      if (err instanceof z.ZodError) return zodError(res, err);
+      console.error("Error updating rule:", err);
+      res.status(500).json({ message: "Failed to update rule" });
+    }
+  });
+
+  app.patch(api.rules.setRuleDisabled.path, adminGuard, async (req, res) => {
+    try {
+      const { disabled } = api.rules.setRuleDisabled.input.parse(req.body);
+      const draft = await getDraft();
+      if (!draft) return res.status(404).json({ message: "No draft rule set" });
+      const code = req.params.code;
+      if (!draft.definition.rules.some(r => r.code === code)) {
+        return res.status(404).json({ message: `Rule ${code} not found in draft` });
+      }
+      res.json(await updateDraftRules(draft, rules =>
+        rules.map(r => {
+          if (r.code !== code) return r;
+          const { disabled: _, ...rest } = r;
+          return disabled ? { ...rest, disabled: true } : rest;
+        })
+      ));
+    } catch (err) {
+      if (err instanceof z.ZodError) return zodError(res, err);
+      console.error("Error toggling rule:", err);
+      res.status(500).json({ message: "Failed to update rule" });
+    }
+  });
+
+  app.post(api.rules.validate.path, adminGuard, async (req, res) => {
+    try {
+      const { definition } = api.rules.validate.input.parse(req.body ?? {});
+      if (definition !== undefined) return res.json(validateRuleSet(definition));
+      const draft = await getDraft();
+      if (!draft) return res.status(404).json({ message: "No draft rule set" });
+      res.json(draft.validation);
+    } catch (err) {
+      if (err instanceof z.ZodError) return zodError(res, err);
+      console.error("Error validating rules:", err);
+      res.status(500).json({ message: "Failed to validate rules" });
+    }
+  });
+
+  app.post(api.rules.test.path, adminGuard, async (req, res) => {
+    try {
+      const { answers } = api.rules.test.input.parse(req.body);
+      const draft = await getDraft();
+      if (!draft) return res.status(404).json({ message: "No draft rule set" });
+
+      const toResult = ({ riskBand, redFlags, firedRules }: ReturnType<typeof evaluateTriage>) =>
+        ({ riskBand, redFlags, firedRules });
+      const draftResult = toResult(evaluateTriage(answers, draft));
+      const activeResult = toResult(evaluateTriage(answers));
+      res.json({
+        draft: draftResult,
+        active: activeResult,
+        changed:
+          draftResult.riskBand !== activeResult.riskBand ||
+          draftResult.firedRules.join() !== activeResult.firedRules.join(),
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) return zodError(res, err);
+      console.error("Error testing rule draft:", err);
+      res.status(500).json({ message: "Failed to test draft" });
+    }
+  });
+
+  app.post(api.rules.backtest.path, adminGuard, async (req, res) => {
+    try {
+      const { definition, format } = api.rules.backtest.input.parse(req.body ?? {});
+
+      let candidate: VersionedRuleSet;
+      let candidateVersion: number | null;
+      if (definition !== undefined) {
+        const validation = validateRuleSet(definition);
+        if (validation.issues.some(i => i.kind === "schema")) {
+          return res.status(422).json({ message: "Definition is not a valid rule set", validation });
+        }
+        candidate = { version: 0, hash: hashRuleSet(definition as RuleSet), definition: definition as RuleSet };
+        candidateVersion = null;
+      } else {
+        const draft = await getDraft();
+        if (!draft) return res.status(404).json({ message: "No draft rule set" });
+        candidate = draft;
+        candidateVersion = draft.version;
+      }
+
+      const report = runBacktest(await loadBacktestCases(), getActiveRuleSet(), candidate, candidateVersion);
+      if (format === "csv") {
+        const name = `rules-backtest-${candidateVersion != null ? `v${candidateVersion}` : candidate.hash.slice(0, 12)}.csv`;
+        res.setHeader("Content-Disposition", `attachment; filename="${name}"`);
+        return res.type("text/csv").send(backtestToCsv(report));
+      }
+      res.json(report);
+    } catch (err) {
+      if (err instanceof z.ZodError) return zodError(res, err);
+      console.error("Error back-testing rules:", err);
+      res.status(500).json({ message: "Failed to back-test rules" });
+    }
+  });
+
+  app.post(api.rules.publish.path, adminGuard, async (req, res) => {
+    try {
+      const { notes } = api.rules.publish.input.parse(req.body ?? {});
+      const draft = await getDraft();
+      if (!draft) return res.status(404).json({ message: "No draft rule set" });
+      const active = await publishDraft(draft, notes);
+      res.json({ version: active.version, hash: active.hash });
+    } catch (err) {
+      if (err instanceof z.ZodError) return zodError(res, err);
+      if (err instanceof RuleSetValidationError) {
+        return res.status(422).json({ message: err.message, validation: err.validation });
+      }
+      console.error("Error publishing rule draft:", err);
+      res.status(500).json({ message: "Failed to publish draft" });
+    }
+  });
+
+  // Chunk lookup for citations in handoffs (works for retired and superseded chunks too)
+  app.get(api.chunks.get.path, async (req, res) => {
+    try {
+      const chunk = await resolveChunk(Number(req.params.id));
+      if (!chunk) return res.status(404).json({ message: "Chunk not found" });
+      res.json(chunk);
+    } catch (err) {
+      console.error("Error fetching chunk:", err);
+      res.status(500).json({ message: "Failed to fetch chunk" });
+    }
+  });
+
+  // Prefix a clinician's question with the case it is about
+  const withPatientContext = async (question: string, submissionId?: unknown): Promise<string> => {
+    if (!submissionId) return question;
+    const submission = await storage.getSubmission(Number(submissionId));
+    if (!submission) return question;
+    const answers = submission.answers as Record<string, any>;
+    const patientContext = `
 CURRENT PATIENT CASE:
 - Name: ${answers.patientName || 'Unknown'}
 - Age: ${submission.age} years old
@@ -212,17 +623,33 @@ CURRENT PATIENT CASE:
 - Medical History: ${answers.medicalHistory || 'None reported'}
 - Medications: ${answers.medications || 'None'}
 `;
-      }
-    }
-    
-    const queryWithContext = patientContext 
-      ? `${patientContext}\n\nQUESTION ABOUT THIS PATIENT:\n${question}`
-      : question;
-    
-    const result = await queryRAG(queryWithContext);
+    return `${patientContext}\n\nQUESTION ABOUT THIS PATIENT:\n${question}`;
+  };
+
+  // RAG Query - with optional patient case context
+  app.post(api.rag.query.path, async (req, res) => {
+    const { question, submissionId } = req.body;
+    const result = await queryRAG(await withPatientContext(question, submissionId));
     res.json(result);
   });
 
+  // Streaming RAG Query (SSE): citations, then tokens, then verification
+  app.post(api.rag.queryStream.path, async (req, res) => {
+    const { question, submissionId } = req.body;
+    if (typeof question !== "string" || !question.trim()) {
+      return res.status(400).json({ message: "question is required" });
+    }
+    let queryWithContext: string;
+    try {
+      queryWithContext = await withPatientContext(question, submissionId);
+    } catch (err) {
+      console.error("Error loading patient context for RAG query:", err);
+      return res.status(500).json({ message: "Failed to generate answer" });
+    }
+    const stream = openEventStream(res);
+    await pipeEvents(stream, streamQueryRAG(queryWithContext, stream.signal), "Failed to generate answer");
+  });
+
   // Admin Portal RAG Explanation
   app.post("/api/submissions/:id/rag-explanation", async (req, res) => {
     try {
@@ -240,22 +667,59 @@ CURRENT PATIENT CASE:
       );
 
       // Generate explanation
-      const explanation = await generateAdminRAGExplanation({
+      const { explanation, verification } = await generateAdminRAGExplanation({
         patientSummary: submission.summary,
         riskBand: submission.riskBand as "Red" | "Amber" | "Green",
         triggeredRedFlags: submission.redFlags as string[],
         retrievedChunks
       });
 
-      res.json({ explanation, retrievedChunks });
+      res.json({ explanation, verification, retrievedChunks });
     } catch (err) {
       console.error("Error generating admin RAG explanation:", err);
       res.status(500).json({ message: "Failed to generate explanation" });
     }
   });
 
+  // Streaming Admin Portal RAG Explanation (SSE)
+  app.post("/api/submissions/:id/rag-explanation/stream", async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Invalid submission id" });
+    }
+
+    let submission;
+    try {
+      submission = await storage.getSubmission(id);
+    } catch (err) {
+      console.error("Error loading submission for RAG explanation:", err);
+      return res.status(500).json({ message: "Failed to generate explanation" });
+    }
+    if (!submission) {
+      return res.status(404).json({ message: "Submission not found" });
+    }
+
+    const stream = openEventStream(res);
+    const events = async function* () {
+      const retrievedChunks = await retrieveRelevantChunks(
+        submission.complaint,
+        submission.answers as Record<string, any>,
+        submission.redFlags as string[]
+      );
+      yield* streamAdminRAGExplanation({
+        patientSummary: submission.summary,
+        riskBand: submission.riskBand as "Red" | "Amber" | "Green",
+        triggeredRedFlags: submission.redFlags as string[],
+        retrievedChunks
+      }, stream.signal);
+    };
+    await pipeEvents(stream, events(), "Failed to generate explanation");
+  });
+
   // === Chat Interview Endpoints ===
 
+  const SESSION_EXPIRED = "This assessment has expired. Please start a new one.";
+
   // Start a new chat session
   app.post("/api/chat/start", async (req, res) => {
     try {
@@ -267,6 +731,7 @@ CURRENT PATIENT CASE:
       
       res.json({
         sessionId: session.id,
+        resumeToken: session.resumeToken,
         messages,
         state: {},
         stage: "opening"
@@ -277,6 +742,32 @@ CURRENT PATIENT CASE:
     }
   });
 
+  // Carry on a session after a reload, from the resume token given by /api/chat/start
+  app.get("/api/chat/resume/:token", async (req, res) => {
+    try {
+      const stored = await storage.getChatSessionByResumeToken(req.params.token);
+      if (!stored) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const session = await expireIfIdle(stored);
+      if (session.status === "abandoned") {
+        return res.status(410).json({ message: SESSION_EXPIRED });
+      }
+
+      res.json({
+        sessionId: session.id,
+        messages: session.messages,
+        state: session.state,
+        stage: session.stage,
+        status: session.status
+      });
+    } catch (err) {
+      console.error("Error resuming chat:", err);
+      res.status(500).json({ message: "Failed to resume chat session" });
+    }
+  });
+
   // Process user message
   app.post("/api/chat/message", async (req, res) => {
     try {
@@ -286,39 +777,58 @@ CURRENT PATIENT CASE:
         return res.status(400).json({ message: "Missing sessionId or message" });
       }
       
-      const session = await storage.getChatSession(sessionId);
-      if (!session) {
+      const stored = await storage.getChatSession(sessionId);
+      if (!stored) {
         return res.status(404).json({ message: "Session not found" });
       }
-      
+
+      const session = await expireIfIdle(stored);
+      if (session.status === "abandoned") {
+        return res.status(410).json({ message: SESSION_EXPIRED });
+      }
+
       if (session.status !== "active") {
         return res.status(400).json({ message: "Session is no longer active" });
       }
       
       // Clone to avoid mutating stored references
-      const currentMessages = [...(session.messages as ChatMessage[])];
-      const currentState = { ...(session.state as ChatState) };
-      const currentStage = session.stage as Stage;
-      const currentRetryCount = session.retryCount || 0;
-      
-      // Add user message
-      currentMessages.push({ role: "user", content: message });
+      let currentMessages = [...(session.messages as ChatMessage[])];
+      let currentState = { ...(session.state as ChatState) };
+      let currentStage = session.stage as Stage;
+      let currentRetryCount = session.retryCount || 0;
+      let history = [...(session.history as ChatTurn[])];
+      let answer: string = message;
+
+      // "Change my age to 35": go back to that answer first, then take the new one if given.
+      // Just after going back, "I meant 7" answers the question asked again.
+      const change = detectAnswerChange(message);
+      const answersRepeatedQuestion = !!change?.answer && !change.stage && !!currentMessages[currentMessages.length - 1]?.correction;
+      const rewound = change && !answersRepeatedQuestion && rewindChat({ messages: currentMessages, history, state: currentState, stage: currentStage }, change.stage);
+      if (change && rewound) {
+        ({ messages: currentMessages, history, state: currentState, stage: currentStage } = rewound);
+        currentRetryCount = 0;
+        // The request goes before the note asking the question again
+        currentMessages.splice(currentMessages.length - 1, 0, { role: "user", content: message });
+        if (!change.answer) {
+          await storage.updateChatSession(sessionId, { messages: currentMessages, state: currentState, stage: currentStage, retryCount: 0, history });
+          return res.json({ sessionId, messages: currentMessages, state: currentState, stage: currentStage, status: session.status, isComplete: false, isEscalation: false });
+        }
+        answer = change.answer;
+      } else {
+        currentMessages.push({ role: "user", content: message });
+        if (answersRepeatedQuestion) answer = change?.answer ?? message;
+      }
+      // Where the interview was before this answer, for going back to it
+      history.push({ stage: currentStage, state: currentState, retryCount: currentRetryCount, messageIndex: currentMessages.findLastIndex(m => m.role === "user") });
       
       // Process and get response
-      let result = await processUserMessage(message, currentMessages, currentState, currentStage, currentRetryCount);
+      let result = await processUserMessage(answer, currentMessages, currentState, currentStage, currentRetryCount);
       
       // Handle RAG-guided follow-up questions
       if (result.newStage === "rag_followup" && result.response === "") {
         // Get RAG context based on symptoms
-        const searchQuery = `${result.newState.complaint || ''} ${result.newState.location || ''} ${result.newState.openingDescription || ''}`.trim();
-        const allChunks = await storage.getAllChunks();
-        
-        // Simple keyword matching for context
-        const keywords = searchQuery.toLowerCase().split(/\W+/).filter(w => w.length > 3);
-        const matchedChunks = allChunks.filter(chunk => {
-          const text = chunk.chunkText.toLowerCase();
-          return keywords.some(k => text.includes(k));
-        }).slice(0, 3);
+        const searchQuery = `${result.newState.complaints?.join(' ') || result.newState.complaint || ''} ${result.newState.location || ''} ${result.newState.openingDescription || ''}`.trim();
+        const matchedChunks = await searchChunks(searchQuery, 3);
         
         const ragContext = matchedChunks.map(c => c.chunkText).join("\n\n");
         
@@ -328,11 +838,8 @@ CURRENT PATIENT CASE:
         if (ragQuestion) {
           result.response = ragQuestion;
         } else {
-          // Skip RAG if no relevant documents, move to context questions
-          result.newStage = "context_conditions" as Stage;
-          // Use LLM to generate response for next stage
-          const nextQ = getNextQuestion(result.newState, result.newStage);
-          // Use the LLM to generate a natural response for the next stage
+          // Skip RAG if no relevant documents, move on to the stage after it
+          result.newStage = getNextQuestion(result.newState, result.newStage).nextStage;
           const { question } = getNextQuestion(result.newState, result.newStage);
           result.response = question;
         }
@@ -344,28 +851,37 @@ CURRENT PATIENT CASE:
       }
       
       // Update session
-      const newStatus = result.isEscalation ? "escalated" : (result.isComplete ? "completed" : "active");
+      // Mental health crises get their own status so they can be routed to crisis services
+      const newStatus = result.newStage === "escalated_mental_health"
+        ? "escalated_mental_health"
+        : result.isEscalation ? "escalated" : (result.isComplete ? "completed" : "active");
       await storage.updateChatSession(sessionId, {
         messages: currentMessages,
         state: result.newState,
         stage: result.newStage,
         status: newStatus,
-        retryCount: result.newRetryCount
+        retryCount: result.newRetryCount,
+        history
       });
       
       // Auto-submit when complete (including escalations)
       let submissionId = null;
+      let riskBand: string | null = null;
       if (result.isComplete) {
-        const triageResult = buildTriageFromChat(result.newState);
+        const ruleSet = getActiveRuleSet();
+        const triageResult = buildTriageFromChat(result.newState, ruleSet);
         const existingCases = await storage.getSubmissions();
         const caseNumber = existingCases.length + 1;
         const patientName = result.newState.patientName || 'Patient';
         const patientAge = result.newState.age || 0;
         
         // Escalated cases are always Red
-        const riskBand = result.isEscalation ? "Red" : triageResult.riskBand;
+        const submissionBand = result.isEscalation ? "Red" : triageResult.riskBand;
+        const escalationFlag = newStatus === "escalated_mental_health"
+          ? "Mental health crisis escalation triggered"
+          : "Emergency escalation triggered";
         const redFlags = result.isEscalation 
-          ? [...(triageResult.redFlags || []), "Emergency escalation triggered"]
+          ? [...(triageResult.redFlags || []), escalationFlag]
           : triageResult.redFlags;
         
         // Extract facts and evaluate red flags (deterministic-first, then LLM with validation)
@@ -374,7 +890,7 @@ CURRENT PATIENT CASE:
           sessionId: sidNum,
           onDivergence: (sid, k, l, s) => void storage.recordExtractionDivergence(sid ?? null, k, l, s),
         });
-        const redFlagResults = evaluateRedFlags(facts);
+        const redFlagResults = evaluateRedFlags(facts, ruleSet);
         
         // Generate handoff
         const handoff = await generateHandoff(
@@ -383,7 +899,8 @@ CURRENT PATIENT CASE:
           currentMessages,
           redFlagResults.triggered,
           redFlagResults.notTriggered,
-          redFlagResults.notAssessed
+          redFlagResults.notAssessed,
+          ruleSet
         );
         
         const submission = await storage.createSubmission({
@@ -391,14 +908,17 @@ CURRENT PATIENT CASE:
           sex: result.newState.sex || "Unknown",
           complaint: result.newState.complaint || result.newState.openingDescription || "Unknown",
           answers: { ...result.newState, patientName: patientName },
-          riskBand: riskBand,
+          riskBand: submissionBand,
           redFlags: redFlags,
           summary: handoff.summary_for_reception || `Case #${caseNumber} - ${patientName} (Age ${patientAge}): ${triageResult.summary}`,
-          rulesVersion: "0.1.0",
+          rulesVersion: String(triageResult.rulesVersion),
+          rulesHash: triageResult.rulesHash,
+          firedRules: triageResult.firedRules,
           modelVersion: "chat-v1"
         });
         
         submissionId = submission.id;
+        riskBand = triageResult.riskBand;
         
         // Update session with handoff data
         await storage.updateChatSession(sessionId, {
@@ -411,13 +931,6 @@ CURRENT PATIENT CASE:
         });
       }
       
-      // Get riskBand if submission was created
-      let riskBand = null;
-      if (submissionId) {
-        const triageResult = buildTriageFromChat(result.newState);
-        riskBand = triageResult.riskBand;
-      }
-      
       res.json({
         sessionId,
         messages: currentMessages,
@@ -435,25 +948,98 @@ CURRENT PATIENT CASE:
     }
   });
 
+  // Go back to change an answer: the last one, or the answer at `stage`
+  app.post("/api/chat/undo", async (req, res) => {
+    try {
+      const { sessionId, stage } = req.body;
+
+      if (!sessionId) {
+        return res.status(400).json({ message: "Missing sessionId" });
+      }
+
+      const stored = await storage.getChatSession(sessionId);
+      if (!stored) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const session = await expireIfIdle(stored);
+      if (session.status === "abandoned") {
+        return res.status(410).json({ message: SESSION_EXPIRED });
+      }
+
+      if (session.status !== "active") {
+        return res.status(400).json({ message: "Session is no longer active" });
+      }
+
+      if (stage !== undefined && !flowStage(stage)) {
+        return res.status(400).json({ message: "Unknown stage" });
+      }
+
+      const rewound = rewindChat({
+        messages: session.messages as ChatMessage[],
+        history: session.history as ChatTurn[],
+        state: session.state as ChatState,
+        stage: session.stage,
+      }, stage);
+      if (!rewound) {
+        return res.status(400).json({ message: "There is no earlier answer to change" });
+      }
+
+      await storage.updateChatSession(sessionId, {
+        messages: rewound.messages,
+        state: rewound.state,
+        stage: rewound.stage,
+        retryCount: 0,
+        history: rewound.history
+      });
+
+      res.json({
+        sessionId,
+        messages: rewound.messages,
+        state: rewound.state,
+        stage: rewound.stage,
+        status: session.status
+      });
+    } catch (err) {
+      console.error("Error going back in chat:", err);
+      res.status(500).json({ message: "Failed to go back" });
+    }
+  });
+
   // Finish and save submission
   app.post("/api/chat/finish", async (req, res) => {
     try {
       const { sessionId } = req.body;
-      
-      const session = await storage.getChatSession(sessionId);
-      if (!session) {
+
+      const stored = await storage.getChatSession(sessionId);
+      if (!stored) {
         return res.status(404).json({ message: "Session not found" });
       }
-      
+
+      const session = await expireIfIdle(stored);
+      if (session.status === "abandoned") {
+        return res.status(410).json({ message: SESSION_EXPIRED });
+      }
+
+      // Finishing twice would create a second submission for the same assessment
+      if (session.submissionId != null) {
+        return res.status(409).json({ message: "This assessment has already been submitted", submissionId: session.submissionId });
+      }
+
+      if (session.status !== "active") {
+        return res.status(400).json({ message: "Session is no longer active" });
+      }
+
       const state = session.state as ChatState;
       const messages = (session.messages || []) as ChatMessage[];
       const sid = Number(sessionId);
+      const ruleSet = getActiveRuleSet();
       // Extract facts and evaluate red flags
       const facts = await extractFactsFromMessages(messages, state, {
         sessionId: sid,
         onDivergence: (s, k, l, sVal) => void storage.recordExtractionDivergence(s ?? null, k, l, sVal),
       });
-      const redFlagResults = evaluateRedFlags(facts);
+      const redFlagResults = evaluateRedFlags(facts, ruleSet);
       
       // Generate handoff
       const handoff = await generateHandoff(
@@ -462,11 +1048,12 @@ CURRENT PATIENT CASE:
         messages,
         redFlagResults.triggered,
         redFlagResults.notTriggered,
-        redFlagResults.notAssessed
+        redFlagResults.notAssessed,
+        ruleSet
       );
       
       // Build triage result from chat state
-      const triageResult = buildTriageFromChat(state);
+      const triageResult = buildTriageFromChat(state, ruleSet);
       const existingCases = await storage.getSubmissions();
       const caseNumber = existingCases.length + 1;
       const patientName = state.patientName || 'Patient';
@@ -481,7 +1068,9 @@ CURRENT PATIENT CASE:
         riskBand: triageResult.riskBand,
         redFlags: triageResult.redFlags,
         summary: handoff.summary_for_reception || `Case #${caseNumber} - ${patientName} (Age ${patientAge}): ${triageResult.summary}`,
-        rulesVersion: "0.1.0",
+        rulesVersion: String(triageResult.rulesVersion),
+        rulesHash: triageResult.rulesHash,
+        firedRules: triageResult.firedRules,
         modelVersion: "chat-v1"
       });
       
@@ -584,6 +1173,9 @@ CURRENT PATIENT CASE:
     }
   });
 
+  // Rule set must be loaded before anything is triaged, including the seed data
+  await loadActiveRuleSet();
+
   // Seed Data
   await seedDatabase();
 
@@ -593,11 +1185,8 @@ CURRENT PATIENT CASE:
 async function seedDatabase() {
   const existing = await storage.getSubmissions();
   if (existing.length === 0) {
-    await storage.createSubmission({
-      age: 45,
-      sex: "Male",
-      complaint: "Chest Pain",
-      answers: {
+    const seedAnswers: Array<Record<string, any>> = [
+      {
         complaint: "Chest Pain",
         age: 45,
         sex: "Male",
@@ -605,29 +1194,31 @@ async function seedDatabase() {
         shortnessOfBreath: true,
         cardiacHistory: true
       },
-      riskBand: "Red",
-      redFlags: ["Chest pain + SOB", "History of heart disease"],
-      summary: "45y Male presenting with Chest Pain (Severity 7/10). Risk: Red. Flags: Chest pain + SOB, History of heart disease.",
-      rulesVersion: "0.1.0",
-      modelVersion: "gpt-5.1"
-    });
-    
-    await storage.createSubmission({
-      age: 22,
-      sex: "Female",
-      complaint: "Headache",
-      answers: {
+      {
         complaint: "Headache",
         age: 22,
         sex: "Female",
         severity: 4,
         duration: "2 days"
       },
-      riskBand: "Green",
-      redFlags: [],
-      summary: "22y Female presenting with Headache (Severity 4/10). Risk: Green. Flags: None.",
-      rulesVersion: "0.1.0",
-      modelVersion: "gpt-5.1"
-    });
+    ];
+
+    // Seed cases go through the rules engine so their provenance is real
+    for (const answers of seedAnswers) {
+      const result = evaluateTriage(answers);
+      await storage.createSubmission({
+        age: answers.age,
+        sex: answers.sex,
+        complaint: answers.complaint,
+        answers,
+        riskBand: result.riskBand,
+        redFlags: result.redFlags,
+        summary: result.summary,
+        rulesVersion: String(result.rulesVersion),
+        rulesHash: result.rulesHash,
+        firedRules: result.firedRules,
+        modelVersion: "gpt-5.1"
+      });
+    }
   }
 }
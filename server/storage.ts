@@ -1,14 +1,16 @@
 import { db } from "./db";
 import {
-  submissions, overrides, documents, chunks, chatSessions, triageFacts, extractionDivergences,
+  submissions, overrides, documents, chunks, chatSessions, triageFacts, extractionDivergences, ruleSets,
   type Submission, type InsertSubmission,
   type Override, type InsertOverride,
   type Document, type InsertDocument,
   type Chunk,
-  type ChatSession, type ChatState, type ChatMessage,
+  type StoredRuleSet,
+  type ChatSession, type ChatState, type ChatMessage, type ChatTurn,
   conversations, messages // From chat model
 } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and, isNull, inArray, ne, max, lt } from "drizzle-orm";
+import { randomBytes } from "crypto";
 
 export interface IStorage {
   // Submissions
@@ -19,16 +21,36 @@ export interface IStorage {
   // Overrides
   createOverride(override: InsertOverride): Promise<Override>;
   getOverrides(submissionId: number): Promise<Override[]>;
+  getAllOverrides(): Promise<Override[]>;
 
   // Documents
   createDocument(doc: InsertDocument): Promise<Document>;
   getDocuments(): Promise<Document[]>;
   getDocument(id: number): Promise<Document | undefined>;
+  getActiveDocumentByChecksum(checksum: string): Promise<Document | undefined>;
+  updateDocument(id: number, updates: Partial<InsertDocument> & { supersededAt?: Date | null }): Promise<Document>;
+  deleteDocument(id: number): Promise<boolean>;
   
   // Chunks
   createChunk(chunk: typeof chunks.$inferInsert): Promise<Chunk>;
   getChunksByDocument(documentId: number): Promise<Chunk[]>;
   getAllChunks(): Promise<Chunk[]>;
+  getActiveChunks(): Promise<Chunk[]>;
+  getChunk(id: number): Promise<Chunk | undefined>;
+  retireChunks(ids: number[]): Promise<void>;
+  updateChunkEmbedding(id: number, embedding: number[], metadata: Record<string, any>): Promise<void>;
+
+  // Rule sets
+  createRuleSet(ruleSet: typeof ruleSets.$inferInsert): Promise<StoredRuleSet>;
+  getRuleSets(): Promise<StoredRuleSet[]>;
+  getRuleSet(id: number): Promise<StoredRuleSet | undefined>;
+  getRuleSetByHash(hash: string): Promise<StoredRuleSet | undefined>;
+  getActiveRuleSet(): Promise<StoredRuleSet | undefined>;
+  getDraftRuleSet(): Promise<StoredRuleSet | undefined>;
+  updateRuleSet(id: number, updates: Partial<typeof ruleSets.$inferInsert>): Promise<StoredRuleSet>;
+  deleteRuleSet(id: number): Promise<boolean>;
+  getLatestRuleSetVersion(): Promise<number>;
+  activateRuleSet(id: number): Promise<StoredRuleSet>;
 
   // Chat (re-export or implement if needed for the integration)
   // The integration uses 'chatStorage' directly, but we can expose it here if we want unified access
@@ -84,6 +106,10 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(overrides).where(eq(overrides.submissionId, submissionId));
   }
 
+  async getAllOverrides(): Promise<Override[]> {
+    return db.select().from(overrides).orderBy(overrides.createdAt);
+  }
+
   // Documents
   async createDocument(doc: InsertDocument): Promise<Document> {
     const [result] = await db.insert(documents).values(doc).returning();
@@ -99,6 +125,26 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getActiveDocumentByChecksum(checksum: string): Promise<Document | undefined> {
+    const [result] = await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.checksum, checksum), eq(documents.status, "active")));
+    return result;
+  }
+
+  async updateDocument(id: number, updates: Partial<InsertDocument> & { supersededAt?: Date | null }): Promise<Document> {
+    const [row] = await db.update(documents).set(updates).where(eq(documents.id, id)).returning();
+    if (!row) throw new Error("Document not found");
+    return row;
+  }
+
+  // Chunks are removed by the ON DELETE CASCADE on chunks.document_id
+  async deleteDocument(id: number): Promise<boolean> {
+    const deleted = await db.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+
   // Chunks
   async createChunk(chunk: typeof chunks.$inferInsert): Promise<Chunk> {
     const [result] = await db.insert(chunks).values(chunk).returning();
@@ -113,13 +159,112 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(chunks);
   }
 
+  // Chunks used for retrieval: not retired and belonging to an active document version
+  async getActiveChunks(): Promise<Chunk[]> {
+    const rows = await db
+      .select({ chunk: chunks })
+      .from(chunks)
+      .innerJoin(documents, eq(chunks.documentId, documents.id))
+      .where(and(isNull(chunks.retiredAt), eq(documents.status, "active")));
+    return rows.map(r => r.chunk);
+  }
+
+  async getChunk(id: number): Promise<Chunk | undefined> {
+    const [result] = await db.select().from(chunks).where(eq(chunks.id, id));
+    return result;
+  }
+
+  async retireChunks(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(chunks).set({ retiredAt: new Date() }).where(inArray(chunks.id, ids));
+  }
+
+  async updateChunkEmbedding(id: number, embedding: number[], metadata: Record<string, any>): Promise<void> {
+    await db.update(chunks).set({ embedding, metadata }).where(eq(chunks.id, id));
+  }
+
+  // Rule sets
+  async createRuleSet(ruleSet: typeof ruleSets.$inferInsert): Promise<StoredRuleSet> {
+    const [result] = await db.insert(ruleSets).values(ruleSet).returning();
+    return result;
+  }
+
+  async getRuleSets(): Promise<StoredRuleSet[]> {
+    return db.select().from(ruleSets).orderBy(desc(ruleSets.version));
+  }
+
+  async getRuleSet(id: number): Promise<StoredRuleSet | undefined> {
+    const [result] = await db.select().from(ruleSets).where(eq(ruleSets.id, id));
+    return result;
+  }
+
+  // Published sets only; a draft may share the hash of the set it was copied from
+  async getRuleSetByHash(hash: string): Promise<StoredRuleSet | undefined> {
+    const [result] = await db
+      .select()
+      .from(ruleSets)
+      .where(and(eq(ruleSets.hash, hash), ne(ruleSets.status, "draft")))
+      .orderBy(ruleSets.version)
+      .limit(1);
+    return result;
+  }
+
+  async getActiveRuleSet(): Promise<StoredRuleSet | undefined> {
+    const [result] = await db
+      .select()
+      .from(ruleSets)
+      .where(eq(ruleSets.status, "active"))
+      .orderBy(desc(ruleSets.activatedAt))
+      .limit(1);
+    return result;
+  }
+
+  async getDraftRuleSet(): Promise<StoredRuleSet | undefined> {
+    const [result] = await db.select().from(ruleSets).where(eq(ruleSets.status, "draft")).limit(1);
+    return result;
+  }
+
+  async updateRuleSet(id: number, updates: Partial<typeof ruleSets.$inferInsert>): Promise<StoredRuleSet> {
+    const [row] = await db.update(ruleSets).set(updates).where(eq(ruleSets.id, id)).returning();
+    if (!row) throw new Error("Rule set not found");
+    return row;
+  }
+
+  async deleteRuleSet(id: number): Promise<boolean> {
+    const deleted = await db.delete(ruleSets).where(eq(ruleSets.id, id)).returning({ id: ruleSets.id });
+    return deleted.length > 0;
+  }
+
+  async getLatestRuleSetVersion(): Promise<number> {
+    const [row] = await db.select({ version: max(ruleSets.version) }).from(ruleSets);
+    return row?.version ?? 0;
+  }
+
+  // Exactly one rule set is active; the previously active one is retired
+  async activateRuleSet(id: number): Promise<StoredRuleSet> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(ruleSets)
+        .set({ status: "active", activatedAt: new Date() })
+        .where(eq(ruleSets.id, id))
+        .returning();
+      if (!row) throw new Error("Rule set not found");
+      await tx
+        .update(ruleSets)
+        .set({ status: "retired" })
+        .where(and(eq(ruleSets.status, "active"), ne(ruleSets.id, id)));
+      return row;
+    });
+  }
+
   // Chat Sessions
   async createChatSession(): Promise<ChatSession> {
     const [session] = await db.insert(chatSessions).values({
       messages: [],
       state: {},
       stage: "greeting",
-      status: "active"
+      status: "active",
+      resumeToken: randomBytes(24).toString("base64url")
     }).returning();
     return session;
   }
@@ -129,12 +274,37 @@ export class DatabaseStorage implements IStorage {
     return session;
   }
 
+  async getChatSessionByResumeToken(resumeToken: string): Promise<ChatSession | undefined> {
+    const [session] = await db.select().from(chatSessions).where(eq(chatSessions.resumeToken, resumeToken));
+    return session;
+  }
+
+  // Marks active sessions with no activity since `idleSince` abandoned; their stage is left
+  // as the one the patient stopped at. Returns how many were marked.
+  async abandonIdleChatSessions(idleSince: Date): Promise<number> {
+    const rows = await db.update(chatSessions)
+      .set({ status: "abandoned" })
+      .where(and(eq(chatSessions.status, "active"), lt(chatSessions.updatedAt, idleSince)))
+      .returning({ id: chatSessions.id });
+    return rows.length;
+  }
+
+  // State of every session, for replaying them through a candidate rule set
+  async getChatSessionStates(): Promise<Array<{ id: number; state: ChatState; status: string; submissionId: number | null }>> {
+    const rows = await db
+      .select({ id: chatSessions.id, state: chatSessions.state, status: chatSessions.status, submissionId: chatSessions.submissionId })
+      .from(chatSessions)
+      .orderBy(chatSessions.id);
+    return rows.map((r) => ({ ...r, state: r.state as ChatState }));
+  }
+
   async updateChatSession(id: number, updates: {
     messages?: ChatMessage[];
     state?: ChatState;
     stage?: string;
     status?: string;
     retryCount?: number;
+    history?: ChatTurn[];
     submissionId?: number;
     handoffJson?: any;
     summaryText?: string;
@@ -176,13 +346,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Metrics: chat completion and divergence (hallucination proxy)
-  async getChatSessionCounts(): Promise<{ total: number; active: number; completed: number; escalated: number }> {
+  async getChatSessionCounts(): Promise<{ total: number; active: number; completed: number; escalated: number; escalatedMentalHealth: number; abandoned: number }> {
     const rows = await db.select({ status: chatSessions.status }).from(chatSessions);
     const total = rows.length;
     const active = rows.filter((r) => r.status === "active").length;
     const completed = rows.filter((r) => r.status === "completed").length;
     const escalated = rows.filter((r) => r.status === "escalated").length;
-    return { total, active, completed, escalated };
+    const escalatedMentalHealth = rows.filter((r) => r.status === "escalated_mental_health").length;
+    const abandoned = rows.filter((r) => r.status === "abandoned").length;
+    return { total, active, completed, escalated, escalatedMentalHealth, abandoned };
+  }
+
+  // Number of abandoned sessions at each stage they stopped at
+  async getAbandonedStageCounts(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ stage: chatSessions.stage })
+      .from(chatSessions)
+      .where(eq(chatSessions.status, "abandoned"));
+    const counts: Record<string, number> = {};
+    for (const r of rows) counts[r.stage] = (counts[r.stage] ?? 0) + 1;
+    return counts;
   }
 
   async recordExtractionDivergence(sessionId: number | null, factKey: string, llmValue: unknown, stateValue: unknown): Promise<void> {
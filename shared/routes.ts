@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { insertSubmissionSchema, insertOverrideSchema, submissions, overrides, documents } from './schema';
+import { insertSubmissionSchema, insertOverrideSchema, submissions, overrides, documents, ruleSets } from './schema';
+import type { Rule, RuleCondition, RuleSet } from './schema';
 
 export const errorSchemas = {
   validation: z.object({
@@ -14,6 +15,139 @@ export const errorSchemas = {
   }),
 };
 
+// Post-generation check of inline [chunk:ID — Source] citations, one entry per claim sentence
+export const citationVerificationSchema = z.object({
+  claims: z.array(z.object({
+    sentence: z.string(),
+    start: z.number(), // character offsets into the generated text
+    end: z.number(),
+    citedChunkIds: z.array(z.number()),
+    invalidChunkIds: z.array(z.number()), // cited IDs that were not retrieved
+    support: z.number(), // share of the sentence's terms found in the cited passage
+    status: z.enum(["supported", "unsupported"]),
+    reason: z.string().nullable(),
+  })),
+  supportedCount: z.number(),
+  unsupportedCount: z.number(),
+  invalidChunkIds: z.array(z.number()),
+});
+
+// Passage not stored because it near-duplicates one already in the knowledge base
+const skippedChunkSchema = z.object({
+  chunkIndex: z.number(),
+  duplicateOfChunkId: z.number().nullable(),
+  duplicateOfDocumentId: z.number(),
+  similarity: z.number(), // estimated Jaccard similarity of word 5-shingles
+  preview: z.string(),
+});
+
+const duplicateDocumentSchema = z.object({
+  message: z.string(),
+  duplicateOf: z.object({ documentId: z.number(), name: z.string(), version: z.number() }).nullable(),
+  skipped: z.array(skippedChunkSchema),
+});
+
+// Triage rule DSL (see server/lib/rules.ts); .strict() so misspelt keys are reported, not ignored
+const ruleComparisonOpSchema = z.enum(["eq", "ne", "gt", "gte", "lt", "lte", "in", "between", "exists"]);
+
+export const ruleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(ruleConditionSchema) }).strict(),
+    z.object({ any: z.array(ruleConditionSchema) }).strict(),
+    z.object({ not: ruleConditionSchema }).strict(),
+    z.object({ fact: z.string().min(1), op: ruleComparisonOpSchema, value: z.unknown().optional() }).strict(),
+    z.object({
+      age: z.object({
+        op: ruleComparisonOpSchema,
+        value: z.unknown().optional(),
+        unit: z.enum(["years", "months"]).optional(),
+      }).strict(),
+    }).strict(),
+    z.object({ sex: z.union([z.string(), z.array(z.string())]) }).strict(),
+    z.object({ complaint: z.union([z.string(), z.array(z.string())]) }).strict(),
+  ])
+);
+
+export const ruleSchema: z.ZodType<Rule> = z.object({
+  code: z.string().regex(/^[A-Z][A-Z0-9_]*$/, "Code must be UPPER_SNAKE_CASE"),
+  label: z.string().min(1),
+  severity: z.enum(["RED", "AMBER"]),
+  complaints: z.array(z.string()).optional(),
+  when: ruleConditionSchema,
+  evidence: z.string(),
+  disabled: z.boolean().optional(),
+}).strict();
+
+export const ruleSetSchema: z.ZodType<RuleSet> = z.object({
+  rules: z.array(ruleSchema),
+  severity_policy: z.object({
+    default: z.enum(["GREEN", "AMBER", "RED"]),
+    escalate_if_any_red_flag: z.boolean(),
+  }),
+});
+
+export const ruleValidationSchema = z.object({
+  valid: z.boolean(), // no errors; warnings do not block publishing
+  issues: z.array(z.object({
+    level: z.enum(["error", "warning"]),
+    kind: z.enum([
+      "schema", "duplicate_code", "unknown_fact", "unknown_complaint",
+      "invalid_value", "contradiction", "unreachable", "always_fires",
+    ]),
+    rule: z.string().nullable(), // rule code, null for set-level issues
+    path: z.string(), // e.g. "rules[3].when.all[1]"
+    message: z.string(),
+  })),
+});
+
+const ruleSetDraftSchema = z.object({
+  id: z.number(),
+  version: z.number(), // version it will get when published
+  hash: z.string(),
+  definition: ruleSetSchema,
+  validation: ruleValidationSchema,
+});
+
+// Outcome of one set of answers under a rule set, as shown by the draft tester
+const ruleTestResultSchema = z.object({
+  riskBand: z.string(),
+  redFlags: z.array(z.string()),
+  firedRules: z.array(z.string()),
+});
+
+const bandSchema = z.enum(["Green", "Amber", "Red"]);
+
+// Historical cases replayed through the active and a candidate rule set
+const backtestReportSchema = z.object({
+  generatedAt: z.string(),
+  baseline: z.object({ version: z.number(), hash: z.string() }),
+  candidate: z.object({ version: z.number().nullable(), hash: z.string() }), // null: ad hoc definition
+  summary: z.object({
+    cases: z.number(),
+    escalated: z.number(),
+    deEscalated: z.number(),
+    flagChanges: z.number(), // cases where any rule newly fires or stops firing
+    withClinicianBand: z.number(),
+    baselineAgreement: z.number(), // cases whose replayed band matches the clinician's
+    candidateAgreement: z.number(),
+  }),
+  ruleChanges: z.array(z.object({ code: z.string(), newlyFiring: z.number(), stoppedFiring: z.number() })),
+  // Only cases whose band or fired rules differ between the two sets
+  changes: z.array(z.object({
+    caseId: z.string(), // "submission:12" or "session:40" for sessions that never reached a submission
+    submissionId: z.number().nullable(),
+    sessionId: z.number().nullable(),
+    complaint: z.string(),
+    recordedBand: z.string().nullable(),
+    baselineBand: bandSchema,
+    candidateBand: bandSchema,
+    bandChange: z.enum(["escalated", "de-escalated", "unchanged"]),
+    flagsAdded: z.array(z.string()),
+    flagsRemoved: z.array(z.string()),
+    clinicianBand: z.string().nullable(), // latest override, if any
+  })),
+});
+
 export const api = {
   triage: {
     submit: {
@@ -24,6 +158,8 @@ export const api = {
         redFlags: true, 
         summary: true, 
         rulesVersion: true, 
+        rulesHash: true,
+        firedRules: true,
         modelVersion: true 
       }), // Client sends answers, server calculates result
       responses: {
@@ -48,6 +184,25 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    // Recorded rule set and fired rules, plus a replay against that exact rule set
+    provenance: {
+      method: 'GET' as const,
+      path: '/api/submissions/:id/provenance',
+      responses: {
+        200: z.object({
+          riskBand: z.string(),
+          rulesVersion: z.string(),
+          rulesHash: z.string().nullable(),
+          firedRules: z.array(z.string()),
+          replay: z.object({
+            riskBand: z.string(),
+            firedRules: z.array(z.string()),
+            matches: z.boolean(),
+          }).nullable(), // null for submissions made before rule sets were stored
+        }),
+        404: errorSchemas.notFound,
+      },
+    },
     override: {
       method: 'POST' as const,
       path: '/api/submissions/:id/override',
@@ -72,19 +227,38 @@ export const api = {
           citations: z.array(z.object({
             docId: z.number(),
             docName: z.string(),
+            label: z.string().optional(), // e.g. "NG185 §1.3.2, p.14"
             chunkId: z.number(),
             text: z.string(),
+            // Why the passage was cited: BM25 and vector scores/ranks and the fused RRF score
+            scores: z.object({
+              bm25: z.number(),
+              bm25Rank: z.number().nullable(),
+              vector: z.number(),
+              vectorRank: z.number().nullable(),
+              fused: z.number(),
+            }).optional(),
           })),
+          verification: citationVerificationSchema.nullable().optional(),
         }),
       },
     },
+    // Server-Sent Events: "citations", "token" ({ text }), "verification", then "done" or "error"
+    queryStream: {
+      method: 'POST' as const,
+      path: '/api/rag/query/stream',
+      input: z.object({
+        question: z.string(),
+        submissionId: z.number().optional(),
+      }),
+    },
   },
   documents: {
     list: {
       method: 'GET' as const,
       path: '/api/docs',
       responses: {
-        200: z.array(z.custom<typeof documents.$inferSelect>()),
+        200: z.array(z.custom<Omit<typeof documents.$inferSelect, "sourceText"> & { hasSourceText: boolean }>()),
       },
     },
     upload: {
@@ -92,16 +266,196 @@ export const api = {
       path: '/api/docs/upload',
       // Multipart form data, not JSON input schema
       responses: {
-        201: z.object({ success: z.boolean(), count: z.number() }),
+        201: z.object({
+          success: z.boolean(),
+          count: z.number(),
+          documentId: z.number(),
+          format: z.enum(["pdf", "docx", "html", "markdown", "text"]),
+          pageCount: z.number().nullable(),
+          chunkCount: z.number(),
+          skipped: z.array(skippedChunkSchema),
+          warnings: z.array(z.string()), // extraction problems, e.g. scanned pages with no text
+        }),
+        409: duplicateDocumentSchema,
+        415: errorSchemas.validation,
       },
     },
-    process: { // Trigger processing/embedding manually if needed
+    process: { // Re-chunk and re-embed from the stored source text; old chunks are retired
       method: 'POST' as const,
       path: '/api/docs/:id/process',
+      responses: {
+        200: z.object({
+          success: z.boolean(),
+          chunkCount: z.number(),
+          retiredCount: z.number(),
+          skipped: z.array(skippedChunkSchema),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.validation,
+      },
+    },
+    replace: { // Upload a new version; the current one is superseded but its chunks stay resolvable
+      method: 'POST' as const,
+      path: '/api/docs/:id/replace',
+      // Multipart form data, same fields as upload
+      responses: {
+        201: z.object({
+          success: z.boolean(),
+          documentId: z.number(),
+          version: z.number(),
+          previousVersionId: z.number(),
+          format: z.enum(["pdf", "docx", "html", "markdown", "text"]),
+          pageCount: z.number().nullable(),
+          chunkCount: z.number(),
+          skipped: z.array(skippedChunkSchema),
+          warnings: z.array(z.string()),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: duplicateDocumentSchema,
+        415: errorSchemas.validation,
+      },
+    },
+    delete: { // Removes the document and all of its chunks
+      method: 'DELETE' as const,
+      path: '/api/docs/:id',
       responses: {
         200: z.object({ success: z.boolean() }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  chunks: {
+    get: { // Resolves chunk IDs cited in handoffs, including retired and superseded ones
+      method: 'GET' as const,
+      path: '/api/chunks/:id',
+      responses: {
+        200: z.object({
+          id: z.number(),
+          documentId: z.number(),
+          docName: z.string(),
+          docVersion: z.number().nullable(),
+          docStatus: z.string().nullable(),
+          label: z.string(),
+          text: z.string(),
+          metadata: z.record(z.any()),
+          retiredAt: z.coerce.date().nullable(),
+          current: z.boolean(),
+        }),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  rules: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/admin/rules',
+      responses: {
+        200: z.object({
+          active: z.object({ version: z.number(), hash: z.string(), definition: ruleSetSchema }),
+          draft: ruleSetDraftSchema.nullable(),
+          history: z.array(z.custom<Omit<typeof ruleSets.$inferSelect, "definition">>()),
+        }),
+      },
+    },
+    // Copies the active rule set into a new draft; only one draft exists at a time
+    createDraft: {
+      method: 'POST' as const,
+      path: '/api/admin/rules/draft',
+      responses: {
+        201: ruleSetDraftSchema,
+        409: errorSchemas.validation,
+      },
+    },
+    discardDraft: {
+      method: 'DELETE' as const,
+      path: '/api/admin/rules/draft',
+      responses: {
+        200: z.object({ ok: z.boolean() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    createRule: {
+      method: 'POST' as const,
+      path: '/api/admin/rules/draft/rules',
+      input: ruleSchema,
+      responses: {
+        201: ruleSetDraftSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.validation,
+      },
+    },
+    updateRule: {
+      method: 'PUT' as const,
+      path: '/api/admin/rules/draft/rules/:code',
+      input: ruleSchema,
+      responses: {
+        200: ruleSetDraftSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    setRuleDisabled: {
+      method: 'PATCH' as const,
+      path: '/api/admin/rules/draft/rules/:code',
+      input: z.object({ disabled: z.boolean() }),
+      responses: {
+        200: ruleSetDraftSchema,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Validates the draft, or the definition in the body when one is given
+    validate: {
+      method: 'POST' as const,
+      path: '/api/admin/rules/validate',
+      input: z.object({ definition: z.unknown().optional() }),
+      responses: {
+        200: ruleValidationSchema,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Runs answers through the draft and the active rule set side by side
+    test: {
+      method: 'POST' as const,
+      path: '/api/admin/rules/draft/test',
+      input: z.object({ answers: z.record(z.any()) }),
+      responses: {
+        200: z.object({
+          draft: ruleTestResultSchema,
+          active: ruleTestResultSchema,
+          changed: z.boolean(),
+        }),
+        404: errorSchemas.notFound,
       },
-    }
+    },
+    // Replays stored sessions and submissions through the draft, or the definition in the body.
+    // format "csv" returns the changed cases as a CSV attachment instead of JSON.
+    backtest: {
+      method: 'POST' as const,
+      path: '/api/admin/rules/backtest',
+      input: z.object({
+        definition: z.unknown().optional(),
+        format: z.enum(["json", "csv"]).optional(),
+      }),
+      responses: {
+        200: backtestReportSchema,
+        404: errorSchemas.notFound,
+        422: z.object({ message: z.string(), validation: ruleValidationSchema }),
+      },
+    },
+    publish: {
+      method: 'POST' as const,
+      path: '/api/admin/rules/draft/publish',
+      input: z.object({ notes: z.string().optional() }),
+      responses: {
+        200: z.object({ version: z.number(), hash: z.string() }),
+        404: errorSchemas.notFound,
+        422: z.object({ message: z.string(), validation: ruleValidationSchema }),
+      },
+    },
   },
 };
 
@@ -119,3 +473,8 @@ export function buildUrl(path: string, params?: Record<string, string | number>)
 
 export type TriageInput = z.infer<typeof api.triage.submit.input>;
 export type SubmissionResponse = z.infer<typeof api.triage.submit.responses[201]>;
+export type CitationVerification = z.infer<typeof citationVerificationSchema>;
+export type RuleValidation = z.infer<typeof ruleValidationSchema>;
+export type RuleValidationIssue = RuleValidation["issues"][number];
+export type RuleSetDraft = z.infer<typeof ruleSetDraftSchema>;
+export type BacktestReport = z.infer<typeof backtestReportSchema>;
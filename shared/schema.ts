@@ -19,6 +19,8 @@ export const submissions = pgTable("submissions", {
   redFlags: jsonb("red_flags").notNull(), // Array of triggered flags
   summary: text("summary").notNull(),
   rulesVersion: text("rules_version").notNull(),
+  rulesHash: text("rules_hash"), // sha256 of the rule set definition that produced riskBand
+  firedRules: jsonb("fired_rules"), // Codes of the rules that fired, RED and AMBER
   modelVersion: text("model_version").notNull(),
   status: text("status").default("pending").notNull(), // pending, reviewed
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -42,16 +44,39 @@ export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   source: text("source").notNull(), // e.g. 'NICE Guidelines'
+  mimeType: text("mime_type"), // detected format, e.g. 'application/pdf'
+  pageCount: integer("page_count"), // PDFs only
+  checksum: text("checksum"), // sha256 of the uploaded file
+  sourceText: text("source_text"), // extracted text, kept so the document can be re-processed
+  version: integer("version").default(1).notNull(),
+  status: text("status").default("active").notNull(), // active, superseded
+  previousVersionId: integer("previous_version_id"), // document this version replaced
+  supersededAt: timestamp("superseded_at"),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
 });
 
 // Document Chunks (for RAG)
 export const chunks = pgTable("chunks", {
   id: serial("id").primaryKey(),
-  documentId: integer("document_id").notNull(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
   chunkText: text("chunk_text").notNull(),
   metadata: jsonb("metadata").notNull(), // Page number, section, etc.
   embedding: jsonb("embedding").notNull(), // Vector array stored as JSON
+  // Set when the document is re-processed; retired chunks stay resolvable for old citations
+  retiredAt: timestamp("retired_at"),
+});
+
+// Versioned triage rule sets (see server/lib/rules.ts for the definition format)
+export const ruleSets = pgTable("rule_sets", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull(),
+  // sha256 of the canonical JSON definition; unique among published sets, drafts may repeat it
+  hash: text("hash").notNull(),
+  definition: jsonb("definition").notNull(),
+  status: text("status").default("draft").notNull(), // draft, active, retired
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  activatedAt: timestamp("activated_at"),
 });
 
 // Chat Sessions for guided triage interview
@@ -60,8 +85,10 @@ export const chatSessions = pgTable("chat_sessions", {
   messages: jsonb("messages").notNull().default([]), // Array of {role, content}
   state: jsonb("state").notNull().default({}), // Extracted structured data
   stage: text("stage").notNull().default("greeting"), // Current interview stage
-  status: text("status").notNull().default("active"), // active, completed, escalated
+  status: text("status").notNull().default("active"), // active, completed, escalated, escalated_mental_health, abandoned
   retryCount: integer("retry_count").notNull().default(0), // Track failed parsing attempts
+  history: jsonb("history").notNull().default([]), // Array of ChatTurn, for going back to change an answer
+  resumeToken: text("resume_token").unique(), // Given to the patient's browser for carrying on after a reload
   submissionId: integer("submission_id"), // Link to final submission if completed
   handoffJson: jsonb("handoff_json"), // Receptionist handoff JSON
   summaryText: text("summary_text"), // Short receptionist summary
@@ -144,6 +171,11 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
   uploadedAt: true 
 });
 
+export const insertRuleSetSchema = createInsertSchema(ruleSets).omit({
+  id: true,
+  createdAt: true
+});
+
 // === TYPES ===
 export type Submission = typeof submissions.$inferSelect;
 export type InsertSubmission = z.infer<typeof insertSubmissionSchema>;
@@ -156,27 +188,78 @@ export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 
 export type Chunk = typeof chunks.$inferSelect;
 
+export type StoredRuleSet = typeof ruleSets.$inferSelect;
+export type InsertRuleSet = z.infer<typeof insertRuleSetSchema>;
+
 export type ChatSession = typeof chatSessions.$inferSelect;
 
+// A yes/no question the patient could not answer: they were not sure, or the answer was still
+// unclear after asking again. Not the same as a no: the rules treat it as not assessed.
+export const UNKNOWN_ANSWER = "unknown";
+export type YesNoAnswer = boolean | typeof UNKNOWN_ANSWER;
+
 // Chat state structure
 export interface ChatState {
   name?: string;
   dateOfBirth?: string;
   age?: number;
   sex?: string;
-  complaint?: string;
+  complaint?: string; // the first of `complaints`
+  complaints?: string[]; // ranked presenting complaints, most serious first
   onset?: string;
   severity?: number;
-  shortnessOfBreath?: boolean;
-  collapse?: boolean;
-  radiatingPain?: boolean;
-  sweating?: boolean;
-  confusion?: boolean;
-  severeBleeding?: boolean;
+  shortnessOfBreath?: YesNoAnswer;
+  collapse?: YesNoAnswer;
+  radiatingPain?: YesNoAnswer;
+  sweating?: YesNoAnswer;
+  confusion?: YesNoAnswer;
+  severeBleeding?: YesNoAnswer;
   [key: string]: any;
 }
 
 export interface ChatMessage {
   role: "assistant" | "user";
   content: string;
+  superseded?: boolean; // an answer the patient went back and changed, or one given after it
+  // On the note added when the patient goes back: the question and the answer being changed
+  correction?: { stage: string; question: string; previousAnswer: string };
+}
+
+// Where the interview was before a patient message (messages[messageIndex])
+export interface ChatTurn {
+  stage: string;
+  state: ChatState;
+  retryCount: number;
+  messageIndex: number;
+}
+
+// Triage rule DSL, interpreted by server/lib/rules.ts and stored in rule_sets.definition
+export type RuleSeverity = "RED" | "AMBER";
+export type RuleComparisonOp = "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "in" | "between" | "exists";
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { fact: string; op: RuleComparisonOp; value?: unknown }
+  | { age: { op: RuleComparisonOp; value?: unknown; unit?: "years" | "months" } }
+  | { sex: string | string[] }
+  | { complaint: string | string[] };
+
+export interface Rule {
+  code: string;
+  label: string;
+  severity: RuleSeverity;
+  complaints?: string[];
+  when: RuleCondition;
+  evidence: string;
+  disabled?: boolean; // kept in the set for history but never evaluated
+}
+
+export interface RuleSet {
+  rules: Rule[];
+  severity_policy: {
+    default: "GREEN" | "AMBER" | "RED";
+    escalate_if_any_red_flag: boolean;
+  };
 }